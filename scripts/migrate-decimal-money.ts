@@ -0,0 +1,206 @@
+import { connect, connection, Types } from 'mongoose';
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import {
+  DEFAULT_CURRENCY_PRECISION,
+  DEFAULT_METAL_PRECISION,
+  MoneyPrecision,
+  precisionOf,
+  roundMoney,
+} from '../src/common/utils/money';
+import { RoundingMode } from '../src/common/enums/index';
+
+// Load environment variables
+config({ path: resolve(__dirname, '../.env') });
+
+/**
+ * Migration script to store money as Decimal128.
+ *
+ * - Currency and Metal records get decimalPlaces / roundingMode defaults
+ *   where missing.
+ * - Every numeric money field is rounded to its asset's precision and
+ *   rewritten as Decimal128. Fields already stored as Decimal128 are left
+ *   untouched, so the script can be re-run safely.
+ *
+ * Run this script using:
+ * npx ts-node scripts/migrate-decimal-money.ts
+ */
+
+interface MoneyCollection {
+  name: string;
+  // Field holding the asset id, or null when only the symbol is stored
+  assetField: string | null;
+  fields: string[];
+}
+
+const MONEY_COLLECTIONS: MoneyCollection[] = [
+  {
+    name: 'Balance',
+    assetField: 'assetId',
+    fields: ['available', 'locked', 'reserved'],
+  },
+  {
+    name: 'Transaction',
+    assetField: 'assetId',
+    fields: ['amount', 'balanceBefore', 'balanceAfter'],
+  },
+  { name: 'JournalEntry', assetField: 'assetId', fields: ['amount'] },
+  {
+    name: 'P2PTransfer',
+    assetField: 'assetId',
+    fields: ['amount', 'feeAmount'],
+  },
+  {
+    name: 'WalletDepositOrder',
+    assetField: 'assetId',
+    fields: ['baseAmount', 'feesAmount', 'taxAmount'],
+  },
+  {
+    name: 'WalletWithdrawalOrder',
+    assetField: null,
+    fields: ['baseAmount', 'feesAmount', 'taxAmount'],
+  },
+  {
+    name: 'BankDeposit',
+    assetField: 'currencyId',
+    fields: ['amount', 'taxAmount', 'feeAmount'],
+  },
+  {
+    name: 'BankWithdrawal',
+    assetField: 'currencyId',
+    fields: ['amount', 'taxAmount', 'feeAmount', 'reservedAmount'],
+  },
+];
+
+const NUMERIC_TYPES = ['double', 'int', 'long'];
+
+async function migrate() {
+  try {
+    const mongoUri =
+      process.env.MONGO_URI || 'mongodb://localhost:27017/example';
+    console.log('Connecting to MongoDB...');
+    await connect(mongoUri);
+    console.log('Connected successfully.\n');
+
+    const db = connection.db;
+    if (!db) {
+      throw new Error('Database connection not established');
+    }
+
+    // Step 1: Precision defaults on assets
+    console.log('=== Setting precision defaults on assets ===');
+    const assetDefaults: Array<[string, MoneyPrecision]> = [
+      ['Currency', DEFAULT_CURRENCY_PRECISION],
+      ['Metal', DEFAULT_METAL_PRECISION],
+    ];
+    for (const [name, defaults] of assetDefaults) {
+      const places = await db
+        .collection(name)
+        .updateMany(
+          { decimalPlaces: { $exists: false } },
+          { $set: { decimalPlaces: defaults.decimalPlaces } },
+        );
+      const modes = await db
+        .collection(name)
+        .updateMany(
+          { roundingMode: { $exists: false } },
+          { $set: { roundingMode: defaults.roundingMode } },
+        );
+      console.log(
+        `✓ ${name}: decimalPlaces set on ${places.modifiedCount}, roundingMode set on ${modes.modifiedCount}`,
+      );
+    }
+
+    const byId = new Map<string, MoneyPrecision>();
+    const bySymbol = new Map<string, MoneyPrecision>();
+    for (const [name, defaults] of assetDefaults) {
+      const assets = await db.collection(name).find({}).toArray();
+      for (const asset of assets) {
+        const precision = precisionOf(
+          {
+            decimalPlaces: asset.decimalPlaces as number | undefined,
+            roundingMode: asset.roundingMode as RoundingMode | undefined,
+          },
+          defaults,
+        );
+        byId.set(String(asset._id), precision);
+        bySymbol.set(String(asset.symbol), precision);
+      }
+    }
+    console.log(`Loaded precision for ${byId.size} assets\n`);
+
+    // Step 2: Money fields
+    let totalUpdated = 0;
+    let totalFallback = 0;
+
+    for (const collection of MONEY_COLLECTIONS) {
+      console.log(`=== Converting ${collection.name} ===`);
+      const coll = db.collection(collection.name);
+      const docs = await coll
+        .find({
+          $or: collection.fields.map((field) => ({
+            [field]: { $type: NUMERIC_TYPES },
+          })),
+        })
+        .toArray();
+      console.log(`Found ${docs.length} records to update`);
+
+      let updated = 0;
+      let fallback = 0;
+      for (const doc of docs) {
+        const assetKey = collection.assetField
+          ? String(doc[collection.assetField] as Types.ObjectId)
+          : null;
+        let precision = assetKey
+          ? byId.get(assetKey)
+          : bySymbol.get(String(doc.assetSymbol));
+        if (!precision) {
+          // Unknown asset: keep the widest default so nothing is lost
+          precision = DEFAULT_METAL_PRECISION;
+          fallback++;
+          console.warn(
+            `⚠ ${collection.name} ${String(doc._id)} - asset not found, using ${precision.decimalPlaces} decimal places`,
+          );
+        }
+
+        const $set: Record<string, Types.Decimal128> = {};
+        for (const field of collection.fields) {
+          const value: unknown = doc[field];
+          if (typeof value === 'number') {
+            $set[field] = Types.Decimal128.fromString(
+              String(roundMoney(value, precision)),
+            );
+          }
+        }
+        await coll.updateOne({ _id: doc._id }, { $set });
+        updated++;
+      }
+
+      totalUpdated += updated;
+      totalFallback += fallback;
+      console.log(
+        `${collection.name} Summary: ${updated} updated, ${fallback} with unknown asset\n`,
+      );
+    }
+
+    console.log('\n✅ Migration completed successfully!');
+    console.log('\nFinal Summary:');
+    console.log(`  Records converted: ${totalUpdated}`);
+    console.log(`  Records with unknown asset: ${totalFallback}`);
+
+    if (totalFallback > 0) {
+      console.log(
+        '\n⚠ Warning: Some records used the default precision. Please review the logs above.',
+      );
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await connection.close();
+    console.log('\nDatabase connection closed.');
+  }
+}
+
+// Run migration
+void migrate();
@@ -0,0 +1,213 @@
+import { connect, connection, Types } from 'mongoose';
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables
+config({ path: resolve(__dirname, '../.env') });
+
+/**
+ * Migration script to give every one-sided JournalEntry its missing leg.
+ *
+ * - Deposits with no debitAccountId are debited from the EXTERNAL_PAYTABS or
+ *   EXTERNAL_BANK clearing account, depending on the deposit order type.
+ * - Bank withdrawals with no creditAccountId are credited to EXTERNAL_BANK
+ *   with the net paid-out amount; their fee and tax entries are debited from
+ *   the user's wallet.
+ *
+ * Clearing account balances are adjusted so that all balances sum to zero.
+ *
+ * Run this script using:
+ * npx ts-node scripts/migrate-double-entry-journals.ts
+ */
+
+async function migrate() {
+  try {
+    const mongoUri =
+      process.env.MONGO_URI || 'mongodb://localhost:27017/example';
+    console.log('Connecting to MongoDB...');
+    await connect(mongoUri);
+    console.log('Connected successfully.\n');
+
+    const db = connection.db;
+    if (!db) {
+      throw new Error('Database connection not established');
+    }
+
+    const accountCollection = db.collection('Account');
+    const balanceCollection = db.collection('Balance');
+    const journalCollection = db.collection('JournalEntry');
+
+    const ensureSystemAccount = async (subtype: string) => {
+      const existing = await accountCollection.findOne({
+        type: 'SYSTEM',
+        userId: null,
+        subtype,
+        deletedAt: null,
+      });
+      if (existing) return existing._id;
+      const now = new Date();
+      const { insertedId } = await accountCollection.insertOne({
+        type: 'SYSTEM',
+        userId: null,
+        subtype,
+        name: `System ${subtype}`,
+        status: 'ACTIVE',
+        deletedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      console.log(`✓ Created ${subtype} system account ${String(insertedId)}`);
+      return insertedId;
+    };
+
+    const externalPayTabs = await ensureSystemAccount('EXTERNAL_PAYTABS');
+    const externalBank = await ensureSystemAccount('EXTERNAL_BANK');
+
+    const moveClearingBalance = async (
+      accountId: Types.ObjectId,
+      journal: Record<string, any>,
+      delta: number,
+    ) => {
+      await balanceCollection.updateOne(
+        {
+          accountId,
+          assetType: journal.assetType,
+          assetId: journal.assetId,
+          assetSymbol: journal.assetSymbol,
+        },
+        { $inc: { available: delta } },
+        { upsert: true },
+      );
+    };
+
+    // Step 1: Deposits missing their debit leg
+    console.log('=== Fixing journals without debitAccountId ===');
+    const missingDebit = await journalCollection
+      .find({ debitAccountId: null })
+      .toArray();
+    console.log(`Found ${missingDebit.length} JournalEntry records to update`);
+
+    let debitUpdated = 0;
+    let debitSkipped = 0;
+
+    for (const journal of missingDebit) {
+      let debitAccountId: Types.ObjectId | null = null;
+
+      const depositOrder = await db
+        .collection('WalletDepositOrder')
+        .findOne({ journalEntryIds: journal._id });
+      const bankWithdrawal = await db
+        .collection('BankWithdrawal')
+        .findOne({ journalEntryIds: journal._id });
+
+      if (bankWithdrawal) {
+        // Withdrawal fee/tax entry: the user's wallet paid it
+        const mainJournal = await journalCollection.findOne({
+          _id: { $in: bankWithdrawal.journalEntryIds as Types.ObjectId[] },
+          idempotencyKey: { $not: /-(fees|tax)$/ },
+        });
+        debitAccountId =
+          (mainJournal?.debitAccountId as Types.ObjectId | undefined) ?? null;
+      } else if (depositOrder?.depositType === 'PAYTAB') {
+        debitAccountId = externalPayTabs;
+      } else if (
+        depositOrder ||
+        (await db
+          .collection('BankDeposit')
+          .findOne({ journalEntryIds: journal._id }))
+      ) {
+        debitAccountId = externalBank;
+      }
+
+      if (!debitAccountId) {
+        debitSkipped++;
+        console.warn(
+          `⚠ Skipped JournalEntry ${String(journal._id)} - could not determine the debit account`,
+        );
+        continue;
+      }
+
+      await journalCollection.updateOne(
+        { _id: journal._id },
+        { $set: { debitAccountId } },
+      );
+      if (!bankWithdrawal) {
+        await moveClearingBalance(debitAccountId, journal, -journal.amount);
+      }
+      debitUpdated++;
+      console.log(
+        `✓ Updated JournalEntry ${String(journal._id)} - debit ${String(debitAccountId)}`,
+      );
+    }
+
+    console.log(
+      `\nDebit Summary: ${debitUpdated} updated, ${debitSkipped} skipped\n`,
+    );
+
+    // Step 2: Withdrawals missing their credit leg
+    console.log('=== Fixing journals without creditAccountId ===');
+    const missingCredit = await journalCollection
+      .find({ creditAccountId: null })
+      .toArray();
+    console.log(`Found ${missingCredit.length} JournalEntry records to update`);
+
+    let creditUpdated = 0;
+    let creditSkipped = 0;
+
+    for (const journal of missingCredit) {
+      const bankWithdrawal = await db
+        .collection('BankWithdrawal')
+        .findOne({ journalEntryIds: journal._id });
+
+      if (!bankWithdrawal) {
+        creditSkipped++;
+        console.warn(
+          `⚠ Skipped JournalEntry ${String(journal._id)} - no bank withdrawal references it`,
+        );
+        continue;
+      }
+
+      // Fees and tax now have their own debit legs, so only the net leaves
+      const netAmount =
+        bankWithdrawal.reservedAmount -
+        (bankWithdrawal.feeAmount || 0) -
+        (bankWithdrawal.taxAmount || 0);
+
+      await journalCollection.updateOne(
+        { _id: journal._id },
+        { $set: { creditAccountId: externalBank, amount: netAmount } },
+      );
+      await moveClearingBalance(externalBank, journal, netAmount);
+      creditUpdated++;
+      console.log(
+        `✓ Updated JournalEntry ${String(journal._id)} - credit ${String(externalBank)}, amount ${journal.amount} -> ${netAmount}`,
+      );
+    }
+
+    console.log(
+      `\nCredit Summary: ${creditUpdated} updated, ${creditSkipped} skipped\n`,
+    );
+
+    console.log('\n✅ Migration completed successfully!');
+    console.log('\nFinal Summary:');
+    console.log(`  Debit legs added: ${debitUpdated}`);
+    console.log(`  Debit legs skipped: ${debitSkipped}`);
+    console.log(`  Credit legs added: ${creditUpdated}`);
+    console.log(`  Credit legs skipped: ${creditSkipped}`);
+
+    if (debitSkipped > 0 || creditSkipped > 0) {
+      console.log(
+        '\n⚠ Warning: Some records were skipped. Please review the logs above.',
+      );
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await connection.close();
+    console.log('\nDatabase connection closed.');
+  }
+}
+
+// Run migration
+void migrate();
@@ -0,0 +1,140 @@
+import { connect, connection, Types } from 'mongoose';
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables
+config({ path: resolve(__dirname, '../.env') });
+
+/**
+ * Migration script to backfill transaction types and directions.
+ *
+ * Transactions used to carry only DEPOSIT or WITHDRAWAL, which doubled as
+ * the direction of the movement. This sets `direction` (CREDIT / DEBIT) from
+ * the old type and re-types each row from the idempotency key of its journal
+ * entry:
+ *   -fees, -spread           -> FEE
+ *   -tax                     -> TAX
+ *   reversal-*               -> REVERSAL
+ *   adjustment-*             -> ADJUSTMENT
+ *   internal-transfer-*,
+ *   p2p-transfer-*           -> TRANSFER_IN / TRANSFER_OUT
+ *   metal-trade-*, fx-*      -> TRADE
+ * Everything else keeps DEPOSIT or WITHDRAWAL. Rows that already have a
+ * direction are skipped, so the script can be re-run safely.
+ *
+ * Run this script using:
+ * npx ts-node scripts/migrate-transaction-types.ts
+ */
+
+const BATCH_SIZE = 500;
+
+function typeOf(idempotencyKey: string | undefined, isCredit: boolean): string {
+  const fallback = isCredit ? 'DEPOSIT' : 'WITHDRAWAL';
+  if (!idempotencyKey) return fallback;
+  if (idempotencyKey.endsWith('-fees') || idempotencyKey.endsWith('-spread')) {
+    return 'FEE';
+  }
+  if (idempotencyKey.endsWith('-tax')) return 'TAX';
+  if (idempotencyKey.startsWith('reversal-')) return 'REVERSAL';
+  if (idempotencyKey.startsWith('adjustment-')) return 'ADJUSTMENT';
+  if (
+    idempotencyKey.startsWith('internal-transfer-') ||
+    idempotencyKey.startsWith('p2p-transfer-')
+  ) {
+    return isCredit ? 'TRANSFER_IN' : 'TRANSFER_OUT';
+  }
+  if (
+    idempotencyKey.startsWith('metal-trade-') ||
+    idempotencyKey.startsWith('fx-')
+  ) {
+    return 'TRADE';
+  }
+  return fallback;
+}
+
+async function migrate() {
+  try {
+    const mongoUri =
+      process.env.MONGO_URI || 'mongodb://localhost:27017/example';
+    console.log('Connecting to MongoDB...');
+    await connect(mongoUri);
+    console.log('Connected successfully.\n');
+
+    const db = connection.db;
+    if (!db) {
+      throw new Error('Database connection not established');
+    }
+
+    const transactions = db
+      .collection('Transaction')
+      .find({ direction: { $exists: false } })
+      .project({ _id: 1, type: 1, journalEntryId: 1 });
+
+    const counts: Record<string, number> = {};
+    let updated = 0;
+    let batch: Array<{
+      _id: Types.ObjectId;
+      type: string;
+      journalEntryId: Types.ObjectId | null;
+    }> = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const journalIds = batch
+        .map((tx) => tx.journalEntryId)
+        .filter((id): id is Types.ObjectId => id != null);
+      const journals = await db
+        .collection('JournalEntry')
+        .find({ _id: { $in: journalIds } })
+        .project({ idempotencyKey: 1 })
+        .toArray();
+      const keys = new Map(
+        journals.map((j) => [String(j._id), j.idempotencyKey as string]),
+      );
+
+      const ops = batch.map((tx) => {
+        const isCredit = tx.type === 'DEPOSIT';
+        const type = typeOf(keys.get(String(tx.journalEntryId)), isCredit);
+        counts[type] = (counts[type] ?? 0) + 1;
+        return {
+          updateOne: {
+            filter: { _id: tx._id, direction: { $exists: false } },
+            update: {
+              $set: { type, direction: isCredit ? 'CREDIT' : 'DEBIT' },
+            },
+          },
+        };
+      });
+      const result = await db.collection('Transaction').bulkWrite(ops);
+      updated += result.modifiedCount;
+      console.log(`  Updated ${updated} transactions so far`);
+      batch = [];
+    };
+
+    for await (const tx of transactions) {
+      batch.push({
+        _id: tx._id as Types.ObjectId,
+        type: tx.type as string,
+        journalEntryId: (tx.journalEntryId as Types.ObjectId | null) ?? null,
+      });
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    console.log('\n✅ Migration completed successfully!');
+    console.log('\nFinal Summary:');
+    console.log(`  Transactions updated: ${updated}`);
+    for (const [type, count] of Object.entries(counts)) {
+      console.log(`  ${type}: ${count}`);
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await connection.close();
+    console.log('\nDatabase connection closed.');
+  }
+}
+
+// Run migration
+void migrate();
@@ -0,0 +1,132 @@
+import { connect, connection, Types } from 'mongoose';
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables
+config({ path: resolve(__dirname, '../.env') });
+
+/**
+ * Migration script to back open bank withdrawals with balance holds.
+ *
+ * Withdrawals requested before the hold subsystem moved their amount into
+ * `Balance.reserved` directly. This creates the matching ACTIVE BalanceHold
+ * for every PENDING / APPROVED / PROCESSING withdrawal without one and links
+ * it through `holdId`. Balances are not touched: the funds are already
+ * reserved. Withdrawals that already have a hold are skipped, so the script
+ * can be re-run safely.
+ *
+ * Run this script using:
+ * npx ts-node scripts/migrate-withdrawal-holds.ts
+ */
+
+const OPEN_STATUSES = ['PENDING', 'APPROVED', 'PROCESSING'];
+
+async function migrate() {
+  try {
+    const mongoUri =
+      process.env.MONGO_URI || 'mongodb://localhost:27017/example';
+    console.log('Connecting to MongoDB...');
+    await connect(mongoUri);
+    console.log('Connected successfully.\n');
+
+    const db = connection.db;
+    if (!db) {
+      throw new Error('Database connection not established');
+    }
+
+    const withdrawals = await db
+      .collection('BankWithdrawal')
+      .find({
+        status: { $in: OPEN_STATUSES },
+        walletDebited: { $ne: true },
+        holdId: null,
+      })
+      .toArray();
+    console.log(`Found ${withdrawals.length} open withdrawals without a hold`);
+
+    let created = 0;
+    let skipped = 0;
+    for (const withdrawal of withdrawals) {
+      const withdrawalId = withdrawal._id as Types.ObjectId;
+      const order = await db
+        .collection('WalletWithdrawalOrder')
+        .findOne({ bankWithdrawalId: withdrawalId });
+      if (!order) {
+        skipped++;
+        console.warn(
+          `⚠ BankWithdrawal ${withdrawalId.toHexString()} - withdrawal order not found, skipped`,
+        );
+        continue;
+      }
+
+      const balance = await db.collection('Balance').findOne({
+        accountId: order.walletAccountId as Types.ObjectId,
+        assetSymbol: order.assetSymbol as string,
+      });
+      if (!balance) {
+        skipped++;
+        console.warn(
+          `⚠ BankWithdrawal ${withdrawalId.toHexString()} - balance not found, skipped`,
+        );
+        continue;
+      }
+
+      const idempotencyKey = `bank-withdrawal-hold-${withdrawalId.toHexString()}`;
+      const now = new Date();
+      const hold = await db.collection('BalanceHold').findOneAndUpdate(
+        { idempotencyKey },
+        {
+          $setOnInsert: {
+            accountId: balance.accountId as Types.ObjectId,
+            balanceId: balance._id,
+            assetType: balance.assetType as string,
+            assetId: balance.assetId as Types.ObjectId,
+            assetSymbol: balance.assetSymbol as string,
+            ownerModule: 'withdrawal',
+            ownerRef: withdrawalId.toHexString(),
+            amount: withdrawal.reservedAmount as Types.Decimal128,
+            capturedAmount: Types.Decimal128.fromString('0'),
+            releasedAmount: Types.Decimal128.fromString('0'),
+            status: 'ACTIVE',
+            expiresAt: null,
+            idempotencyKey,
+            closedAt: null,
+            createdAt: now,
+            updatedAt: now,
+          },
+        },
+        { upsert: true, returnDocument: 'after' },
+      );
+      if (!hold) {
+        throw new Error(
+          `Hold upsert returned nothing for ${withdrawalId.toHexString()}`,
+        );
+      }
+
+      await db
+        .collection('BankWithdrawal')
+        .updateOne({ _id: withdrawalId }, { $set: { holdId: hold._id } });
+      created++;
+    }
+
+    console.log('\n✅ Migration completed successfully!');
+    console.log('\nFinal Summary:');
+    console.log(`  Holds linked: ${created}`);
+    console.log(`  Withdrawals skipped: ${skipped}`);
+
+    if (skipped > 0) {
+      console.log(
+        '\n⚠ Warning: Some withdrawals could not be linked and cannot be completed or refused until fixed. Please review the logs above.',
+      );
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await connection.close();
+    console.log('\nDatabase connection closed.');
+  }
+}
+
+// Run migration
+void migrate();
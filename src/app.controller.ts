@@ -3,6 +3,7 @@ import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { ApiAcceptLanguage } from './common/decorators/api-accept-language.decorator';
 import { AppService } from './app.service';
 import { I18nLang, I18nService } from 'nestjs-i18n';
+import { MongoService } from './common/services/internal/mongo.service';
 
 @ApiTags('Z- Health')
 @ApiAcceptLanguage()
@@ -11,6 +12,7 @@ export class AppController {
   constructor(
     private readonly appService: AppService,
     private readonly i18n: I18nService,
+    private readonly mongo: MongoService,
   ) {}
 
   @Get()
@@ -29,6 +31,8 @@ export class AppController {
       status: 'ok',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
+      // Transaction outcomes of this instance since it started
+      transactions: this.mongo.getStats(),
     };
   }
 }
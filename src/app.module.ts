@@ -8,6 +8,7 @@ import {
 import { JwtLanguageResolver } from './common/i18n/jwt-language.resolver';
 import { join } from 'path';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { DatabaseModule } from './database/database.module';
@@ -28,6 +29,11 @@ import { WalletModule } from './modules/wallet/wallet.module';
 import { PaymentModule } from './modules/paytabs/paytabs.module';
 import { BankDepositModule } from './modules/bank-deposit/bank-deposit.module';
 import { WithdrawalModule } from './modules/withdrawal/withdrawal.module';
+import { HoldModule } from './modules/hold/hold.module';
+import { LimitModule } from './modules/limit/limit.module';
+import { RealtimeModule } from './modules/realtime/realtime.module';
+import { OutboxModule } from './modules/outbox/outbox.module';
+import { LockModule } from './modules/lock/lock.module';
 import configuration from './config/configuration';
 import { ResponseEnvelopeInterceptor } from './common/interceptors/response-envelope.interceptor';
 import { PaginationTransformInterceptor } from './common/interceptors/pagination-transform.interceptor';
@@ -64,6 +70,7 @@ import { RequestIdMiddleware } from './common/middleware/request-id.middleware';
         JwtLanguageResolver,
       ],
     }),
+    ScheduleModule.forRoot(),
     CommonModule,
     DatabaseModule,
     UsersModule,
@@ -82,6 +89,11 @@ import { RequestIdMiddleware } from './common/middleware/request-id.middleware';
     PaymentModule,
     BankDepositModule,
     WithdrawalModule,
+    HoldModule,
+    LimitModule,
+    RealtimeModule,
+    OutboxModule,
+    LockModule,
   ],
   controllers: [AppController],
   providers: [
@@ -1,13 +1,34 @@
 import { Module, Global } from '@nestjs/common';
+import type { LoggerService } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WINSTON_MODULE_NEST_PROVIDER } from 'nest-winston';
 import { MailService } from './services/internal/mail.service';
 import { RedisLockService } from './services/internal/redis-lock.service';
 import { MongoConnectionLoggerService } from './services/internal/mongo-connection-logger.service';
 import { RedisService } from './services/internal/redis.service';
 import { MongoService } from './services/internal/mongo.service';
+import {
+  STORE_DRIVER,
+  StoreDriver,
+  StoreDriverName,
+} from './services/internal/drivers/store-driver';
+import { RedisStoreDriver } from './services/internal/drivers/redis-store.driver';
+import { MemoryStoreDriver } from './services/internal/drivers/memory-store.driver';
 
 @Global()
 @Module({
   providers: [
+    {
+      provide: STORE_DRIVER,
+      inject: [ConfigService, WINSTON_MODULE_NEST_PROVIDER],
+      useFactory: (
+        configService: ConfigService,
+        logger: LoggerService,
+      ): StoreDriver =>
+        configService.get<StoreDriverName>('redisDriver') === 'memory'
+          ? new MemoryStoreDriver()
+          : new RedisStoreDriver(configService.get<string>('redisUrl'), logger),
+    },
     MailService,
     RedisService,
     MongoService,
@@ -0,0 +1,24 @@
+import { UseInterceptors, applyDecorators } from '@nestjs/common';
+import { ApiHeader, ApiResponse } from '@nestjs/swagger';
+import { IdempotencyInterceptor } from '../interceptors/idempotency.interceptor';
+
+/**
+ * Accept an optional `Idempotency-Key` header on a money-moving route:
+ * retries with the same key replay the first response instead of repeating it.
+ */
+export function Idempotent() {
+  return applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description:
+        'Unique key per operation (e.g. a UUID). Retries with the same key and body return the original response for 24 hours.',
+    }),
+    ApiResponse({
+      status: 409,
+      description:
+        'Idempotency key reused with a different body, or its first request is still running',
+    }),
+  );
+}
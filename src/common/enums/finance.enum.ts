@@ -14,3 +14,10 @@ export enum FeeOperationType {
 export enum WithdrawalMethod {
   BANK_TRANSFER = 'BANK_TRANSFER',
 }
+
+export enum RoundingMode {
+  HALF_UP = 'HALF_UP',
+  HALF_EVEN = 'HALF_EVEN',
+  DOWN = 'DOWN',
+  UP = 'UP',
+}
@@ -0,0 +1,170 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { I18nService } from 'nestjs-i18n';
+import { Observable, catchError, from, of, switchMap, throwError } from 'rxjs';
+import { RedisService } from '../services/internal/redis.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+const KEY_PREFIX = 'idempotency:';
+const MAX_KEY_LENGTH = 255;
+// How long a completed response can be replayed
+const RESPONSE_TTL_MS = 24 * 60 * 60 * 1000;
+// Guards the key while the first request runs; outlives any sane request
+const IN_PROGRESS_TTL_MS = 60 * 1000;
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  completed: boolean;
+  body?: unknown;
+}
+
+interface IdempotentRequest {
+  method: string;
+  originalUrl?: string;
+  url: string;
+  body?: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  user?: { id?: string; _id?: string; adminId?: string };
+}
+
+/**
+ * Honours an `Idempotency-Key` header on the route it decorates.
+ *
+ * The first request with a key runs normally and its result is kept in Redis
+ * with a fingerprint of the request. A retry with the same key and the same
+ * request replays that result without running the handler again; the same key
+ * with a different request, or while the first one is still running, is a
+ * 409. Keys are scoped per user (or admin) and route. Failed requests are not kept, so
+ * they can be retried with the same key.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly redis: RedisService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const req = http.getRequest<IdempotentRequest>();
+    const header = req.headers[IDEMPOTENCY_KEY_HEADER];
+    if (header === undefined) return next.handle();
+
+    const key = Array.isArray(header) ? header[0] : header;
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.idempotency_key_invalid'),
+      );
+    }
+
+    const userId =
+      req.user?.id ?? req.user?._id ?? req.user?.adminId ?? 'anonymous';
+    const path = (req.originalUrl ?? req.url).split('?')[0];
+    const redisKey = `${KEY_PREFIX}${userId}:${req.method}:${path}:${key}`;
+    const fingerprint = this.fingerprintOf(req.method, path, req.body);
+
+    return from(this.claim(redisKey, fingerprint)).pipe(
+      switchMap((stored) => {
+        if (stored) {
+          http
+            .getResponse<{ setHeader: (name: string, value: string) => void }>()
+            .setHeader('Idempotent-Replayed', 'true');
+          return of(stored.body);
+        }
+        return next.handle().pipe(
+          switchMap((body) =>
+            from(this.complete(redisKey, fingerprint, body)).pipe(
+              switchMap(() => of(body)),
+            ),
+          ),
+          catchError((err: unknown) =>
+            // Free the key so the client can retry; the original error wins
+            from(this.redis.del(redisKey).catch(() => 0)).pipe(
+              switchMap(() => throwError(() => err)),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+
+  // Returns the stored record to replay, or null when this request owns the key
+  private async claim(
+    redisKey: string,
+    fingerprint: string,
+  ): Promise<IdempotencyRecord | null> {
+    const pending: IdempotencyRecord = { fingerprint, completed: false };
+    const claimed = await this.redis.set(redisKey, JSON.stringify(pending), {
+      px: IN_PROGRESS_TTL_MS,
+      nx: true,
+    });
+    if (claimed) return null;
+
+    const raw = await this.redis.get(redisKey);
+    // Expired or released between the two calls
+    if (!raw) return this.claim(redisKey, fingerprint);
+
+    const stored = JSON.parse(raw) as IdempotencyRecord;
+    if (stored.fingerprint !== fingerprint) {
+      throw new ConflictException(
+        this.i18n.t('common.errors.idempotency_key_reused'),
+      );
+    }
+    if (!stored.completed) {
+      throw new ConflictException(
+        this.i18n.t('common.errors.idempotency_request_in_progress'),
+      );
+    }
+    return stored;
+  }
+
+  private async complete(
+    redisKey: string,
+    fingerprint: string,
+    body: unknown,
+  ): Promise<void> {
+    const record: IdempotencyRecord = {
+      fingerprint,
+      completed: true,
+      // Stored as the client would see it (documents through their toJSON)
+      body:
+        body === undefined
+          ? null
+          : (JSON.parse(JSON.stringify(body)) as unknown),
+    };
+    await this.redis.set(redisKey, JSON.stringify(record), {
+      px: RESPONSE_TTL_MS,
+    });
+  }
+
+  private fingerprintOf(method: string, path: string, body: unknown): string {
+    return createHash('sha256')
+      .update(`${method} ${path} ${this.stableStringify(body ?? null)}`)
+      .digest('hex');
+  }
+
+  // Key order in the body must not change the fingerprint
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .map(
+          (k) =>
+            `${JSON.stringify(k)}:${this.stableStringify((value as Record<string, unknown>)[k])}`,
+        );
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
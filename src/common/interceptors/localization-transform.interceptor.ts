@@ -3,6 +3,7 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -38,8 +39,8 @@ export class LocalizationTransformInterceptor implements NestInterceptor {
       return data;
     }
 
-    // Handle Date objects - return as-is
-    if (data instanceof Date) {
+    // Handle Date objects and file downloads - return as-is
+    if (data instanceof Date || data instanceof StreamableFile) {
       return data;
     }
 
@@ -1,6 +1,7 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
+import { requestContext } from '../utils/request-context';
 
 declare module 'http' {
   interface IncomingMessage {
@@ -20,6 +21,6 @@ export class RequestIdMiddleware implements NestMiddleware {
     req.requestId = requestId;
     res.setHeader('X-Request-Id', requestId);
 
-    next();
+    requestContext.run({ requestId }, next);
   }
 }
@@ -0,0 +1,196 @@
+import { EventEmitter } from 'events';
+import { HeldLockEntry, SetOptions, StoreDriver } from './store-driver';
+
+interface Entry {
+  value: string;
+  // Epoch milliseconds, or null for no expiry
+  expiresAt: number | null;
+}
+
+interface LockEntry {
+  token: string;
+  meta: string;
+  expiresAt: number;
+}
+
+/**
+ * Keeps everything in this process, with the semantics of the Redis driver:
+ * NX / XX / PX on set, token-checked lock renew and release, fencing
+ * counters that only grow. The counters start over when the process does;
+ * callers pass the tokens already applied as floors to carry on from them.
+ * Expired entries are dropped when next touched.
+ * Every method runs without yielding before it returns, so each one is
+ * atomic. Nothing is shared with other processes: use it for tests and
+ * single-instance deployments only.
+ */
+export class MemoryStoreDriver implements StoreDriver {
+  private readonly entries = new Map<string, Entry>();
+  private readonly locks = new Map<string, LockEntry>();
+  private readonly fences = new Map<string, number>();
+  private readonly stats = new Map<string, Record<string, number>>();
+  private readonly channels = new EventEmitter();
+
+  connect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    this.channels.removeAllListeners();
+    return Promise.resolve();
+  }
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.entryOf(key)?.value ?? null);
+  }
+
+  set(key: string, value: string, opts?: SetOptions): Promise<string | null> {
+    const exists = this.entryOf(key) !== null;
+    if ((opts?.nx && exists) || (opts?.xx && !exists)) {
+      return Promise.resolve(null);
+    }
+    this.entries.set(key, {
+      value,
+      expiresAt: opts?.px != null ? Date.now() + opts.px : null,
+    });
+    return Promise.resolve('OK');
+  }
+
+  del(key: string): Promise<number> {
+    const existed = this.entryOf(key) !== null;
+    this.entries.delete(key);
+    return Promise.resolve(existed ? 1 : 0);
+  }
+
+  publish(channel: string, message: string): Promise<void> {
+    // Delivered later, like a message coming back from Redis
+    setImmediate(() => this.channels.emit(channel, message));
+    return Promise.resolve();
+  }
+
+  subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<void> {
+    this.channels.removeAllListeners(channel);
+    this.channels.on(channel, listener);
+    return Promise.resolve();
+  }
+
+  unsubscribe(channel: string): Promise<void> {
+    this.channels.removeAllListeners(channel);
+    return Promise.resolve();
+  }
+
+  acquireLocks(
+    keys: string[],
+    token: string,
+    ttlMs: number,
+    meta: string,
+    floors: number[],
+  ): Promise<number[] | null> {
+    if (keys.some((key) => this.lockOf(key))) return Promise.resolve(null);
+
+    const expiresAt = Date.now() + ttlMs;
+    const fences = keys.map((key, i) => {
+      this.locks.set(key, { token, meta, expiresAt });
+      const fence = Math.max(this.fences.get(key) ?? 0, floors[i] ?? 0) + 1;
+      this.fences.set(key, fence);
+      return fence;
+    });
+    return Promise.resolve(fences);
+  }
+
+  raiseFence(key: string, floor: number): Promise<void> {
+    this.fences.set(key, Math.max(this.fences.get(key) ?? 0, floor));
+    return Promise.resolve();
+  }
+
+  renewLocks(keys: string[], token: string, ttlMs: number): Promise<number> {
+    let renewed = 0;
+    for (const key of keys) {
+      const lock = this.lockOf(key);
+      if (lock?.token !== token) continue;
+      lock.expiresAt = Date.now() + ttlMs;
+      renewed++;
+    }
+    return Promise.resolve(renewed);
+  }
+
+  releaseLocks(keys: string[], token: string): Promise<number> {
+    let released = 0;
+    for (const key of keys) {
+      if (this.lockOf(key)?.token !== token) continue;
+      this.locks.delete(key);
+      released++;
+    }
+    return Promise.resolve(released);
+  }
+
+  forceReleaseLock(key: string): Promise<string | null> {
+    const lock = this.lockOf(key);
+    if (!lock) return Promise.resolve(null);
+    this.locks.delete(key);
+    return Promise.resolve(lock.meta);
+  }
+
+  listLocks(prefix: string): Promise<HeldLockEntry[]> {
+    const now = Date.now();
+    const held: HeldLockEntry[] = [];
+    for (const key of [...this.locks.keys()]) {
+      const lock = key.startsWith(prefix) ? this.lockOf(key) : null;
+      if (lock) {
+        held.push({ key, meta: lock.meta, expiresInMs: lock.expiresAt - now });
+      }
+    }
+    return Promise.resolve(held);
+  }
+
+  getLockMeta(keys: string[]): Promise<Array<string | null>> {
+    return Promise.resolve(keys.map((key) => this.lockOf(key)?.meta ?? null));
+  }
+
+  incrementLockStats(
+    prefixes: string[],
+    counters: Record<string, number>,
+  ): Promise<void> {
+    for (const prefix of prefixes) {
+      const current = this.stats.get(prefix) ?? {};
+      for (const [field, by] of Object.entries(counters)) {
+        if (by > 0) current[field] = (current[field] ?? 0) + by;
+      }
+      this.stats.set(prefix, current);
+    }
+    return Promise.resolve();
+  }
+
+  getLockStats(): Promise<
+    Array<{ prefix: string; counters: Record<string, number> }>
+  > {
+    return Promise.resolve(
+      [...this.stats].map(([prefix, counters]) => ({
+        prefix,
+        counters: { ...counters },
+      })),
+    );
+  }
+
+  private entryOf(key: string): Entry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private lockOf(key: string): LockEntry | null {
+    const lock = this.locks.get(key);
+    if (!lock) return null;
+    if (lock.expiresAt <= Date.now()) {
+      this.locks.delete(key);
+      return null;
+    }
+    return lock;
+  }
+}
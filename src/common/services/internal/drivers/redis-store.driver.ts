@@ -0,0 +1,313 @@
+import type { LoggerService } from '@nestjs/common';
+import {
+  createClient,
+  RedisClientType,
+  SetOptions as RedisSetOptions,
+} from 'redis';
+import { logBoth } from '../../../utils/log-both';
+import { HeldLockEntry, SetOptions, StoreDriver } from './store-driver';
+
+// KEYS holds n lock keys, then their fencing counters, then their metadata
+// keys; ARGV[5..] holds a floor per key. Sets every lock to the token and
+// its metadata to ARGV[4] only if none of the locks is held, and bumps each
+// fencing counter past its floor (a counter flushed or evicted restarts at
+// 0). Returns the new fencing tokens, or an empty list when a key is busy.
+const ACQUIRE_ALL_SCRIPT = `
+local n = tonumber(ARGV[3])
+for i = 1, n do
+  if redis.call('exists', KEYS[i]) == 1 then return {} end
+end
+local fences = {}
+for i = 1, n do
+  redis.call('set', KEYS[i], ARGV[1], 'PX', ARGV[2])
+  redis.call('set', KEYS[2 * n + i], ARGV[4], 'PX', ARGV[2])
+  local fence = redis.call('incr', KEYS[n + i])
+  local floor = tonumber(ARGV[4 + i])
+  if fence <= floor then
+    fence = floor + 1
+    redis.call('set', KEYS[n + i], fence)
+  end
+  fences[i] = fence
+end
+return fences`;
+
+// Raises a fencing counter to ARGV[1] unless it is already past it
+const RAISE_FENCE_SCRIPT = `
+local current = tonumber(redis.call('get', KEYS[1]) or '0')
+if current < tonumber(ARGV[1]) then redis.call('set', KEYS[1], ARGV[1]) end
+return current`;
+
+// KEYS holds n lock keys, then their metadata keys. Extends the locks still
+// held with the token; returns how many were
+const RENEW_ALL_SCRIPT = `
+local n = tonumber(ARGV[3])
+local renewed = 0
+for i = 1, n do
+  if redis.call('get', KEYS[i]) == ARGV[1] then
+    redis.call('pexpire', KEYS[i], ARGV[2])
+    redis.call('pexpire', KEYS[n + i], ARGV[2])
+    renewed = renewed + 1
+  end
+end
+return renewed`;
+
+const RELEASE_ALL_SCRIPT = `
+local n = tonumber(ARGV[2])
+local released = 0
+for i = 1, n do
+  if redis.call('get', KEYS[i]) == ARGV[1] then
+    redis.call('del', KEYS[i], KEYS[n + i])
+    released = released + 1
+  end
+end
+return released`;
+
+// Drops a lock whoever holds it; returns its metadata, or nil if not held
+const FORCE_RELEASE_SCRIPT = `
+if redis.call('exists', KEYS[1]) == 0 then return nil end
+local meta = redis.call('get', KEYS[2])
+redis.call('del', KEYS[1], KEYS[2])
+return meta or '{}'`;
+
+const FENCE_PREFIX = 'fence:';
+const META_PREFIX = 'lock-meta:';
+const STATS_PREFIX = 'lock-stats:';
+
+export class RedisStoreDriver implements StoreDriver {
+  private readonly client: RedisClientType;
+  // A connection in subscriber mode cannot run other commands, so pub/sub
+  // gets its own, opened on first use
+  private subscriber: Promise<RedisClientType> | null = null;
+
+  constructor(
+    url: string | undefined,
+    private readonly logger: LoggerService,
+  ) {
+    this.client = createClient({ url });
+    this.client.on('error', (err) => {
+      logBoth(this.logger, 'error', {
+        event: 'redis_error',
+        message: this.toMessage(err),
+      });
+    });
+    this.client.on('connect', () => {
+      logBoth(this.logger, 'info', { event: 'redis_connecting' });
+    });
+    this.client.on('ready', () => {
+      logBoth(this.logger, 'info', { event: 'redis_ready' });
+    });
+    this.client.on('end', () => {
+      logBoth(this.logger, 'warn', { event: 'redis_end' });
+    });
+    const anyClient = this.client as unknown as {
+      on?: (event: string, listener: (...args: unknown[]) => void) => void;
+    };
+    anyClient.on?.('reconnecting', () => {
+      logBoth(this.logger, 'warn', { event: 'redis_reconnecting' });
+    });
+  }
+
+  async connect(): Promise<void> {
+    if (this.client.isOpen) return;
+    try {
+      await this.client.connect();
+      logBoth(this.logger, 'info', { event: 'redis_connected' });
+    } catch (err) {
+      logBoth(this.logger, 'error', {
+        event: 'redis_connect_failed',
+        message: this.toMessage(err),
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    const subscriber = await this.subscriber?.catch(() => null);
+    if (subscriber?.isOpen) await subscriber.quit();
+    if (this.client.isOpen) await this.client.quit();
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(
+    key: string,
+    value: string,
+    opts?: SetOptions,
+  ): Promise<string | null> {
+    // Redis accepts only one of NX / XX
+    const args: RedisSetOptions = {
+      ...(opts?.px != null ? { PX: opts.px } : {}),
+      ...(opts?.nx ? { NX: true } : opts?.xx ? { XX: true } : {}),
+    };
+    return this.client.set(key, value, args);
+  }
+
+  async del(key: string): Promise<number> {
+    return this.client.del(key);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<void> {
+    const subscriber = await this.getSubscriber();
+    await subscriber.subscribe(channel, listener);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const subscriber = await this.getSubscriber();
+    await subscriber.unsubscribe(channel);
+  }
+
+  async acquireLocks(
+    keys: string[],
+    token: string,
+    ttlMs: number,
+    meta: string,
+    floors: number[],
+  ): Promise<number[] | null> {
+    const fences = (await this.client.eval(ACQUIRE_ALL_SCRIPT, {
+      keys: [
+        ...keys,
+        ...keys.map((key) => `${FENCE_PREFIX}${key}`),
+        ...keys.map((key) => `${META_PREFIX}${key}`),
+      ],
+      arguments: [
+        token,
+        String(ttlMs),
+        String(keys.length),
+        meta,
+        ...keys.map((_, i) => String(floors[i] ?? 0)),
+      ],
+    })) as number[];
+    return fences.length === keys.length ? fences : null;
+  }
+
+  async raiseFence(key: string, floor: number): Promise<void> {
+    await this.client.eval(RAISE_FENCE_SCRIPT, {
+      keys: [`${FENCE_PREFIX}${key}`],
+      arguments: [String(floor)],
+    });
+  }
+
+  async renewLocks(
+    keys: string[],
+    token: string,
+    ttlMs: number,
+  ): Promise<number> {
+    const renewed = await this.client.eval(RENEW_ALL_SCRIPT, {
+      keys: [...keys, ...keys.map((key) => `${META_PREFIX}${key}`)],
+      arguments: [token, String(ttlMs), String(keys.length)],
+    });
+    return renewed as number;
+  }
+
+  async releaseLocks(keys: string[], token: string): Promise<number> {
+    const released = await this.client.eval(RELEASE_ALL_SCRIPT, {
+      keys: [...keys, ...keys.map((key) => `${META_PREFIX}${key}`)],
+      arguments: [token, String(keys.length)],
+    });
+    return released as number;
+  }
+
+  async forceReleaseLock(key: string): Promise<string | null> {
+    const meta = await this.client.eval(FORCE_RELEASE_SCRIPT, {
+      keys: [key, `${META_PREFIX}${key}`],
+    });
+    return typeof meta === 'string' ? meta : null;
+  }
+
+  async listLocks(prefix: string): Promise<HeldLockEntry[]> {
+    const metaKeys: string[] = [];
+    for await (const metaKey of this.client.scanIterator({
+      MATCH: `${META_PREFIX}${prefix}*`,
+      COUNT: 100,
+    })) {
+      metaKeys.push(metaKey);
+    }
+
+    const locks: HeldLockEntry[] = [];
+    for (const metaKey of metaKeys) {
+      const key = metaKey.slice(META_PREFIX.length);
+      const [meta, expiresInMs] = await Promise.all([
+        this.client.get(metaKey),
+        this.client.pTTL(key),
+      ]);
+      // Released between the scan and the read
+      if (!meta || expiresInMs < 0) continue;
+      locks.push({ key, meta, expiresInMs });
+    }
+    return locks;
+  }
+
+  async getLockMeta(keys: string[]): Promise<Array<string | null>> {
+    return this.client.mGet(keys.map((key) => `${META_PREFIX}${key}`));
+  }
+
+  async incrementLockStats(
+    prefixes: string[],
+    counters: Record<string, number>,
+  ): Promise<void> {
+    const multi = this.client.multi();
+    for (const prefix of prefixes) {
+      for (const [field, by] of Object.entries(counters)) {
+        if (by > 0) multi.hIncrBy(`${STATS_PREFIX}${prefix}`, field, by);
+      }
+    }
+    await multi.exec();
+  }
+
+  async getLockStats(): Promise<
+    Array<{ prefix: string; counters: Record<string, number> }>
+  > {
+    const stats: Array<{ prefix: string; counters: Record<string, number> }> =
+      [];
+    for await (const statsKey of this.client.scanIterator({
+      MATCH: `${STATS_PREFIX}*`,
+      COUNT: 100,
+    })) {
+      const fields = await this.client.hGetAll(statsKey);
+      stats.push({
+        prefix: statsKey.slice(STATS_PREFIX.length),
+        counters: Object.fromEntries(
+          Object.entries(fields).map(([field, value]) => [
+            field,
+            parseInt(value, 10),
+          ]),
+        ),
+      });
+    }
+    return stats;
+  }
+
+  private getSubscriber(): Promise<RedisClientType> {
+    if (!this.subscriber) {
+      const client = this.client.duplicate();
+      client.on('error', (err: unknown) => {
+        logBoth(this.logger, 'error', {
+          event: 'redis_subscriber_error',
+          message: this.toMessage(err),
+        });
+      });
+      this.subscriber = client.connect().then(() => client);
+      this.subscriber.catch(() => {
+        this.subscriber = null;
+      });
+    }
+    return this.subscriber;
+  }
+
+  private toMessage(err: unknown): string {
+    try {
+      if (err instanceof Error) return `${err.name}: ${err.message}`;
+      return JSON.stringify(err);
+    } catch {
+      return String(err);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+// Storage behind RedisService and RedisLockService. `redis` shares state
+// across app instances; `memory` keeps it in this process, for tests and
+// single-instance deployments without Redis.
+export type StoreDriverName = 'redis' | 'memory';
+
+export const STORE_DRIVER = Symbol('STORE_DRIVER');
+
+export interface SetOptions {
+  // Expiry in milliseconds
+  px?: number;
+  // Only set when the key does not exist
+  nx?: boolean;
+  // Only set when the key exists
+  xx?: boolean;
+}
+
+export interface CacheDriver {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  get(key: string): Promise<string | null>;
+  // 'OK' when written, null when NX / XX prevented it
+  set(key: string, value: string, opts?: SetOptions): Promise<string | null>;
+  del(key: string): Promise<number>;
+  publish(channel: string, message: string): Promise<void>;
+  // One listener per channel, as with a Redis subscriber connection
+  subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+}
+
+export interface HeldLockEntry {
+  key: string;
+  // Holder metadata stored at acquisition, opaque to the driver
+  meta: string | null;
+  expiresInMs: number;
+}
+
+/**
+ * Lock primitives. Each call is atomic: no other acquire, renew or release
+ * interleaves with it.
+ */
+export interface LockDriver {
+  // Holds every key for `token` only if none of them is held, and bumps each
+  // key's fencing counter to above both its last value and `floors[i]`, so a
+  // counter lost with the store restarts past the tokens already applied.
+  // Returns the new fencing tokens, or null when busy.
+  acquireLocks(
+    keys: string[],
+    token: string,
+    ttlMs: number,
+    meta: string,
+    floors: number[],
+  ): Promise<number[] | null>;
+  // Raises `key`'s fencing counter to at least `floor`; never lowers it
+  raiseFence(key: string, floor: number): Promise<void>;
+  // Extends the keys still held by `token`; returns how many were
+  renewLocks(keys: string[], token: string, ttlMs: number): Promise<number>;
+  // Drops the keys still held by `token`; returns how many were
+  releaseLocks(keys: string[], token: string): Promise<number>;
+  // Drops `key` whoever holds it; returns its metadata, or null if not held
+  forceReleaseLock(key: string): Promise<string | null>;
+  listLocks(prefix: string): Promise<HeldLockEntry[]>;
+  getLockMeta(keys: string[]): Promise<Array<string | null>>;
+  incrementLockStats(
+    prefixes: string[],
+    counters: Record<string, number>,
+  ): Promise<void>;
+  getLockStats(): Promise<
+    Array<{ prefix: string; counters: Record<string, number> }>
+  >;
+}
+
+export type StoreDriver = CacheDriver & LockDriver;
@@ -1,31 +1,195 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Inject } from '@nestjs/common';
+import type { LoggerService } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectConnection } from '@nestjs/mongoose';
+import { WINSTON_MODULE_NEST_PROVIDER } from 'nest-winston';
 import type { Connection, ClientSession } from 'mongoose';
+import { currentRequestId } from '../../utils/request-context';
+import { logBoth } from '../../utils/log-both';
+
+export interface TransactionOptions {
+  // Overrides the configured policy for this call
+  maxRetries?: number;
+  maxCommitTimeMs?: number;
+  // What the transaction is for, shown in retry and abort logs
+  operation?: string;
+}
+
+// Counted since the process started
+export interface TransactionStats {
+  committed: number;
+  // Gave up: non-transient error or retries used up
+  aborted: number;
+  // Attempts rerun after a transient error
+  retried: number;
+  // Commits retried after an unknown commit result
+  commitRetried: number;
+}
+
+interface TransactionPolicy {
+  maxRetries: number;
+  maxCommitTimeMs: number;
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+const TRANSIENT_TRANSACTION_ERROR = 'TransientTransactionError';
+const UNKNOWN_COMMIT_RESULT = 'UnknownTransactionCommitResult';
+// Server code for a commit that ran past maxCommitTimeMS; retrying it is
+// pointless
+const MAX_TIME_MS_EXPIRED = 50;
 
 @Injectable()
 export class MongoService {
-  constructor(@InjectConnection() private readonly connection: Connection) {}
+  private readonly stats: TransactionStats = {
+    committed: 0,
+    aborted: 0,
+    retried: 0,
+    commitRetried: 0,
+  };
+
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    private readonly configService: ConfigService,
+    @Inject(WINSTON_MODULE_NEST_PROVIDER)
+    private readonly logger: LoggerService,
+  ) {}
 
   getConnection(): Connection {
     return this.connection;
   }
 
-  async startSession(): Promise<ClientSession> {
-    return this.connection.startSession();
+  getStats(): TransactionStats {
+    return { ...this.stats };
   }
 
+  /**
+   * Runs `fn` in a transaction and commits it.
+   *
+   * The whole transaction is rerun on a `TransientTransactionError` (write
+   * conflicts, primary step-downs), and the commit alone is retried on an
+   * `UnknownTransactionCommitResult`, each up to `maxRetries` times with
+   * jittered backoff. `fn` may therefore run more than once and must only
+   * write through `session`. Every commit is bounded by `maxCommitTimeMs`.
+   */
   async withTransaction<T>(
     fn: (session: ClientSession) => Promise<T>,
+    options: TransactionOptions = {},
   ): Promise<T> {
-    const session = await this.startSession();
+    const policy = this.policyOf(options);
+    const session = await this.connection.startSession();
     try {
-      let result!: T;
-      await session.withTransaction(async () => {
-        result = await fn(session);
-      });
-      return result;
+      for (let attempt = 0; ; attempt++) {
+        session.startTransaction({ maxCommitTimeMS: policy.maxCommitTimeMs });
+        try {
+          const result = await fn(session);
+          await this.commit(session, policy, options.operation);
+          this.stats.committed++;
+          return result;
+        } catch (err) {
+          if (session.inTransaction()) {
+            await session.abortTransaction().catch(() => undefined);
+          }
+          const transient = this.hasLabel(err, TRANSIENT_TRANSACTION_ERROR);
+          if (!transient || attempt >= policy.maxRetries) {
+            this.stats.aborted++;
+            // Errors thrown by `fn` on purpose (validation, balance checks)
+            // are counted but not logged
+            if (transient || attempt > 0) {
+              logBoth(this.logger, 'warn', {
+                event: 'mongo_transaction_aborted',
+                operation: options.operation ?? null,
+                requestId: currentRequestId(),
+                attempts: attempt + 1,
+                error: this.toMessage(err),
+              });
+            }
+            throw err;
+          }
+
+          this.stats.retried++;
+          const delayMs = this.backoff(attempt, policy);
+          logBoth(this.logger, 'warn', {
+            event: 'mongo_transaction_retry',
+            operation: options.operation ?? null,
+            requestId: currentRequestId(),
+            attempt: attempt + 1,
+            delayMs,
+            error: this.toMessage(err),
+          });
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+      }
     } finally {
       await session.endSession();
     }
   }
+
+  private async commit(
+    session: ClientSession,
+    policy: TransactionPolicy,
+    operation: string | undefined,
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await session.commitTransaction();
+        return;
+      } catch (err) {
+        if (
+          !this.hasLabel(err, UNKNOWN_COMMIT_RESULT) ||
+          this.codeOf(err) === MAX_TIME_MS_EXPIRED ||
+          attempt >= policy.maxRetries
+        ) {
+          throw err;
+        }
+
+        this.stats.commitRetried++;
+        logBoth(this.logger, 'warn', {
+          event: 'mongo_commit_retry',
+          operation: operation ?? null,
+          requestId: currentRequestId(),
+          attempt: attempt + 1,
+          error: this.toMessage(err),
+        });
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.backoff(attempt, policy)),
+        );
+      }
+    }
+  }
+
+  private policyOf(options: TransactionOptions): TransactionPolicy {
+    const get = (path: string, fallback: number) =>
+      this.configService.get<number>(`mongoTransactions.${path}`) ?? fallback;
+    return {
+      maxRetries: options.maxRetries ?? get('maxRetries', 3),
+      maxCommitTimeMs: options.maxCommitTimeMs ?? get('maxCommitTimeMs', 5000),
+      retryDelayMs: get('retryDelayMs', 20),
+      maxRetryDelayMs: get('maxRetryDelayMs', 500),
+    };
+  }
+
+  // Jitter keeps conflicting transactions from rerunning in lockstep
+  private backoff(attempt: number, policy: TransactionPolicy): number {
+    return Math.round(
+      Math.min(policy.maxRetryDelayMs, policy.retryDelayMs * 2 ** attempt) *
+        (0.5 + Math.random() / 2),
+    );
+  }
+
+  private hasLabel(err: unknown, label: string): boolean {
+    const mongoErr = err as { hasErrorLabel?: (label: string) => boolean };
+    return typeof mongoErr?.hasErrorLabel === 'function'
+      ? mongoErr.hasErrorLabel(label)
+      : false;
+  }
+
+  private codeOf(err: unknown): unknown {
+    return (err as { code?: unknown })?.code;
+  }
+
+  private toMessage(err: unknown): string {
+    if (err instanceof Error) return `${err.name}: ${err.message}`;
+    return String(err);
+  }
 }
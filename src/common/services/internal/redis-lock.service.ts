@@ -1,61 +1,361 @@
-import { Injectable, Inject } from '@nestjs/common';
-import type { RedisClientType } from 'redis';
-import { RedisService } from './redis.service';
+import { Injectable, Inject, ConflictException } from '@nestjs/common';
 import { randomBytes } from 'crypto';
+import { hostname } from 'os';
 import type { LoggerService } from '@nestjs/common';
 import { WINSTON_MODULE_NEST_PROVIDER } from 'nest-winston';
+import { I18nService } from 'nestjs-i18n';
+import { currentRequestId } from '../../utils/request-context';
+import { logBoth } from '../../utils/log-both';
+import { LockDriver, STORE_DRIVER } from './drivers/store-driver';
+
+// Fencing token of each locked key. Tokens of a key only ever grow, so a
+// write carrying an older token than one already applied comes from a holder
+// whose lease expired.
+export type LockFences = ReadonlyMap<string, number>;
+
+export interface WithLocksOptions {
+  // Lease length; renewed while the callback runs
+  ttlMs?: number;
+  // How long to keep retrying busy keys before giving up
+  waitMs?: number;
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  // i18n key of the ConflictException thrown when the keys stay busy
+  busyMessage?: string;
+  // What the locks are taken for, shown to admins while they are held
+  operation?: string;
+  // Highest fencing token already applied per key (e.g. the stored
+  // `Balance.fence`). New tokens start above it, so they still pass the
+  // fence after the lock store lost its counters.
+  fenceFloors?: ReadonlyMap<string, number>;
+}
+
+// Recorded next to each lock while it is held
+export interface LockHolderInfo {
+  operation: string | null;
+  requestId: string | null;
+  // Host and process id of the app instance holding the lock
+  holder: string | null;
+  acquiredAt: string | null;
+}
+
+export interface HeldLock extends LockHolderInfo {
+  key: string;
+  ageMs: number | null;
+  expiresInMs: number;
+}
+
+// Acquisition counters of all keys sharing a prefix (the part before the
+// first `:`), across app instances
+export interface LockStats {
+  prefix: string;
+  acquired: number;
+  // Acquired after at least one retry
+  contended: number;
+  // Gave up after waiting the whole `waitMs`
+  failed: number;
+  forceReleased: number;
+  totalWaitMs: number;
+  avgWaitMs: number;
+}
+
+const DEFAULT_TTL_MS = 10000;
+const DEFAULT_WAIT_MS = 3000;
+const DEFAULT_RETRY_DELAY_MS = 50;
+const DEFAULT_MAX_RETRY_DELAY_MS = 500;
+const HOLDER = `${hostname()}:${process.pid}`;
 
 @Injectable()
 export class RedisLockService {
-  private client: RedisClientType;
-
   constructor(
-    private readonly redisService: RedisService,
+    @Inject(STORE_DRIVER) private readonly driver: LockDriver,
     @Inject(WINSTON_MODULE_NEST_PROVIDER)
     private readonly logger: LoggerService,
-  ) {
-    this.client = this.redisService.getClient();
-  }
+    private readonly i18n: I18nService,
+  ) {}
 
   private genToken(): string {
     return randomBytes(16).toString('hex');
   }
 
-  async acquire(key: string, ttlMs: number): Promise<string | null> {
+  // Single attempt; returns null right away when the key is busy
+  async acquire(
+    key: string,
+    ttlMs: number,
+    operation?: string,
+  ): Promise<string | null> {
     const token = this.genToken();
-    const res = await this.client.set(key, token, { NX: true, PX: ttlMs });
-    return res === 'OK' ? token : null;
+    const fences = await this.tryAcquire([key], token, ttlMs, operation, [0]);
+    await this.recordAcquire([key], fences !== null, 0, false);
+    return fences ? token : null;
   }
 
   async release(key: string, token: string): Promise<boolean> {
-    const script =
-      "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
-    const result = await this.client.eval(script, {
-      keys: [key],
-      arguments: [token],
-    });
-    return (result as number) === 1;
-  }
-
-  private logBoth(
-    level: 'info' | 'warn' | 'error',
-    payload: Record<string, unknown>,
-  ) {
-    const text = (() => {
-      try {
-        return JSON.stringify(payload);
-      } catch {
-        return '[unserializable payload]';
+    return (await this.driver.releaseLocks([key], token)) === 1;
+  }
+
+  // For a counter found behind the fencing token already applied to what
+  // `key` guards: the next holder gets a token past `floor`
+  async raiseFence(key: string, floor: number): Promise<void> {
+    await this.driver.raiseFence(key, floor);
+  }
+
+  // Extend a lease taken with `acquire`; false once it was lost
+  async renew(key: string, token: string, ttlMs: number): Promise<boolean> {
+    return (await this.driver.renewLocks([key], token, ttlMs)) === 1;
+  }
+
+  /**
+   * Runs `fn` while holding every key in `keys`.
+   *
+   * The keys are taken together in one atomic step, so two callers locking
+   * overlapping sets can't deadlock. Busy keys are retried with jittered
+   * exponential backoff until `waitMs` runs out, then a ConflictException is
+   * thrown. While `fn` runs the leases are renewed every third of `ttlMs`, so
+   * a slow transaction keeps its locks; they are released when it settles,
+   * whether it succeeded or threw. `fn` receives the fencing token issued for
+   * each key, to guard the writes it makes.
+   */
+  async withLocks<T>(
+    keys: string[],
+    fn: (fences: LockFences) => Promise<T>,
+    options: WithLocksOptions = {},
+  ): Promise<T> {
+    const unique = [...new Set(keys)].sort();
+    if (unique.length === 0) return fn(new Map());
+
+    const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    const { token, fences } = await this.acquireAll(unique, ttlMs, options);
+    const watchdog = setInterval(
+      () => {
+        void this.renewAll(unique, token, ttlMs);
+      },
+      Math.floor(ttlMs / 3),
+    );
+
+    try {
+      return await fn(fences);
+    } finally {
+      clearInterval(watchdog);
+      await this.releaseAll(unique, token);
+    }
+  }
+
+  // Locks currently held whose key starts with `prefix`, oldest first
+  async listHeld(prefix: string): Promise<HeldLock[]> {
+    const now = Date.now();
+    const locks = (await this.driver.listLocks(prefix)).map(
+      ({ key, meta, expiresInMs }) => {
+        const info = this.parseInfo(meta ?? '{}');
+        return {
+          key,
+          ...info,
+          ageMs: info.acquiredAt ? now - Date.parse(info.acquiredAt) : null,
+          expiresInMs,
+        };
+      },
+    );
+    return locks.sort((a, b) => (b.ageMs ?? 0) - (a.ageMs ?? 0));
+  }
+
+  /**
+   * Drops `key` whoever holds it and returns what was recorded about its
+   * holder, or null when it was not held. The holder is not told; its next
+   * fenced write is rejected once another worker has taken the key.
+   */
+  async forceRelease(key: string): Promise<LockHolderInfo | null> {
+    const raw = await this.driver.forceReleaseLock(key);
+    if (raw === null) return null;
+
+    await this.incrementStats([key], { forceReleased: 1 });
+    return this.parseInfo(raw);
+  }
+
+  async getStats(): Promise<LockStats[]> {
+    const stats: LockStats[] = [];
+    for (const { prefix, counters } of await this.driver.getLockStats()) {
+      const count = (field: string) => counters[field] ?? 0;
+      const acquired = count('acquired');
+      const failed = count('failed');
+      const totalWaitMs = count('waitMs');
+      const attempts = acquired + failed;
+      stats.push({
+        prefix,
+        acquired,
+        contended: count('contended'),
+        failed,
+        forceReleased: count('forceReleased'),
+        totalWaitMs,
+        avgWaitMs: attempts > 0 ? Math.round(totalWaitMs / attempts) : 0,
+      });
+    }
+    return stats.sort((a, b) => a.prefix.localeCompare(b.prefix));
+  }
+
+  private async acquireAll(
+    keys: string[],
+    ttlMs: number,
+    options: WithLocksOptions,
+  ): Promise<{ token: string; fences: LockFences }> {
+    const token = this.genToken();
+    const startedAt = Date.now();
+    const deadline = startedAt + (options.waitMs ?? DEFAULT_WAIT_MS);
+    const baseDelay = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const maxDelay = options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      const fences = await this.tryAcquire(
+        keys,
+        token,
+        ttlMs,
+        options.operation,
+        keys.map((key) => options.fenceFloors?.get(key) ?? 0),
+      );
+      if (fences) {
+        await this.recordAcquire(
+          keys,
+          true,
+          Date.now() - startedAt,
+          attempt > 0,
+        );
+        return { token, fences };
+      }
+
+      // Jitter keeps contending callers from retrying in lockstep
+      const delay =
+        Math.min(maxDelay, baseDelay * 2 ** attempt) *
+        (0.5 + Math.random() / 2);
+      if (Date.now() + delay > deadline) {
+        await this.recordAcquire(keys, false, Date.now() - startedAt, true);
+        logBoth(this.logger, 'warn', {
+          event: 'lock_busy',
+          keys,
+          operation: options.operation ?? null,
+          requestId: currentRequestId(),
+          heldBy: await this.holdersOf(keys),
+        });
+        throw new ConflictException(
+          this.i18n.t(options.busyMessage ?? 'common.errors.resource_busy'),
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  private async tryAcquire(
+    keys: string[],
+    token: string,
+    ttlMs: number,
+    operation: string | undefined,
+    floors: number[],
+  ): Promise<LockFences | null> {
+    const info: LockHolderInfo = {
+      operation: operation ?? null,
+      requestId: currentRequestId(),
+      holder: HOLDER,
+      acquiredAt: new Date().toISOString(),
+    };
+    const fences = await this.driver.acquireLocks(
+      keys,
+      token,
+      ttlMs,
+      JSON.stringify(info),
+      floors,
+    );
+    return fences && new Map(keys.map((key, i) => [key, fences[i]]));
+  }
+
+  private async renewAll(
+    keys: string[],
+    token: string,
+    ttlMs: number,
+  ): Promise<void> {
+    try {
+      const renewed = await this.driver.renewLocks(keys, token, ttlMs);
+      if (renewed < keys.length) {
+        logBoth(this.logger, 'warn', {
+          event: 'lock_lease_lost',
+          keys,
+          renewed,
+        });
       }
-    })();
-    console.log(text);
-    const ext = this.logger as unknown as {
-      info?: (message: unknown) => void;
-      warn?: (message: unknown) => void;
-      error?: (message: unknown) => void;
-      log?: (message: unknown) => void;
+    } catch (err) {
+      // The next tick tries again while the lease is still valid
+      logBoth(this.logger, 'warn', {
+        event: 'lock_lease_renewal_failed',
+        keys,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  private async releaseAll(keys: string[], token: string): Promise<void> {
+    try {
+      await this.driver.releaseLocks(keys, token);
+    } catch (err) {
+      // The leases still expire on their own
+      logBoth(this.logger, 'error', {
+        event: 'lock_release_failed',
+        keys,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  private async holdersOf(
+    keys: string[],
+  ): Promise<Record<string, LockHolderInfo | null>> {
+    try {
+      const raws = await this.driver.getLockMeta(keys);
+      return Object.fromEntries(
+        keys.map((key, i) => {
+          const raw = raws[i];
+          return [key, raw ? this.parseInfo(raw) : null];
+        }),
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  // Best-effort: metrics never fail the locked operation
+  private async recordAcquire(
+    keys: string[],
+    acquired: boolean,
+    waitMs: number,
+    retried: boolean,
+  ): Promise<void> {
+    await this.incrementStats(
+      keys,
+      acquired
+        ? { acquired: 1, contended: retried ? 1 : 0, waitMs }
+        : { failed: 1, waitMs },
+    );
+  }
+
+  private async incrementStats(
+    keys: string[],
+    counters: Record<string, number>,
+  ): Promise<void> {
+    const prefixes = [...new Set(keys.map((key) => key.split(':')[0]))];
+    try {
+      await this.driver.incrementLockStats(prefixes, counters);
+    } catch (err) {
+      logBoth(this.logger, 'warn', {
+        event: 'lock_stats_failed',
+        keys,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  private parseInfo(raw: string): LockHolderInfo {
+    const info = JSON.parse(raw) as Partial<LockHolderInfo>;
+    return {
+      operation: info.operation ?? null,
+      requestId: info.requestId ?? null,
+      holder: info.holder ?? null,
+      acquiredAt: info.acquiredAt ?? null,
     };
-    const fn = ext[level] ?? (level === 'info' ? ext.log : undefined);
-    if (typeof fn === 'function') fn.call(this.logger, payload);
   }
 }
@@ -0,0 +1,28 @@
+import type { LoggerService } from '@nestjs/common';
+
+export type LogBothLevel = 'info' | 'warn' | 'error';
+
+// Writes the payload as one JSON line to stdout and hands it to `logger` at
+// `level` (`log` when the logger has no `info`)
+export function logBoth(
+  logger: LoggerService,
+  level: LogBothLevel,
+  payload: Record<string, unknown>,
+): void {
+  const text = (() => {
+    try {
+      return JSON.stringify(payload);
+    } catch {
+      return '[unserializable payload]';
+    }
+  })();
+  console.log(text);
+  const ext = logger as unknown as {
+    info?: (message: unknown) => void;
+    warn?: (message: unknown) => void;
+    error?: (message: unknown) => void;
+    log?: (message: unknown) => void;
+  };
+  const fn = ext[level] ?? (level === 'info' ? ext.log : undefined);
+  if (typeof fn === 'function') fn.call(logger, payload);
+}
@@ -0,0 +1,295 @@
+import { Types } from 'mongoose';
+import { FeeType, RoundingMode } from '../enums/index';
+
+export interface MoneyPrecision {
+  decimalPlaces: number;
+  roundingMode: RoundingMode;
+}
+
+export const DEFAULT_CURRENCY_PRECISION: MoneyPrecision = {
+  decimalPlaces: 2,
+  roundingMode: RoundingMode.HALF_UP,
+};
+
+export const DEFAULT_METAL_PRECISION: MoneyPrecision = {
+  decimalPlaces: 3,
+  roundingMode: RoundingMode.HALF_UP,
+};
+
+// For arithmetic on amounts that are already rounded to their asset's
+// precision: wide enough that rounding never kicks in
+export const EXACT_PRECISION: MoneyPrecision = {
+  decimalPlaces: 18,
+  roundingMode: RoundingMode.HALF_EVEN,
+};
+
+export interface FeeStructure {
+  enabled?: boolean;
+  type?: string;
+  percentage?: number;
+  fixedAmount?: number;
+}
+
+/**
+ * Exact decimal value: `units / 10^scale`.
+ * All arithmetic below happens on BigInt units so no binary float error
+ * leaks into stored amounts.
+ */
+interface ScaledDecimal {
+  units: bigint;
+  scale: number;
+}
+
+// Doubles carry ~15.9 significant digits; anything past 15 is float noise
+const SIGNIFICANT_DIGITS = 15;
+
+function parseDecimal(value: number | string): ScaledDecimal {
+  const text =
+    typeof value === 'number'
+      ? Number.isInteger(value)
+        ? value.toFixed(0)
+        : value.toPrecision(SIGNIFICANT_DIGITS)
+      : value.trim();
+
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new TypeError(`Invalid decimal value: ${text}`);
+  }
+  const [, sign, intPart = '', fracPart = '', exponent = '0'] = match;
+  let digits = `${intPart}${fracPart}`.replace(/^0+(?=\d)/, '') || '0';
+  let scale = fracPart.length - Number(exponent);
+  if (scale < 0) {
+    digits += '0'.repeat(-scale);
+    scale = 0;
+  }
+  const units = BigInt(digits);
+  return { units: sign === '-' ? -units : units, scale };
+}
+
+function rescale(value: ScaledDecimal, scale: number): bigint {
+  return value.units * 10n ** BigInt(scale - value.scale);
+}
+
+function roundUnits(
+  value: ScaledDecimal,
+  decimalPlaces: number,
+  mode: RoundingMode,
+): bigint {
+  if (value.scale <= decimalPlaces) {
+    return rescale(value, decimalPlaces);
+  }
+  const divisor = 10n ** BigInt(value.scale - decimalPlaces);
+  const negative = value.units < 0n;
+  const abs = negative ? -value.units : value.units;
+  let quotient = abs / divisor;
+  const remainder = abs % divisor;
+
+  if (remainder !== 0n) {
+    const twice = remainder * 2n;
+    let roundAway: boolean;
+    switch (mode) {
+      case RoundingMode.UP:
+        roundAway = true;
+        break;
+      case RoundingMode.DOWN:
+        roundAway = false;
+        break;
+      case RoundingMode.HALF_EVEN:
+        roundAway =
+          twice > divisor || (twice === divisor && quotient % 2n === 1n);
+        break;
+      case RoundingMode.HALF_UP:
+      default:
+        roundAway = twice >= divisor;
+        break;
+    }
+    if (roundAway) quotient += 1n;
+  }
+  return negative ? -quotient : quotient;
+}
+
+function formatUnits(units: bigint, scale: number): string {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units)
+    .toString()
+    .padStart(scale + 1, '0');
+  const intPart = digits.slice(0, digits.length - scale);
+  const fracPart = scale > 0 ? `.${digits.slice(digits.length - scale)}` : '';
+  return `${negative ? '-' : ''}${intPart}${fracPart}`;
+}
+
+function toNumber(units: bigint, scale: number): number {
+  return Number(formatUnits(units, scale));
+}
+
+/**
+ * Round a value to the given precision, e.g. 10.000000000000002 -> 10.
+ */
+export function roundMoney(
+  value: number | string,
+  precision: MoneyPrecision = DEFAULT_CURRENCY_PRECISION,
+): number {
+  return toNumber(
+    roundUnits(
+      parseDecimal(value),
+      precision.decimalPlaces,
+      precision.roundingMode,
+    ),
+    precision.decimalPlaces,
+  );
+}
+
+/**
+ * Exact sum of the given values, rounded once at the end.
+ */
+export function addMoney(
+  values: Array<number | string>,
+  precision: MoneyPrecision = DEFAULT_CURRENCY_PRECISION,
+): number {
+  const parsed = values.map((v) => parseDecimal(v));
+  const scale = Math.max(0, ...parsed.map((p) => p.scale));
+  const units = parsed.reduce((sum, p) => sum + rescale(p, scale), 0n);
+  return toNumber(
+    roundUnits(
+      { units, scale },
+      precision.decimalPlaces,
+      precision.roundingMode,
+    ),
+    precision.decimalPlaces,
+  );
+}
+
+/**
+ * Exact `minuend - subtrahends...`, rounded once at the end.
+ */
+export function subtractMoney(
+  minuend: number | string,
+  subtrahends: Array<number | string>,
+  precision: MoneyPrecision = DEFAULT_CURRENCY_PRECISION,
+): number {
+  const negated = subtrahends.map((s) => {
+    const p = parseDecimal(s);
+    return formatUnits(-p.units, p.scale);
+  });
+  return addMoney([minuend, ...negated], precision);
+}
+
+/**
+ * `percentage`% of `amount`, computed exactly and rounded once.
+ */
+export function percentOf(
+  amount: number | string,
+  percentage: number | string,
+  precision: MoneyPrecision = DEFAULT_CURRENCY_PRECISION,
+): number {
+  const a = parseDecimal(amount);
+  const p = parseDecimal(percentage);
+  // Dividing by 100 only shifts the scale
+  const product = { units: a.units * p.units, scale: a.scale + p.scale + 2 };
+  return toNumber(
+    roundUnits(product, precision.decimalPlaces, precision.roundingMode),
+    precision.decimalPlaces,
+  );
+}
+
+/**
+ * Exact `a * b` (e.g. quantity times unit price), rounded once.
+ */
+export function multiplyMoney(
+  a: number | string,
+  b: number | string,
+  precision: MoneyPrecision = DEFAULT_CURRENCY_PRECISION,
+): number {
+  const x = parseDecimal(a);
+  const y = parseDecimal(b);
+  const product = { units: x.units * y.units, scale: x.scale + y.scale };
+  return toNumber(
+    roundUnits(product, precision.decimalPlaces, precision.roundingMode),
+    precision.decimalPlaces,
+  );
+}
+
+/**
+ * Fee or tax for `amount` under a percentage / fixed / hybrid structure.
+ * The percentage part is rounded before the fixed part is added.
+ */
+export function calculateFee(
+  amount: number,
+  fees: FeeStructure | null | undefined,
+  precision: MoneyPrecision = DEFAULT_CURRENCY_PRECISION,
+): number {
+  if (!fees?.enabled) {
+    return 0;
+  }
+  const parts: number[] = [];
+  if (fees.type === FeeType.PERCENTAGE || fees.type === FeeType.HYBRID) {
+    parts.push(percentOf(amount, fees.percentage || 0, precision));
+  }
+  if (fees.type === FeeType.FIXED || fees.type === FeeType.HYBRID) {
+    parts.push(fees.fixedAmount || 0);
+  }
+  return addMoney(parts, precision);
+}
+
+/**
+ * Precision declared on a Currency or Metal document, with defaults for
+ * records created before the fields existed.
+ */
+export function precisionOf(
+  asset:
+    | { decimalPlaces?: number | null; roundingMode?: RoundingMode | null }
+    | null
+    | undefined,
+  fallback: MoneyPrecision = DEFAULT_CURRENCY_PRECISION,
+): MoneyPrecision {
+  return {
+    decimalPlaces: asset?.decimalPlaces ?? fallback.decimalPlaces,
+    roundingMode: asset?.roundingMode ?? fallback.roundingMode,
+  };
+}
+
+/**
+ * Mongoose setter: store numbers as Decimal128 without float noise.
+ */
+export function toDecimal128(value: unknown): unknown {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    let { units, scale } = parseDecimal(value);
+    // Drop the trailing zeros left by toPrecision
+    while (scale > 0 && units % 10n === 0n) {
+      units /= 10n;
+      scale--;
+    }
+    return Types.Decimal128.fromString(formatUnits(units, scale));
+  }
+  return value;
+}
+
+/**
+ * Mongoose getter (and aggregation helper): read Decimal128 back as number.
+ */
+export function decimalToNumber(value: unknown): number {
+  if (value == null) {
+    return 0;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value instanceof Types.Decimal128) {
+    return Number(value.toString());
+  }
+  return Number(value);
+}
+
+/**
+ * Spread into `@Prop()` for money fields stored as Decimal128.
+ * Schemas using it must enable `getters` in toJSON/toObject.
+ */
+export const MoneyProp = {
+  type: Types.Decimal128,
+  get: decimalToNumber,
+  set: toDecimal128,
+};
+
+export function isNonNegativeMoney(value: unknown): boolean {
+  return decimalToNumber(value) >= 0;
+}
@@ -0,0 +1,13 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+}
+
+// Set by RequestIdMiddleware for the rest of the request, so services can
+// tag what they do with the request that caused it
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function currentRequestId(): string | null {
+  return requestContext.getStore()?.requestId ?? null;
+}
@@ -6,6 +6,16 @@ export interface AppConfiguration {
   // Database
   mongoUrl: string;
   redisUrl: string;
+  // 'redis', or 'memory' to run without Redis on a single instance
+  redisDriver: 'redis' | 'memory';
+  // Retry policy of MongoService.withTransaction
+  mongoTransactions: {
+    // Reruns after a transient error, and commit retries
+    maxRetries: number;
+    retryDelayMs: number;
+    maxRetryDelayMs: number;
+    maxCommitTimeMs: number;
+  };
 
   // JWT & Auth
   jwt: {
@@ -65,6 +75,14 @@ export interface AppConfiguration {
     serverKey: string;
     region: string;
     callbackUrl: string;
+    // Age after which an unpaid deposit order is checked and expired
+    depositOrderTtlMinutes: number;
+  };
+
+  // Account statements
+  statements: {
+    // TTF/OTF font with Arabic and Latin glyphs, embedded in PDF statements
+    pdfFontPath: string;
   };
 
   // Logger Configuration
@@ -99,6 +117,19 @@ export default (): AppConfiguration => ({
   // Database
   mongoUrl: process.env.MONGO_URL || '',
   redisUrl: process.env.REDIS_URL || '',
+  redisDriver: process.env.REDIS_DRIVER === 'memory' ? 'memory' : 'redis',
+  mongoTransactions: {
+    maxRetries: parseInt(process.env.MONGO_TX_MAX_RETRIES || '3', 10),
+    retryDelayMs: parseInt(process.env.MONGO_TX_RETRY_DELAY_MS || '20', 10),
+    maxRetryDelayMs: parseInt(
+      process.env.MONGO_TX_MAX_RETRY_DELAY_MS || '500',
+      10,
+    ),
+    maxCommitTimeMs: parseInt(
+      process.env.MONGO_TX_MAX_COMMIT_TIME_MS || '5000',
+      10,
+    ),
+  },
 
   // JWT & Auth
   jwt: {
@@ -144,7 +175,8 @@ export default (): AppConfiguration => ({
     enabled: process.env.SWAGGER_ENABLED !== 'false',
     title: process.env.SWAGGER_TITLE || 'Nest RedisLock API',
     description:
-      process.env.SWAGGER_DESCRIPTION || 'Nest RedisLock Backend API Documentation',
+      process.env.SWAGGER_DESCRIPTION ||
+      'Nest RedisLock Backend API Documentation',
     version: process.env.SWAGGER_VERSION || '1.0',
     path: process.env.SWAGGER_PATH || 'docs',
     hiddenTags: process.env.SWAGGER_HIDDEN_TAGS
@@ -173,6 +205,15 @@ export default (): AppConfiguration => ({
     serverKey: process.env.PAYTABS_SERVER_KEY || '',
     region: process.env.PAYTABS_REGION || 'SAU',
     callbackUrl: process.env.PAYTABS_CALLBACK_URL || '',
+    depositOrderTtlMinutes: parseInt(
+      process.env.PAYTABS_DEPOSIT_ORDER_TTL_MINUTES || '60',
+      10,
+    ),
+  },
+
+  // Account statements
+  statements: {
+    pdfFontPath: process.env.STATEMENT_PDF_FONT_PATH || '',
   },
 
   // Logger Configuration
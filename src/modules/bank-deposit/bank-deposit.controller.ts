@@ -25,6 +25,7 @@ import { ApiAcceptLanguage } from '../../common/decorators/api-accept-language.d
 import { SuccessMessage } from '../../common/decorators/success-message.decorator';
 import { ApiPagination } from '../../common/decorators/api-pagination.decorator';
 import { ApiSort } from 'src/common/decorators/api-sort.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 
 @ApiTags('015- Bank Deposits')
 @ApiAcceptLanguage()
@@ -63,6 +64,7 @@ export class BankDepositController {
 
   @UseGuards(JwtAuthGuard)
   @Post()
+  @Idempotent()
   @ApiSort(5)
   @HttpCode(HttpStatus.CREATED)
   @ApiBearerAuth('user-access-token')
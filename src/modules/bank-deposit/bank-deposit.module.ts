@@ -7,19 +7,16 @@ import { BankDeposit, BankDepositSchema } from './schemas/bank-deposit.schema';
 import { Bank, BankSchema } from '../bank/schemas/bank.schema';
 import { Currency, CurrencySchema } from '../currency/schemas/currency.schema';
 import { Account, AccountSchema } from '../wallet/schemas/account.schema';
-import { Balance, BalanceSchema } from '../wallet/schemas/balance.schema';
 import {
   JournalEntry,
   JournalEntrySchema,
 } from '../wallet/schemas/journal-entry.schema';
-import {
-  Transaction,
-  TransactionSchema,
-} from '../wallet/schemas/transaction.schema';
 import {
   WalletDepositOrder,
   WalletDepositOrderSchema,
 } from '../wallet/schemas/wallet-deposit-order.schema';
+import { LimitModule } from '../limit/limit.module';
+import { LedgerModule } from '../ledger/ledger.module';
 
 @Module({
   imports: [
@@ -28,11 +25,11 @@ import {
       { name: Bank.name, schema: BankSchema },
       { name: Currency.name, schema: CurrencySchema },
       { name: Account.name, schema: AccountSchema },
-      { name: Balance.name, schema: BalanceSchema },
       { name: JournalEntry.name, schema: JournalEntrySchema },
-      { name: Transaction.name, schema: TransactionSchema },
       { name: WalletDepositOrder.name, schema: WalletDepositOrderSchema },
     ]),
+    LimitModule,
+    LedgerModule,
   ],
   controllers: [BankDepositController, BankDepositAdminController],
   providers: [BankDepositService],
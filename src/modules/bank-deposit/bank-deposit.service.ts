@@ -3,6 +3,7 @@ import {
   NotFoundException,
   BadRequestException,
   ConflictException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types, FilterQuery } from 'mongoose';
@@ -22,17 +23,14 @@ import {
   AccountDocument,
   AccountType,
   AccountStatus,
+  isCreditBlocked,
 } from '../wallet/schemas/account.schema';
-import { Balance, BalanceDocument } from '../wallet/schemas/balance.schema';
+import { assetType } from '../wallet/schemas/balance.schema';
+import { TransactionType } from '../wallet/schemas/transaction.schema';
 import {
   JournalEntry,
   JournalEntryDocument,
 } from '../wallet/schemas/journal-entry.schema';
-import {
-  Transaction,
-  TransactionDocument,
-  TransactionType,
-} from '../wallet/schemas/transaction.schema';
 import {
   WalletDepositOrder,
   WalletDepositOrderDocument,
@@ -48,13 +46,26 @@ import {
   CalculateDepositFeesDto,
   DepositFeesCalculationResponseDto,
 } from './dto/calculate-deposit-fees.dto';
-import { MongoService } from '../../common/services/internal/mongo.service';
-import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import { LimitService } from '../limit/limit.service';
+import { LimitDirection } from '../limit/schemas/limit-profile.schema';
+import { LedgerLeg, LedgerService } from '../ledger/ledger.service';
 import { FeeType } from '../../common/enums/index';
 import {
   createPaginatedResponse,
   PaginatedResponseDto,
 } from '../../common/dto/pagination.dto';
+import {
+  EXACT_PRECISION,
+  MoneyPrecision,
+  addMoney,
+  calculateFee,
+  precisionOf,
+  roundMoney,
+  subtractMoney,
+} from '../../common/utils/money';
+
+// `ownerModule` on the limit usage of bank deposits
+const BANK_DEPOSIT_OWNER = 'bank-deposit';
 
 interface FeeStructure {
   enabled?: boolean;
@@ -74,31 +85,21 @@ export class BankDepositService {
     private currencyModel: Model<CurrencyDocument>,
     @InjectModel(Account.name)
     private accountModel: Model<AccountDocument>,
-    @InjectModel(Balance.name)
-    private balanceModel: Model<BalanceDocument>,
     @InjectModel(JournalEntry.name)
     private journalModel: Model<JournalEntryDocument>,
-    @InjectModel(Transaction.name)
-    private transactionModel: Model<TransactionDocument>,
     @InjectModel(WalletDepositOrder.name)
     private walletDepositOrderModel: Model<WalletDepositOrderDocument>,
-    private readonly mongo: MongoService,
-    private readonly lockService: RedisLockService,
+    private readonly limitService: LimitService,
+    private readonly ledgerService: LedgerService,
     private readonly i18n: I18nService,
   ) {}
 
-  private calculateFees(amount: number, fees: FeeStructure): number {
-    let totalFees = 0;
-    if (!fees?.enabled) {
-      return totalFees;
-    }
-    if (fees.type === FeeType.PERCENTAGE || fees.type === FeeType.HYBRID) {
-      totalFees += (amount * (fees.percentage || 0)) / 100;
-    }
-    if (fees.type === FeeType.FIXED || fees.type === FeeType.HYBRID) {
-      totalFees += fees.fixedAmount || 0;
-    }
-    return totalFees;
+  private calculateFees(
+    amount: number,
+    fees: FeeStructure,
+    precision: MoneyPrecision,
+  ): number {
+    return calculateFee(amount, fees, precision);
   }
 
   async createDeposit(
@@ -150,15 +151,38 @@ export class BankDepositService {
     }
 
     // Calculate fees and taxes based on bank configuration
-    const taxAmount = this.calculateFees(dto.amount, currencyConfig.depositTax);
-    const feeAmount = this.calculateFees(dto.amount, currencyConfig.depositFee);
+    const precision = precisionOf(currency);
+    const amount = roundMoney(dto.amount, precision);
+    const taxAmount = this.calculateFees(
+      amount,
+      currencyConfig.depositTax,
+      precision,
+    );
+    const feeAmount = this.calculateFees(
+      amount,
+      currencyConfig.depositFee,
+      precision,
+    );
+
+    // Count the deposit against the user's limits until it is refused
+    const depositId = new Types.ObjectId();
+    const depositRef = depositId.toHexString();
+    await this.limitService.consume({
+      userId: new Types.ObjectId(userId),
+      currencySymbol: currency.symbol,
+      direction: LimitDirection.DEPOSIT,
+      amount,
+      ownerModule: BANK_DEPOSIT_OWNER,
+      ownerRef: depositRef,
+    });
 
     // Create deposit request
     const deposit = new this.bankDepositModel({
+      _id: depositId,
       userId: new Types.ObjectId(userId),
       bankId: new Types.ObjectId(dto.bankId),
       currencyId: new Types.ObjectId(dto.currencyId),
-      amount: dto.amount,
+      amount,
       taxAmount,
       feeAmount,
       transferImageUrl: dto.transferImageUrl || null,
@@ -166,7 +190,13 @@ export class BankDepositService {
       status: BankDepositStatus.PENDING,
     });
 
-    const savedDeposit = await deposit.save();
+    let savedDeposit: BankDepositDocument;
+    try {
+      savedDeposit = await deposit.save();
+    } catch (err) {
+      await this.limitService.release(BANK_DEPOSIT_OWNER, depositRef);
+      throw err;
+    }
 
     // Get user's main wallet
     let userWallet = await this.accountModel.findOne({
@@ -196,7 +226,7 @@ export class BankDepositService {
       bankDepositId: savedDeposit._id,
       walletAccountId: userWallet._id,
       userId: new Types.ObjectId(userId),
-      baseAmount: dto.amount,
+      baseAmount: amount,
       feesAmount: feeAmount,
       taxAmount,
       assetSymbol: currency.symbol,
@@ -242,6 +272,10 @@ export class BankDepositService {
       }
       deposit.rejectionReason = dto.rejectionReason;
       await deposit.save();
+      await this.limitService.release(
+        BANK_DEPOSIT_OWNER,
+        (deposit._id as Types.ObjectId).toHexString(),
+      );
       return deposit;
     }
 
@@ -290,13 +324,24 @@ export class BankDepositService {
       });
       await userWallet.save();
     }
+    if (isCreditBlocked(userWallet)) {
+      throw new ForbiddenException(
+        this.i18n.t('common.errors.wallet_frozen_for_credits'),
+      );
+    }
 
     // Get system accounts for fees and tax
     const systemFees = await this.ensureSystemTreasury('FEES');
     const systemTax = await this.ensureSystemTreasury('TAX');
+    // Clearing account standing in for funds held at the bank
+    const externalBank = await this.ensureSystemTreasury('EXTERNAL_BANK');
 
     // Calculate net amount to credit to user (amount - tax - fee)
-    const netAmount = deposit.amount - deposit.taxAmount - deposit.feeAmount;
+    const netAmount = subtractMoney(
+      deposit.amount,
+      [deposit.taxAmount, deposit.feeAmount],
+      EXACT_PRECISION,
+    );
 
     if (netAmount <= 0) {
       throw new BadRequestException(
@@ -304,246 +349,91 @@ export class BankDepositService {
       );
     }
 
-    // Prepare lock keys
-    const walletIdStr = (userWallet._id as Types.ObjectId).toHexString();
-    const feesIdStr = (systemFees._id as Types.ObjectId).toHexString();
-    const taxIdStr = (systemTax._id as Types.ObjectId).toHexString();
-
-    const lockKeys = [
-      `wallet:${walletIdStr}:${currencySymbol}`,
-      `wallet:${feesIdStr}:${currencySymbol}`,
-      `wallet:${taxIdStr}:${currencySymbol}`,
-    ].sort();
+    const asset = {
+      assetType: assetType.CURRENCY,
+      assetId: deposit.currencyId,
+      assetSymbol: currencySymbol,
+    };
+    // 1. Credit user wallet with net amount
+    const legs: LedgerLeg[] = [
+      { account: externalBank, asset, amount: -netAmount, suffix: '' },
+      {
+        account: userWallet,
+        asset,
+        amount: netAmount,
+        title: { en: 'Bank deposit', ar: 'إيداع بنكي' },
+        suffix: '',
+      },
+    ];
+    // 2. Credit platform fees account
+    if (deposit.feeAmount > 0) {
+      legs.push(
+        {
+          account: externalBank,
+          asset,
+          amount: -deposit.feeAmount,
+          suffix: '-fees',
+        },
+        {
+          account: systemFees,
+          asset,
+          amount: deposit.feeAmount,
+          title: {
+            en: 'Platform fees from bank deposit',
+            ar: 'عمولة المنصة من الإيداع البنكي',
+          },
+          type: TransactionType.FEE,
+          suffix: '-fees',
+        },
+      );
+    }
+    // 3. Credit tax account
+    if (deposit.taxAmount > 0) {
+      legs.push(
+        {
+          account: externalBank,
+          asset,
+          amount: -deposit.taxAmount,
+          suffix: '-tax',
+        },
+        {
+          account: systemTax,
+          asset,
+          amount: deposit.taxAmount,
+          title: {
+            en: 'Tax from bank deposit',
+            ar: 'ضريبة من الإيداع البنكي',
+          },
+          type: TransactionType.TAX,
+          suffix: '-tax',
+        },
+      );
+    }
 
-    const ttlMs = 10000;
-    const tokens: Array<{ key: string; token: string }> = [];
+    await this.ledgerService.post({
+      idempotencyKey,
+      legs,
+      busyMessage: 'common.errors.deposit_processing_failed',
+      afterPost: async (entries, session) => {
+        deposit.journalEntryIds = entries.map(
+          (entry) => entry._id as Types.ObjectId,
+        );
 
-    try {
-      // Acquire all locks sequentially
-      for (const key of lockKeys) {
-        const token = await this.lockService.acquire(key, ttlMs);
-        if (!token) {
-          // Release already acquired locks before throwing
-          for (const { key: k, token: t } of tokens) {
-            await this.lockService.release(k, t);
-          }
-          throw new ConflictException(
-            this.i18n.t('common.errors.deposit_processing_failed'),
-          );
-        }
-        tokens.push({ key, token });
-      }
+        // Persist journalEntryIds on the BankDeposit document
+        await this.bankDepositModel.updateOne(
+          { _id: deposit._id },
+          { journalEntryIds: deposit.journalEntryIds },
+          { session },
+        );
 
-      const session = await this.mongo.startSession();
-      try {
-        await session.withTransaction(async () => {
-          if (!Array.isArray(deposit.journalEntryIds)) {
-            deposit.journalEntryIds = [];
-          }
-          // 1. Credit user wallet with net amount
-          if (netAmount > 0) {
-            const userBalBefore = await this.balanceModel.findOne(
-              {
-                accountId: userWallet._id,
-                assetType: 'CURRENCY',
-                assetId: deposit.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              null,
-              { session },
-            );
-            const balanceBefore = userBalBefore?.available || 0;
-
-            const userBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: userWallet._id,
-                assetType: 'CURRENCY',
-                assetId: deposit.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              { $inc: { available: netAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const userTx = await new this.transactionModel({
-              accountId: userWallet._id,
-              assetType: 'CURRENCY',
-              assetId: deposit.currencyId,
-              balanceId: userBal._id,
-              assetSymbol: currencySymbol,
-              type: TransactionType.DEPOSIT,
-              amount: netAmount,
-              balanceBefore,
-              balanceAfter: userBal.available,
-              title: {
-                en: 'Bank deposit',
-                ar: 'إيداع بنكي',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            const journal1 = await new this.journalModel({
-              creditAccountId: userWallet._id,
-              assetSymbol: currencySymbol,
-              assetType: 'CURRENCY',
-              assetId: deposit.currencyId,
-              amount: netAmount,
-              transactionIds: [(userTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: userTx._id },
-              { journalEntryId: journal1._id },
-              { session },
-            );
-
-            deposit.journalEntryIds.push(journal1._id as Types.ObjectId);
-          }
-
-          // 2. Credit platform fees account
-          if (deposit.feeAmount > 0) {
-            const feesBalBefore = await this.balanceModel.findOne(
-              {
-                accountId: systemFees._id,
-                assetType: 'CURRENCY',
-                assetId: deposit.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              null,
-              { session },
-            );
-            const feesBefore = feesBalBefore?.available || 0;
-
-            const feesBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: systemFees._id,
-                assetType: 'CURRENCY',
-                assetId: deposit.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              { $inc: { available: deposit.feeAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const feesTx = await new this.transactionModel({
-              accountId: systemFees._id,
-              assetType: 'CURRENCY',
-              assetId: deposit.currencyId,
-              balanceId: feesBal._id,
-              assetSymbol: currencySymbol,
-              type: TransactionType.DEPOSIT,
-              amount: deposit.feeAmount,
-              balanceBefore: feesBefore,
-              balanceAfter: feesBal.available,
-              title: {
-                en: 'Platform fees from bank deposit',
-                ar: 'عمولة المنصة من الإيداع البنكي',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            const journal2 = await new this.journalModel({
-              creditAccountId: systemFees._id,
-              assetSymbol: currencySymbol,
-              assetType: 'CURRENCY',
-              assetId: deposit.currencyId,
-              amount: deposit.feeAmount,
-              transactionIds: [(feesTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey: `${idempotencyKey}-fees`,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: feesTx._id },
-              { journalEntryId: journal2._id },
-              { session },
-            );
-            deposit.journalEntryIds.push(journal2._id as Types.ObjectId);
-          }
-
-          // 3. Credit tax account
-          if (deposit.taxAmount > 0) {
-            const taxBalBefore = await this.balanceModel.findOne(
-              {
-                accountId: systemTax._id,
-                assetType: 'CURRENCY',
-                assetId: deposit.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              null,
-              { session },
-            );
-            const taxBefore = taxBalBefore?.available || 0;
-
-            const taxBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: systemTax._id,
-                assetType: 'CURRENCY',
-                assetId: deposit.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              { $inc: { available: deposit.taxAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const taxTx = await new this.transactionModel({
-              accountId: systemTax._id,
-              assetType: 'CURRENCY',
-              assetId: deposit.currencyId,
-              balanceId: taxBal._id,
-              assetSymbol: currencySymbol,
-              type: TransactionType.DEPOSIT,
-              amount: deposit.taxAmount,
-              balanceBefore: taxBefore,
-              balanceAfter: taxBal.available,
-              title: {
-                en: 'Tax from bank deposit',
-                ar: 'ضريبة من الإيداع البنكي',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            const journal3 = await new this.journalModel({
-              creditAccountId: systemTax._id,
-              assetSymbol: currencySymbol,
-              assetType: 'CURRENCY',
-              assetId: deposit.currencyId,
-              amount: deposit.taxAmount,
-              transactionIds: [(taxTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey: `${idempotencyKey}-tax`,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: taxTx._id },
-              { journalEntryId: journal3._id },
-              { session },
-            );
-            deposit.journalEntryIds.push(journal3._id as Types.ObjectId);
-          }
-
-          // Persist journalEntryIds on the BankDeposit document
-          await this.bankDepositModel.updateOne(
-            { _id: deposit._id },
-            { journalEntryIds: deposit.journalEntryIds },
-            { session },
-          );
-
-          // Mark deposit order as processed and attach journal entries
-          await this.walletDepositOrderModel.updateOne(
-            { bankDepositId: deposit._id },
-            { processed: true, journalEntryIds: deposit.journalEntryIds },
-            { session },
-          );
-        });
-      } finally {
-        await session.endSession();
-      }
-    } finally {
-      // Release all locks
-      for (const { key, token } of tokens) {
-        await this.lockService.release(key, token);
-      }
-    }
+        // Mark deposit order as processed and attach journal entries
+        await this.walletDepositOrderModel.updateOne(
+          { bankDepositId: deposit._id },
+          { processed: true, journalEntryIds: deposit.journalEntryIds },
+          { session },
+        );
+      },
+    });
   }
 
   private async ensureSystemTreasury(
@@ -773,13 +663,23 @@ export class BankDepositService {
     }
 
     // Calculate fees and taxes based on bank configuration
-    const taxAmount = this.calculateFees(dto.amount, currencyConfig.depositTax);
-    const feeAmount = this.calculateFees(dto.amount, currencyConfig.depositFee);
-    const totalDeductions = taxAmount + feeAmount;
-    const netAmount = dto.amount - totalDeductions;
+    const precision = precisionOf(currency);
+    const amount = roundMoney(dto.amount, precision);
+    const taxAmount = this.calculateFees(
+      amount,
+      currencyConfig.depositTax,
+      precision,
+    );
+    const feeAmount = this.calculateFees(
+      amount,
+      currencyConfig.depositFee,
+      precision,
+    );
+    const totalDeductions = addMoney([taxAmount, feeAmount], precision);
+    const netAmount = subtractMoney(amount, [totalDeductions], precision);
 
     return {
-      amount: dto.amount,
+      amount,
       taxAmount,
       feeAmount,
       netAmount,
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { MoneyProp, isNonNegativeMoney } from '../../../common/utils/money';
 
 export type BankDepositDocument = BankDeposit & Document;
 
@@ -14,6 +15,7 @@ export enum BankDepositStatus {
   timestamps: true,
   toJSON: {
     virtuals: true,
+    getters: true,
     transform: (_doc, ret: Record<string, unknown>) => {
       if (ret._id != null) {
         if (ret._id instanceof Types.ObjectId) {
@@ -38,13 +40,13 @@ export class BankDeposit {
   @Prop({ type: Types.ObjectId, ref: 'Currency', required: true })
   currencyId: Types.ObjectId;
 
-  @Prop({ type: Number, required: true, min: 0 })
+  @Prop({ ...MoneyProp, required: true, validate: isNonNegativeMoney })
   amount: number;
 
-  @Prop({ type: Number, default: 0, min: 0 })
+  @Prop({ ...MoneyProp, default: 0, validate: isNonNegativeMoney })
   taxAmount: number;
 
-  @Prop({ type: Number, default: 0, min: 0 })
+  @Prop({ ...MoneyProp, default: 0, validate: isNonNegativeMoney })
   feeAmount: number;
 
   @Prop({ type: String, default: null })
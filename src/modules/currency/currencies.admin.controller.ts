@@ -25,6 +25,7 @@ import {
   UpdateCurrencyDto,
   AdminCurrencyQueryDto,
 } from './dto/update-currency.dto';
+import { UpdateTransferFeeDto } from './dto/update-transfer-fee.dto';
 import { Currency, CurrencyDocument } from './schemas/currency.schema';
 import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
 import { SupportedLanguage } from '../../common/enums';
@@ -99,6 +100,25 @@ export class CurrenciesAdminController {
     return this.currenciesService.update(id, dto);
   }
 
+  @UseGuards(AdminJwtAuthGuard)
+  @Patch('admin/:id/transfer-fee')
+  @ApiSort(6)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({ summary: 'Admin: Update the P2P transfer fee of a currency' })
+  @ApiParam({ name: 'id', description: 'Currency ID' })
+  @ApiBody({ description: 'Fee fields to update', type: UpdateTransferFeeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Transfer fee updated successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Currency not found' })
+  async updateTransferFee(
+    @Param('id') id: string,
+    @Body() dto: UpdateTransferFeeDto,
+  ) {
+    return this.currenciesService.updateTransferFee(id, dto);
+  }
+
   //   @UseGuards(AdminJwtAuthGuard)
   //   @Patch('admin/:id/activate')
   //   @ApiSort(3)
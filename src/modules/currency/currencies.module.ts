@@ -3,17 +3,34 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { CurrenciesService } from './currencies.service';
 import { CurrenciesController } from './currencies.controller';
 import { CurrenciesAdminController } from './currencies.admin.controller';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRatesAdminController } from './exchange-rates.admin.controller';
 import { Currency, CurrencySchema } from './schemas/currency.schema';
+import {
+  ExchangeRate,
+  ExchangeRateSchema,
+} from './schemas/exchange-rate.schema';
+import {
+  ExchangeRateHistory,
+  ExchangeRateHistorySchema,
+} from './schemas/exchange-rate-history.schema';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Currency.name, schema: CurrencySchema },
+      { name: ExchangeRate.name, schema: ExchangeRateSchema },
+      { name: ExchangeRateHistory.name, schema: ExchangeRateHistorySchema },
     ]),
   ],
-  // Register admin controller first to ensure '/currencies/admin' is matched before '/currencies/:id'
-  controllers: [CurrenciesAdminController, CurrenciesController],
-  providers: [CurrenciesService],
-  exports: [CurrenciesService, MongooseModule],
+  // Register admin controllers first to ensure '/currencies/admin/exchange-rates' and
+  // '/currencies/admin' are matched before '/currencies/admin/:id' and '/currencies/:id'
+  controllers: [
+    ExchangeRatesAdminController,
+    CurrenciesAdminController,
+    CurrenciesController,
+  ],
+  providers: [CurrenciesService, ExchangeRatesService],
+  exports: [CurrenciesService, ExchangeRatesService, MongooseModule],
 })
 export class CurrenciesModule {}
@@ -2,6 +2,7 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, FilterQuery, isValidObjectId } from 'mongoose';
@@ -12,6 +13,7 @@ import {
   AdminCurrencyQueryDto,
   PublicCurrencyQueryDto,
 } from './dto/update-currency.dto';
+import { UpdateTransferFeeDto } from './dto/update-transfer-fee.dto';
 import { I18nService } from 'nestjs-i18n';
 import { createPaginatedResponse } from '../../common/dto/pagination.dto';
 
@@ -76,6 +78,12 @@ export class CurrenciesService {
     }
     if (dto.symbol !== undefined) update['symbol'] = dto.symbol;
     if (dto.isActive !== undefined) update['isActive'] = dto.isActive;
+    if (dto.decimalPlaces !== undefined) {
+      update['decimalPlaces'] = dto.decimalPlaces;
+    }
+    if (dto.roundingMode !== undefined) {
+      update['roundingMode'] = dto.roundingMode;
+    }
 
     const currency = await this.currencyModel.findOneAndUpdate(
       { _id: id },
@@ -119,6 +127,40 @@ export class CurrenciesService {
     return currency;
   }
 
+  async updateTransferFee(
+    id: string,
+    dto: UpdateTransferFeeDto,
+  ): Promise<Currency> {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.invalid_currency_id'),
+      );
+    }
+
+    // Update only the fields that are provided
+    const $set: Record<string, unknown> = {};
+    if (dto.enabled !== undefined) $set['transferFee.enabled'] = dto.enabled;
+    if (dto.type !== undefined) $set['transferFee.type'] = dto.type;
+    if (dto.percentage !== undefined) {
+      $set['transferFee.percentage'] = dto.percentage;
+    }
+    if (dto.fixedAmount !== undefined) {
+      $set['transferFee.fixedAmount'] = dto.fixedAmount;
+    }
+
+    const currency = await this.currencyModel.findOneAndUpdate(
+      { _id: id, deletedAt: null },
+      { $set },
+      { new: true },
+    );
+    if (!currency) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.currency_not_found_or_deleted'),
+      );
+    }
+    return currency;
+  }
+
   async findAllAdmin(query: AdminCurrencyQueryDto) {
     const page = query.page ?? 0;
     const limit = query.limit ?? 10;
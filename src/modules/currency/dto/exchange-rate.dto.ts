@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+
+export class SetExchangeRateDto {
+  @ApiProperty({ description: 'Currency being sold', example: 'USD' })
+  @IsString()
+  @IsNotEmpty()
+  baseSymbol: string;
+
+  @ApiProperty({ description: 'Currency being bought', example: 'SAR' })
+  @IsString()
+  @IsNotEmpty()
+  quoteSymbol: string;
+
+  @ApiProperty({
+    description: 'Units of the quote currency for one unit of the base',
+    example: 3.75,
+  })
+  @IsNumber()
+  @IsPositive()
+  @Type(() => Number)
+  rate: number;
+
+  @ApiProperty({
+    description: 'Spread kept by the platform, as a percentage (0-100)',
+    example: 0.5,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @Type(() => Number)
+  spreadPercentage?: number;
+
+  @ApiProperty({
+    description: 'Whether users can convert at this rate',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ExchangeRateHistoryQueryDto extends PaginationQueryDto {}
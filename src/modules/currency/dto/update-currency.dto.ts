@@ -5,8 +5,13 @@ import {
   IsString,
   ValidateNested,
   IsIn,
+  IsEnum,
+  IsInt,
+  Max,
+  Min,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { RoundingMode } from '../../../common/enums/index';
 
 export class CurrencyLocalizedNameUpdateDto {
   @ApiPropertyOptional({
@@ -48,6 +53,26 @@ export class UpdateCurrencyDto {
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Decimal places amounts are rounded to',
+    minimum: 0,
+    maximum: 18,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(18)
+  @IsOptional()
+  decimalPlaces?: number;
+
+  @ApiPropertyOptional({
+    description: 'Rounding mode applied to fees, taxes and balances',
+    enum: RoundingMode,
+  })
+  @IsEnum(RoundingMode)
+  @IsOptional()
+  roundingMode?: RoundingMode;
 }
 
 export class AdminCurrencyQueryDto {
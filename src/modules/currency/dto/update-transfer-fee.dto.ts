@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsBoolean, IsNumber, Min } from 'class-validator';
+import { FeeType } from 'src/common/enums/index';
+import { Type } from 'class-transformer';
+
+export class UpdateTransferFeeDto {
+  @ApiProperty({
+    description: 'Whether the P2P transfer fee is enabled',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({
+    description: 'Type of fee calculation',
+    enum: FeeType,
+    example: FeeType.PERCENTAGE,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(FeeType)
+  type?: FeeType;
+
+  @ApiProperty({
+    description: 'Percentage value (0-100)',
+    example: 0.5,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  percentage?: number;
+
+  @ApiProperty({
+    description: 'Fixed amount value',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  fixedAmount?: number;
+}
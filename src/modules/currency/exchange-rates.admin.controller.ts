@@ -0,0 +1,90 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ExchangeRatesService } from './exchange-rates.service';
+import {
+  ExchangeRateHistoryQueryDto,
+  SetExchangeRateDto,
+} from './dto/exchange-rate.dto';
+import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
+import { ApiAcceptLanguage } from '../../common/decorators/api-accept-language.decorator';
+import { ApiSort } from '../../common/decorators/api-sort.decorator';
+import { ApiPagination } from '../../common/decorators/api-pagination.decorator';
+
+@ApiTags('010- Currencies (Admin)')
+@ApiAcceptLanguage()
+@Controller('currencies/admin/exchange-rates')
+export class ExchangeRatesAdminController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Put()
+  @ApiSort(7)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Admin: Set the exchange rate of a currency pair',
+    description:
+      'Creates the pair or updates it. Rates are directional: set USD/SAR and SAR/USD separately. Every change is kept in the pair history.',
+  })
+  @ApiBody({ description: 'Rate terms', type: SetExchangeRateDto })
+  @ApiResponse({ status: 200, description: 'Exchange rate saved' })
+  @ApiResponse({ status: 400, description: 'Base and quote are the same' })
+  @ApiResponse({ status: 404, description: 'Currency not found' })
+  async setRate(
+    @Body() dto: SetExchangeRateDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    return this.exchangeRatesService.setRate(dto, adminId);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get()
+  @ApiSort(8)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({ summary: 'Admin: List exchange rates' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rates retrieved successfully',
+  })
+  async findAll() {
+    return this.exchangeRatesService.findAll();
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get(':baseSymbol/:quoteSymbol/history')
+  @ApiSort(9)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({ summary: 'Admin: Change history of an exchange rate' })
+  @ApiParam({ name: 'baseSymbol', description: 'Base currency symbol' })
+  @ApiParam({ name: 'quoteSymbol', description: 'Quote currency symbol' })
+  @ApiPagination({ wrapped: false })
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Exchange rate not found' })
+  async findHistory(
+    @Param('baseSymbol') baseSymbol: string,
+    @Param('quoteSymbol') quoteSymbol: string,
+    @Query() query: ExchangeRateHistoryQueryDto,
+  ) {
+    return this.exchangeRatesService.findHistory(
+      baseSymbol,
+      quoteSymbol,
+      query,
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import { Currency, CurrencyDocument } from './schemas/currency.schema';
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+} from './schemas/exchange-rate.schema';
+import {
+  ExchangeRateHistory,
+  ExchangeRateHistoryDocument,
+} from './schemas/exchange-rate-history.schema';
+import {
+  ExchangeRateHistoryQueryDto,
+  SetExchangeRateDto,
+} from './dto/exchange-rate.dto';
+import { createPaginatedResponse } from '../../common/dto/pagination.dto';
+import { MongoService } from '../../common/services/internal/mongo.service';
+
+/**
+ * Admin-managed exchange rates between currencies. Every change to a pair is
+ * also written to ExchangeRateHistory.
+ */
+@Injectable()
+export class ExchangeRatesService {
+  constructor(
+    @InjectModel(ExchangeRate.name)
+    private rateModel: Model<ExchangeRateDocument>,
+    @InjectModel(ExchangeRateHistory.name)
+    private historyModel: Model<ExchangeRateHistoryDocument>,
+    @InjectModel(Currency.name)
+    private currencyModel: Model<CurrencyDocument>,
+    private readonly mongo: MongoService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async setRate(
+    dto: SetExchangeRateDto,
+    adminId: string,
+  ): Promise<ExchangeRateDocument> {
+    if (dto.baseSymbol === dto.quoteSymbol) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.exchange_same_currency'),
+      );
+    }
+    const [base, quote] = await Promise.all([
+      this.currencyModel.findOne({ symbol: dto.baseSymbol, deletedAt: null }),
+      this.currencyModel.findOne({ symbol: dto.quoteSymbol, deletedAt: null }),
+    ]);
+    if (!base || !quote) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.currency_not_found'),
+      );
+    }
+
+    // Fields left out keep their current value on an existing pair
+    const $set: Record<string, unknown> = {
+      rate: dto.rate,
+      baseCurrencyId: base._id,
+      quoteCurrencyId: quote._id,
+      updatedBy: adminId,
+    };
+    if (dto.spreadPercentage !== undefined) {
+      $set.spreadPercentage = dto.spreadPercentage;
+    }
+    if (dto.isActive !== undefined) $set.isActive = dto.isActive;
+
+    return this.mongo.withTransaction(
+      async (session) => {
+        const rate = await this.rateModel.findOneAndUpdate(
+          { baseSymbol: base.symbol, quoteSymbol: quote.symbol },
+          { $set },
+          { new: true, upsert: true, setDefaultsOnInsert: true, session },
+        );
+        await new this.historyModel({
+          exchangeRateId: rate._id,
+          baseSymbol: rate.baseSymbol,
+          quoteSymbol: rate.quoteSymbol,
+          rate: rate.rate,
+          spreadPercentage: rate.spreadPercentage,
+          isActive: rate.isActive,
+          changedBy: adminId,
+        }).save({ session });
+        return rate;
+      },
+      { operation: `exchange-rate:${base.symbol}/${quote.symbol}` },
+    );
+  }
+
+  async findAll(): Promise<ExchangeRateDocument[]> {
+    return this.rateModel.find().sort({ baseSymbol: 1, quoteSymbol: 1 });
+  }
+
+  async findHistory(
+    baseSymbol: string,
+    quoteSymbol: string,
+    query: ExchangeRateHistoryQueryDto,
+  ) {
+    const page = query.page ?? 0;
+    const limit = query.limit ?? 10;
+    const rate = await this.rateModel.findOne({ baseSymbol, quoteSymbol });
+    if (!rate) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.exchange_rate_not_found'),
+      );
+    }
+
+    const filter = { exchangeRateId: rate._id };
+    const [items, total] = await Promise.all([
+      this.historyModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(page * limit)
+        .limit(limit),
+      this.historyModel.countDocuments(filter),
+    ]);
+    return createPaginatedResponse(items, page, limit, total);
+  }
+}
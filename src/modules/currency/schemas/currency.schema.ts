@@ -1,6 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
-import { FeeType } from 'src/common/enums/index';
+import { FeeType, RoundingMode } from 'src/common/enums/index';
 
 export type CurrencyDocument = Currency & Document;
 
@@ -79,9 +79,24 @@ export class Currency {
   @Prop({ default: true })
   isActive: boolean;
 
+  // Minor-unit precision used to round every amount in this currency
+  @Prop({ type: Number, default: 2, min: 0, max: 18 })
+  decimalPlaces: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(RoundingMode),
+    default: RoundingMode.HALF_UP,
+  })
+  roundingMode: RoundingMode;
+
   @Prop({ type: PayTabsConfig, default: {} })
   paytab: PayTabsConfig;
 
+  // Fee charged to the sender of a peer-to-peer transfer in this currency
+  @Prop({ type: PayTabsFees, default: {} })
+  transferFee: PayTabsFees;
+
   @Prop({ type: Date, default: null })
   deletedAt: Date | null;
 
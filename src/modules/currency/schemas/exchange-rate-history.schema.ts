@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type ExchangeRateHistoryDocument = ExchangeRateHistory & Document;
+
+/**
+ * One row per change to an exchange rate, holding the terms that were set.
+ * Conversions record the rate they used, so this is the audit trail for
+ * the admin side only.
+ */
+@Schema({
+  collection: 'ExchangeRateHistory',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class ExchangeRateHistory {
+  @Prop({ type: Types.ObjectId, ref: 'ExchangeRate', required: true })
+  exchangeRateId: Types.ObjectId;
+
+  @Prop({ required: true })
+  baseSymbol: string;
+
+  @Prop({ required: true })
+  quoteSymbol: string;
+
+  @Prop({ ...MoneyProp, required: true })
+  rate: number;
+
+  @Prop({ type: Number, default: 0 })
+  spreadPercentage: number;
+
+  @Prop({ required: true })
+  isActive: boolean;
+
+  @Prop({ type: String, default: null })
+  changedBy: string | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ExchangeRateHistorySchema =
+  SchemaFactory.createForClass(ExchangeRateHistory);
+ExchangeRateHistorySchema.index({ exchangeRateId: 1, createdAt: -1 });
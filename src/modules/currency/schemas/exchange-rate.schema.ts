@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type ExchangeRateDocument = ExchangeRate & Document;
+
+@Schema({
+  collection: 'ExchangeRate',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class ExchangeRate {
+  @Prop({ type: Types.ObjectId, ref: 'Currency', required: true })
+  baseCurrencyId: Types.ObjectId;
+
+  @Prop({ required: true })
+  baseSymbol: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Currency', required: true })
+  quoteCurrencyId: Types.ObjectId;
+
+  @Prop({ required: true })
+  quoteSymbol: string;
+
+  // Units of the quote currency paid for one unit of the base currency
+  @Prop({ ...MoneyProp, required: true })
+  rate: number;
+
+  // Kept by the platform out of every conversion, as a percentage of the
+  // converted amount
+  @Prop({ type: Number, default: 0, min: 0, max: 100 })
+  spreadPercentage: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: String, default: null })
+  updatedBy: string | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
+// Rates are directional: USD/SAR and SAR/USD are separate pairs
+ExchangeRateSchema.index({ baseSymbol: 1, quoteSymbol: 1 }, { unique: true });
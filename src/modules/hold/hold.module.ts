@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { HoldService } from './hold.service';
+import { BalanceHold, BalanceHoldSchema } from './schemas/balance-hold.schema';
+import { Account, AccountSchema } from '../wallet/schemas/account.schema';
+import { Balance, BalanceSchema } from '../wallet/schemas/balance.schema';
+import { RealtimeModule } from '../realtime/realtime.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: BalanceHold.name, schema: BalanceHoldSchema },
+      { name: Account.name, schema: AccountSchema },
+      { name: Balance.name, schema: BalanceSchema },
+    ]),
+    RealtimeModule,
+  ],
+  providers: [HoldService],
+  exports: [HoldService],
+})
+export class HoldModule {}
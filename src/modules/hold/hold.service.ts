@@ -0,0 +1,457 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  BalanceHold,
+  BalanceHoldDocument,
+  HoldStatus,
+} from './schemas/balance-hold.schema';
+import {
+  Account,
+  AccountDocument,
+  isDebitBlocked,
+} from '../wallet/schemas/account.schema';
+import {
+  Balance,
+  BalanceDocument,
+  assetType,
+  fenceFilter,
+  fenceUpdate,
+  isFencedOut,
+} from '../wallet/schemas/balance.schema';
+import { MongoService } from '../../common/services/internal/mongo.service';
+import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import {
+  EXACT_PRECISION,
+  addMoney,
+  subtractMoney,
+} from '../../common/utils/money';
+
+const EXPIRY_LOCK_KEY = 'balance-holds:expiry';
+const EXPIRY_LOCK_TTL_MS = 5 * 60 * 1000;
+
+export interface PlaceHoldInput {
+  accountId: Types.ObjectId;
+  assetType: assetType;
+  assetId: Types.ObjectId;
+  assetSymbol: string;
+  // Already rounded to the asset's precision
+  amount: number;
+  ownerModule: string;
+  ownerRef?: string | null;
+  expiresAt?: Date | null;
+  idempotencyKey: string;
+}
+
+export interface CaptureHoldOptions {
+  // Return whatever is left of the hold to `available` after this capture
+  releaseRemainder?: boolean;
+  // Fencing token of the caller's lock on the balance
+  fence?: number;
+}
+
+export interface ReleaseHoldOptions {
+  // Runs inside the release's transaction once the hold is closed, for the
+  // owner's own records
+  afterRelease?: (
+    hold: BalanceHoldDocument,
+    session: ClientSession,
+  ) => Promise<void>;
+}
+
+/**
+ * Holds on wallet balances.
+ *
+ * Placing a hold moves funds from `available` to `reserved`. A capture turns
+ * part or all of the held amount into a real debit; the rest can be released
+ * back to `available` explicitly or, for holds with an expiry, by the sweeper.
+ * Each hold belongs to the module that placed it (`ownerModule`/`ownerRef`).
+ */
+@Injectable()
+export class HoldService {
+  private readonly logger = new Logger(HoldService.name);
+
+  constructor(
+    @InjectModel(BalanceHold.name)
+    private holdModel: Model<BalanceHoldDocument>,
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(Balance.name) private balanceModel: Model<BalanceDocument>,
+    private readonly mongo: MongoService,
+    private readonly lockService: RedisLockService,
+    private readonly realtimeService: RealtimeService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async place(input: PlaceHoldInput): Promise<BalanceHoldDocument> {
+    const existing = await this.holdModel.findOne({
+      idempotencyKey: input.idempotencyKey,
+    });
+    if (existing) return existing;
+
+    if (input.amount <= 0) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.invalid_hold_amount'),
+      );
+    }
+    const account = await this.accountModel.findOne({
+      _id: input.accountId,
+      deletedAt: null,
+    });
+    if (!account) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    if (isDebitBlocked(account)) {
+      throw new ForbiddenException(this.i18n.t('common.errors.wallet_frozen'));
+    }
+
+    const lockKey = this.lockKey(input.accountId, input.assetSymbol);
+    const operation = `hold-place:${input.ownerModule}`;
+    const placed = await this.lockService.withLocks(
+      [lockKey],
+      (fences) =>
+        this.mongo.withTransaction(
+          async (session) => {
+            // Look again under the lock: a concurrent call with the same key
+            // may have placed the hold since the check above
+            const placedMeanwhile = await this.holdModel.findOne(
+              { idempotencyKey: input.idempotencyKey },
+              null,
+              { session },
+            );
+            if (placedMeanwhile)
+              return { hold: placedMeanwhile, balance: null };
+
+            const fence = fences.get(lockKey);
+            const balance = await this.balanceModel.findOneAndUpdate(
+              {
+                accountId: input.accountId,
+                assetSymbol: input.assetSymbol,
+                available: { $gte: input.amount },
+                ...fenceFilter(fence),
+              },
+              {
+                $inc: { available: -input.amount, reserved: input.amount },
+                ...fenceUpdate(fence),
+              },
+              { new: true, session },
+            );
+            if (!balance) {
+              await this.rejectIfFencedOut(
+                { accountId: input.accountId, assetSymbol: input.assetSymbol },
+                fence,
+              );
+              throw new BadRequestException(
+                this.i18n.t('common.errors.insufficient_balance'),
+              );
+            }
+
+            const hold = await new this.holdModel({
+              accountId: input.accountId,
+              balanceId: balance._id,
+              assetType: input.assetType,
+              assetId: input.assetId,
+              assetSymbol: input.assetSymbol,
+              ownerModule: input.ownerModule,
+              ownerRef: input.ownerRef ?? null,
+              amount: input.amount,
+              status: HoldStatus.ACTIVE,
+              expiresAt: input.expiresAt ?? null,
+              idempotencyKey: input.idempotencyKey,
+            }).save({ session });
+            return { hold, balance };
+          },
+          { operation },
+        ),
+      {
+        busyMessage: 'common.errors.unable_to_lock_balance',
+        operation,
+        fenceFloors: await this.fenceFloorOf(lockKey, {
+          accountId: input.accountId,
+          assetSymbol: input.assetSymbol,
+        }),
+      },
+    );
+
+    if (placed.balance) {
+      await this.realtimeService.publishBalance(account.userId, placed.balance);
+    }
+    return placed.hold;
+  }
+
+  /**
+   * Take `amount` out of the hold for good. Runs inside the caller's ledger
+   * transaction: the caller already holds the balance lock and writes the
+   * journal entries and transactions for the debit.
+   */
+  async capture(
+    holdId: Types.ObjectId,
+    amount: number,
+    session: ClientSession,
+    options: CaptureHoldOptions = {},
+  ): Promise<{ hold: BalanceHoldDocument; balance: BalanceDocument }> {
+    const hold = await this.holdModel.findOne(
+      { _id: holdId, status: HoldStatus.ACTIVE },
+      null,
+      { session },
+    );
+    if (!hold) {
+      throw new NotFoundException(this.i18n.t('common.errors.hold_not_found'));
+    }
+    if (hold.expiresAt && hold.expiresAt <= new Date()) {
+      throw new BadRequestException(this.i18n.t('common.errors.hold_expired'));
+    }
+    const account = await this.accountModel.findById(hold.accountId, null, {
+      session,
+    });
+    if (account && isDebitBlocked(account)) {
+      throw new ForbiddenException(this.i18n.t('common.errors.wallet_frozen'));
+    }
+
+    const remaining = this.remainingOf(hold);
+    if (amount <= 0 || amount > remaining) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.hold_capture_exceeds_remaining'),
+      );
+    }
+    const released = options.releaseRemainder
+      ? subtractMoney(remaining, [amount], EXACT_PRECISION)
+      : 0;
+
+    const leaving = addMoney([amount, released], EXACT_PRECISION);
+    const balance = await this.balanceModel.findOneAndUpdate(
+      {
+        _id: hold.balanceId,
+        reserved: { $gte: leaving },
+        ...fenceFilter(options.fence),
+      },
+      {
+        $inc: { reserved: -leaving, available: released },
+        ...fenceUpdate(options.fence),
+      },
+      { new: true, session },
+    );
+    if (!balance) {
+      await this.rejectIfFencedOut({ _id: hold.balanceId }, options.fence);
+      throw new BadRequestException(
+        this.i18n.t('common.errors.insufficient_reserved_balance'),
+      );
+    }
+
+    hold.capturedAmount = addMoney(
+      [hold.capturedAmount, amount],
+      EXACT_PRECISION,
+    );
+    hold.releasedAmount = addMoney(
+      [hold.releasedAmount, released],
+      EXACT_PRECISION,
+    );
+    if (this.remainingOf(hold) <= 0) {
+      hold.status = HoldStatus.CAPTURED;
+      hold.closedAt = new Date();
+    }
+    await hold.save({ session });
+    return { hold, balance };
+  }
+
+  async release(
+    holdId: Types.ObjectId,
+    options: ReleaseHoldOptions = {},
+  ): Promise<BalanceHoldDocument> {
+    return this.close(holdId, HoldStatus.RELEASED, options.afterRelease);
+  }
+
+  async findByOwner(
+    ownerModule: string,
+    ownerRef: string,
+  ): Promise<BalanceHoldDocument[]> {
+    return this.holdModel
+      .find({ ownerModule, ownerRef })
+      .sort({ createdAt: -1 });
+  }
+
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: 'balance-hold-expiry' })
+  async releaseExpiredHolds(): Promise<void> {
+    // One instance sweeps at a time
+    const token = await this.lockService.acquire(
+      EXPIRY_LOCK_KEY,
+      EXPIRY_LOCK_TTL_MS,
+      'balance-hold-expiry',
+    );
+    if (!token) return;
+
+    try {
+      const expired = await this.holdModel
+        .find({
+          status: HoldStatus.ACTIVE,
+          expiresAt: { $ne: null, $lte: new Date() },
+        })
+        .select({ _id: 1 })
+        .lean<Array<{ _id: Types.ObjectId }>>();
+      let count = 0;
+      for (const { _id } of expired) {
+        try {
+          await this.close(_id, HoldStatus.EXPIRED);
+          count++;
+        } catch (err) {
+          // Busy balances are retried on the next run
+          this.logger.warn(
+            `Could not expire hold ${_id.toHexString()}: ${err instanceof Error ? err.message : String(err)}`,
+          );
+        }
+      }
+      if (count > 0) {
+        this.logger.log(`Released ${count} expired balance holds`);
+      }
+    } catch (err) {
+      this.logger.error(
+        `Hold expiry run failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    } finally {
+      await this.lockService.release(EXPIRY_LOCK_KEY, token);
+    }
+  }
+
+  // Return the uncaptured part of an active hold to `available`
+  private async close(
+    holdId: Types.ObjectId,
+    status: HoldStatus.RELEASED | HoldStatus.EXPIRED,
+    afterClose?: ReleaseHoldOptions['afterRelease'],
+  ): Promise<BalanceHoldDocument> {
+    const hold = await this.holdModel.findById(holdId);
+    if (!hold) {
+      throw new NotFoundException(this.i18n.t('common.errors.hold_not_found'));
+    }
+    if (hold.status !== HoldStatus.ACTIVE) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.hold_not_active'),
+      );
+    }
+
+    const lockKey = this.lockKey(hold.accountId, hold.assetSymbol);
+    const operation = `hold-close:${holdId.toHexString()}`;
+    const closed = await this.lockService.withLocks(
+      [lockKey],
+      (fences) =>
+        this.mongo.withTransaction(
+          async (session) => {
+            const fence = fences.get(lockKey);
+            // Re-read under the lock: a capture may have landed in between
+            const current = await this.holdModel.findOne(
+              { _id: holdId, status: HoldStatus.ACTIVE },
+              null,
+              { session },
+            );
+            if (!current) {
+              throw new BadRequestException(
+                this.i18n.t('common.errors.hold_not_active'),
+              );
+            }
+            const remaining = this.remainingOf(current);
+            let balance: BalanceDocument | null = null;
+            if (remaining > 0) {
+              balance = await this.balanceModel.findOneAndUpdate(
+                {
+                  _id: current.balanceId,
+                  reserved: { $gte: remaining },
+                  ...fenceFilter(fence),
+                },
+                {
+                  $inc: { reserved: -remaining, available: remaining },
+                  ...fenceUpdate(fence),
+                },
+                { new: true, session },
+              );
+              if (!balance) {
+                await this.rejectIfFencedOut({ _id: current.balanceId }, fence);
+                throw new BadRequestException(
+                  this.i18n.t('common.errors.insufficient_reserved_balance'),
+                );
+              }
+            }
+            current.releasedAmount = addMoney(
+              [current.releasedAmount, remaining],
+              EXACT_PRECISION,
+            );
+            current.status = status;
+            current.closedAt = new Date();
+            const saved = await current.save({ session });
+            if (afterClose) await afterClose(saved, session);
+            return { hold: saved, balance };
+          },
+          { operation },
+        ),
+      {
+        busyMessage: 'common.errors.unable_to_lock_balance',
+        operation,
+        fenceFloors: await this.fenceFloorOf(lockKey, { _id: hold.balanceId }),
+      },
+    );
+
+    if (closed.balance) {
+      const account = await this.accountModel
+        .findById(closed.hold.accountId)
+        .select({ userId: 1 });
+      await this.realtimeService.publishBalance(
+        account?.userId,
+        closed.balance,
+      );
+    }
+    return closed.hold;
+  }
+
+  private remainingOf(hold: BalanceHold): number {
+    return subtractMoney(
+      hold.amount,
+      [hold.capturedAmount, hold.releasedAmount],
+      EXACT_PRECISION,
+    );
+  }
+
+  // Read outside the session: what matters is whether a newer lock holder
+  // has already committed a write
+  private async rejectIfFencedOut(
+    balanceFilter: Record<string, unknown>,
+    fence: number | undefined,
+  ): Promise<void> {
+    if (fence === undefined) return;
+    const current = await this.balanceModel.findOne(balanceFilter);
+    if (!current || !isFencedOut(current, fence)) return;
+
+    this.logger.warn(
+      `Rejected write to balance ${(current._id as Types.ObjectId).toHexString()} from a stale lock holder (fence ${fence}, applied ${current.fence})`,
+    );
+    // In case the lock store's counter fell behind (see fenceFilter)
+    await this.lockService.raiseFence(
+      this.lockKey(current.accountId, current.assetSymbol),
+      current.fence,
+    );
+    throw new ConflictException(this.i18n.t('common.errors.stale_lock'));
+  }
+
+  // Fencing token already applied to the balance behind `lockKey`
+  private async fenceFloorOf(
+    lockKey: string,
+    balanceFilter: Record<string, unknown>,
+  ): Promise<Map<string, number>> {
+    const balance = await this.balanceModel
+      .findOne(balanceFilter)
+      .select({ fence: 1 });
+    return new Map([[lockKey, balance?.fence ?? 0]]);
+  }
+
+  private lockKey(accountId: Types.ObjectId, assetSymbol: string): string {
+    return `wallet:${accountId.toHexString()}:${assetSymbol}`;
+  }
+}
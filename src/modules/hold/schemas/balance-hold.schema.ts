@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { assetType } from '../../wallet/schemas/balance.schema';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type BalanceHoldDocument = BalanceHold & Document;
+
+export enum HoldStatus {
+  // Funds sit in `reserved` and can still be captured or released
+  ACTIVE = 'ACTIVE',
+  CAPTURED = 'CAPTURED',
+  RELEASED = 'RELEASED',
+  EXPIRED = 'EXPIRED',
+}
+
+@Schema({
+  collection: 'BalanceHold',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class BalanceHold {
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  accountId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Balance', required: true })
+  balanceId: Types.ObjectId;
+
+  @Prop({ type: String, enum: ['CURRENCY', 'METAL'], required: true })
+  assetType: assetType;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  assetId: Types.ObjectId;
+
+  @Prop({ required: true })
+  assetSymbol: string;
+
+  // Module that placed the hold (e.g. 'withdrawal') and its own reference
+  @Prop({ required: true })
+  ownerModule: string;
+
+  @Prop({ type: String, default: null })
+  ownerRef: string | null;
+
+  // Amount originally held
+  @Prop({ ...MoneyProp, required: true })
+  amount: number;
+
+  @Prop({ ...MoneyProp, default: 0 })
+  capturedAmount: number;
+
+  // Part of the hold returned to `available` (on release or expiry)
+  @Prop({ ...MoneyProp, default: 0 })
+  releasedAmount: number;
+
+  @Prop({ type: String, enum: HoldStatus, default: HoldStatus.ACTIVE })
+  status: HoldStatus;
+
+  // Released automatically once passed; null holds until captured/released
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+
+  @Prop({ required: true, index: { unique: true } })
+  idempotencyKey: string;
+
+  @Prop({ type: Date, default: null })
+  closedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const BalanceHoldSchema = SchemaFactory.createForClass(BalanceHold);
+BalanceHoldSchema.index({ status: 1, expiresAt: 1 });
+BalanceHoldSchema.index({ ownerModule: 1, ownerRef: 1 });
+BalanceHoldSchema.index({ accountId: 1, assetSymbol: 1, status: 1 });
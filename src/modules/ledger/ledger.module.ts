@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LedgerService } from './ledger.service';
+import { Account, AccountSchema } from '../wallet/schemas/account.schema';
+import { Balance, BalanceSchema } from '../wallet/schemas/balance.schema';
+import {
+  JournalEntry,
+  JournalEntrySchema,
+} from '../wallet/schemas/journal-entry.schema';
+import {
+  Transaction,
+  TransactionSchema,
+} from '../wallet/schemas/transaction.schema';
+import { HoldModule } from '../hold/hold.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Account.name, schema: AccountSchema },
+      { name: Balance.name, schema: BalanceSchema },
+      { name: JournalEntry.name, schema: JournalEntrySchema },
+      { name: Transaction.name, schema: TransactionSchema },
+    ]),
+    HoldModule,
+    RealtimeModule,
+    OutboxModule,
+  ],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,514 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  Account,
+  AccountDocument,
+  AccountType,
+  isCreditBlocked,
+  isDebitBlocked,
+} from '../wallet/schemas/account.schema';
+import {
+  Balance,
+  BalanceDocument,
+  assetType,
+  fenceFilter,
+  fenceUpdate,
+  isFencedOut,
+} from '../wallet/schemas/balance.schema';
+import {
+  JournalEntry,
+  JournalEntryDocument,
+} from '../wallet/schemas/journal-entry.schema';
+import {
+  Transaction,
+  TransactionDirection,
+  TransactionDocument,
+  TransactionTitle,
+  TransactionType,
+} from '../wallet/schemas/transaction.schema';
+import { HoldService } from '../hold/hold.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import {
+  OutboxEventType,
+  OutboxMessage,
+  OutboxService,
+} from '../outbox/outbox.service';
+import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import { MongoService } from '../../common/services/internal/mongo.service';
+import {
+  EXACT_PRECISION,
+  addMoney,
+  subtractMoney,
+} from '../../common/utils/money';
+
+const LOCK_TTL_MS = 10000;
+
+export interface LedgerAsset {
+  assetType: assetType;
+  assetId: Types.ObjectId;
+  assetSymbol: string;
+}
+
+export interface LedgerLeg {
+  account: AccountDocument;
+  asset: LedgerAsset;
+  // Negative debits the account, positive credits it
+  amount: number;
+  // Not needed on clearing accounts, which get no Transaction row
+  title?: TransactionTitle;
+  // Defaults to DEPOSIT for credits and WITHDRAWAL for debits
+  type?: TransactionType;
+  // Appended to the posting's idempotency key ('' for the main entry). The
+  // debit and the credit leg sharing a suffix make up one JournalEntry
+  suffix: string;
+  // Debits only: draw the amount from this hold instead of `available`
+  holdId?: Types.ObjectId;
+  // Debits only: keep a system account from going below zero, as wallets are
+  requireFunds?: boolean;
+}
+
+export interface LedgerPosting {
+  idempotencyKey: string;
+  legs: LedgerLeg[];
+  // Message key of the ConflictException thrown when a balance is locked
+  busyMessage: string;
+  // Stored on every entry of the posting
+  entryFields?: Partial<
+    Pick<
+      JournalEntry,
+      'reversalOfId' | 'relatedEntryId' | 'reason' | 'postedBy'
+    >
+  >;
+  // Runs inside the posting's transaction once the entries are written, for
+  // the caller's own records (orders, transfers, trades)
+  afterPost?: (
+    entries: JournalEntryDocument[],
+    session: ClientSession,
+  ) => Promise<void>;
+}
+
+export interface PostedLedger {
+  // One per suffix, in the order the suffixes first appear in `legs`
+  entries: JournalEntryDocument[];
+  // Balance of each leg's account right after that leg, aligned with `legs`
+  balances: BalanceDocument[];
+}
+
+interface EntryLegs {
+  suffix: string;
+  debit: { leg: LedgerLeg; index: number };
+  credit: { leg: LedgerLeg; index: number };
+}
+
+/**
+ * Posts money movements to the ledger.
+ *
+ * A posting is a list of signed legs. The engine takes the wallet locks of
+ * every balance involved at once, then in one Mongo transaction moves
+ * each balance, writes a Transaction row per leg and one JournalEntry per
+ * debit / credit pair, and back-links the rows to their entry, recording a
+ * WalletCredited / WalletDebited outbox event per user wallet leg. User wallets
+ * cannot go below zero; system accounts can. Freezes are checked again
+ * inside the transaction, so one placed while a posting waited for its locks
+ * still stops it. Clearing accounts (EXTERNAL_*)
+ * are neither locked nor given Transaction rows. A posting whose key was
+ * already used returns the earlier entries. Once the transaction commits,
+ * the owners of the wallets involved are sent their new balances.
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(Balance.name) private balanceModel: Model<BalanceDocument>,
+    @InjectModel(JournalEntry.name)
+    private journalModel: Model<JournalEntryDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    private readonly holdService: HoldService,
+    private readonly realtimeService: RealtimeService,
+    private readonly outboxService: OutboxService,
+    private readonly lockService: RedisLockService,
+    private readonly mongo: MongoService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async post(posting: LedgerPosting): Promise<PostedLedger> {
+    const groups = this.pairLegs(posting.legs);
+    const lockedLegs = posting.legs.filter(
+      (leg) => !this.isClearing(leg.account),
+    );
+    const lockKeys = lockedLegs.map((leg) => this.lockKeyOf(leg));
+    const operation = `ledger:${posting.idempotencyKey}`;
+
+    const posted = await this.lockService.withLocks(
+      lockKeys,
+      (fences) =>
+        this.mongo.withTransaction(
+          async (session) => {
+            // Callers check the key before locking; a concurrent call with
+            // the same key may have posted while this one waited
+            const replayed = await this.replayOf(posting, groups, session);
+            if (replayed) return replayed;
+
+            const entries: JournalEntryDocument[] = [];
+            const events: OutboxMessage[] = [];
+            const balances: BalanceDocument[] = new Array<BalanceDocument>(
+              posting.legs.length,
+            );
+
+            for (const group of groups) {
+              const txIds: Types.ObjectId[] = [];
+              for (const { leg, index } of [group.debit, group.credit]) {
+                const { balance, tx } = await this.applyLeg(
+                  leg,
+                  session,
+                  fences.get(this.lockKeyOf(leg)),
+                );
+                balances[index] = balance;
+                if (tx) txIds.push(tx._id as Types.ObjectId);
+              }
+
+              const { asset } = group.credit.leg;
+              const entry = await new this.journalModel({
+                debitAccountId: group.debit.leg.account._id,
+                creditAccountId: group.credit.leg.account._id,
+                assetSymbol: asset.assetSymbol,
+                assetType: asset.assetType,
+                assetId: asset.assetId,
+                amount: group.credit.leg.amount,
+                transactionIds: txIds.map((id) => id.toHexString()),
+                idempotencyKey: `${posting.idempotencyKey}${group.suffix}`,
+                ...posting.entryFields,
+              }).save({ session });
+
+              if (txIds.length > 0) {
+                await this.transactionModel.updateMany(
+                  { _id: { $in: txIds } },
+                  { journalEntryId: entry._id },
+                  { session },
+                );
+              }
+              entries.push(entry);
+              for (const { leg } of [group.debit, group.credit]) {
+                const event = this.walletEventOf(leg, entry);
+                if (event) events.push(event);
+              }
+            }
+            await this.outboxService.add(events, session);
+
+            if (posting.afterPost) await posting.afterPost(entries, session);
+            return { entries, balances };
+          },
+          { operation },
+        ),
+      {
+        ttlMs: LOCK_TTL_MS,
+        busyMessage: posting.busyMessage,
+        operation,
+        fenceFloors: await this.fenceFloorsOf(lockedLegs),
+      },
+    );
+
+    await this.notifyBalances(posting.legs, posted.balances);
+    return posted;
+  }
+
+  // What an earlier posting with the same key left: its entries and the
+  // current balances of the legs' accounts. `afterPost` is not run again.
+  private async replayOf(
+    posting: LedgerPosting,
+    groups: EntryLegs[],
+    session: ClientSession,
+  ): Promise<PostedLedger | null> {
+    const keys = groups.map(
+      (group) => `${posting.idempotencyKey}${group.suffix}`,
+    );
+    const existing = await this.journalModel.find(
+      { idempotencyKey: { $in: keys } },
+      null,
+      { session },
+    );
+    if (existing.length === 0) return null;
+
+    const entries: JournalEntryDocument[] = [];
+    const balances = new Array<BalanceDocument>(posting.legs.length);
+    for (const [i, group] of groups.entries()) {
+      const entry = existing.find((e) => e.idempotencyKey === keys[i]);
+      if (!entry) continue;
+      entries.push(entry);
+      // The accounts the earlier posting moved, which may not be the ones
+      // this call resolved (e.g. a system account created twice)
+      const sides = [
+        { index: group.debit.index, accountId: entry.debitAccountId },
+        { index: group.credit.index, accountId: entry.creditAccountId },
+      ];
+      for (const { index, accountId } of sides) {
+        const balance = await this.balanceModel.findOne(
+          { accountId, assetSymbol: entry.assetSymbol },
+          null,
+          { session },
+        );
+        if (balance) balances[index] = balance;
+      }
+    }
+    return { entries, balances };
+  }
+
+  private walletEventOf(
+    leg: LedgerLeg,
+    entry: JournalEntryDocument,
+  ): OutboxMessage | null {
+    if (!leg.account.userId) return null;
+    const isDebit = leg.amount < 0;
+    return {
+      type: isDebit
+        ? OutboxEventType.WALLET_DEBITED
+        : OutboxEventType.WALLET_CREDITED,
+      payload: {
+        accountId: (leg.account._id as Types.ObjectId).toHexString(),
+        userId: leg.account.userId.toHexString(),
+        assetSymbol: leg.asset.assetSymbol,
+        amount: Math.abs(leg.amount),
+        transactionType: this.typeOf(leg),
+        journalEntryId: (entry._id as Types.ObjectId).toHexString(),
+        idempotencyKey: entry.idempotencyKey,
+      },
+    };
+  }
+
+  private typeOf(leg: LedgerLeg): TransactionType {
+    return (
+      leg.type ??
+      (leg.amount < 0 ? TransactionType.WITHDRAWAL : TransactionType.DEPOSIT)
+    );
+  }
+
+  // Last balance of each wallet asset the posting touched
+  private async notifyBalances(
+    legs: LedgerLeg[],
+    balances: BalanceDocument[],
+  ): Promise<void> {
+    const latest = new Map<string, number>();
+    legs.forEach((leg, index) => {
+      if (!leg.account.userId) return;
+      latest.set(
+        `${(leg.account._id as Types.ObjectId).toHexString()}:${leg.asset.assetSymbol}`,
+        index,
+      );
+    });
+    for (const index of latest.values()) {
+      await this.realtimeService.publishBalance(
+        legs[index].account.userId,
+        balances[index],
+      );
+    }
+  }
+
+  // Group legs by suffix and check each group is one balanced debit / credit
+  private pairLegs(legs: LedgerLeg[]): EntryLegs[] {
+    const bySuffix = new Map<
+      string,
+      Array<{ leg: LedgerLeg; index: number }>
+    >();
+    legs.forEach((leg, index) => {
+      const group = bySuffix.get(leg.suffix) ?? [];
+      group.push({ leg, index });
+      bySuffix.set(leg.suffix, group);
+    });
+
+    return [...bySuffix.entries()].map(([suffix, group]) => {
+      const debit = group.find(({ leg }) => leg.amount < 0);
+      const credit = group.find(({ leg }) => leg.amount > 0);
+      if (
+        group.length !== 2 ||
+        !debit ||
+        !credit ||
+        debit.leg.asset.assetSymbol !== credit.leg.asset.assetSymbol ||
+        subtractMoney(
+          credit.leg.amount,
+          [-debit.leg.amount],
+          EXACT_PRECISION,
+        ) !== 0 ||
+        credit.leg.holdId
+      ) {
+        throw new InternalServerErrorException(
+          this.i18n.t('common.errors.ledger_posting_unbalanced'),
+        );
+      }
+      return { suffix, debit, credit };
+    });
+  }
+
+  // `fence` is the fencing token of the leg's wallet lock; clearing legs
+  // are not locked and have none
+  private async applyLeg(
+    leg: LedgerLeg,
+    session: ClientSession,
+    fence: number | undefined,
+  ): Promise<{ balance: BalanceDocument; tx: TransactionDocument | null }> {
+    const { asset } = leg;
+    const isDebit = leg.amount < 0;
+    const amount = Math.abs(leg.amount);
+
+    // Hold captures check the freeze themselves
+    if (!leg.holdId && !this.isClearing(leg.account)) {
+      await this.rejectIfFrozen(leg, session);
+    }
+
+    let balance: BalanceDocument | null;
+    if (leg.holdId) {
+      // Capturing only draws on `reserved`; `available` is unchanged
+      ({ balance } = await this.holdService.capture(
+        leg.holdId,
+        amount,
+        session,
+        { fence },
+      ));
+    } else {
+      const guarded =
+        isDebit &&
+        (leg.account.type === AccountType.WALLET || leg.requireFunds);
+      const filter: Record<string, unknown> = {
+        accountId: leg.account._id,
+        assetType: asset.assetType,
+        assetId: asset.assetId,
+        assetSymbol: asset.assetSymbol,
+        ...fenceFilter(fence),
+      };
+      if (guarded) filter.available = { $gte: amount };
+
+      try {
+        balance = await this.balanceModel.findOneAndUpdate(
+          filter,
+          { $inc: { available: leg.amount }, ...fenceUpdate(fence) },
+          { new: true, upsert: !guarded, session },
+        );
+      } catch (err) {
+        // A fenced-out upsert collides with the balance it failed to match
+        if ((err as { code?: number }).code === 11000) {
+          await this.rejectIfFencedOut(leg, fence);
+        }
+        throw err;
+      }
+    }
+    if (!balance) {
+      await this.rejectIfFencedOut(leg, fence);
+      throw new BadRequestException(
+        this.i18n.t('common.errors.insufficient_balance'),
+      );
+    }
+
+    if (this.isClearing(leg.account)) return { balance, tx: null };
+
+    const balanceBefore = leg.holdId
+      ? balance.available
+      : isDebit
+        ? addMoney([balance.available, amount], EXACT_PRECISION)
+        : subtractMoney(balance.available, [amount], EXACT_PRECISION);
+    const tx = await new this.transactionModel({
+      accountId: leg.account._id,
+      assetType: asset.assetType,
+      assetId: asset.assetId,
+      balanceId: balance._id,
+      assetSymbol: asset.assetSymbol,
+      type: this.typeOf(leg),
+      direction: isDebit
+        ? TransactionDirection.DEBIT
+        : TransactionDirection.CREDIT,
+      amount,
+      balanceBefore,
+      balanceAfter: balance.available,
+      title: leg.title,
+      journalEntryId: null,
+    }).save({ session });
+    return { balance, tx };
+  }
+
+  // Callers check the account they loaded before locking; this reads it
+  // again in the transaction
+  private async rejectIfFrozen(
+    leg: LedgerLeg,
+    session: ClientSession,
+  ): Promise<void> {
+    const account = await this.accountModel.findById(leg.account._id, null, {
+      session,
+    });
+    if (!account) return;
+    if (leg.amount < 0 && isDebitBlocked(account)) {
+      throw new ForbiddenException(this.i18n.t('common.errors.wallet_frozen'));
+    }
+    if (leg.amount > 0 && isCreditBlocked(account)) {
+      throw new ForbiddenException(
+        this.i18n.t('common.errors.wallet_frozen_for_credits'),
+      );
+    }
+  }
+
+  // Read outside the session: what matters is whether a newer lock holder
+  // has already committed a write
+  private async rejectIfFencedOut(
+    leg: LedgerLeg,
+    fence: number | undefined,
+  ): Promise<void> {
+    if (fence === undefined) return;
+    const current = await this.balanceModel.findOne({
+      accountId: leg.account._id,
+      assetSymbol: leg.asset.assetSymbol,
+    });
+    if (!current || !isFencedOut(current, fence)) return;
+
+    this.logger.warn(
+      `Rejected write to balance ${this.lockKeyOf(leg)} from a stale lock holder (fence ${fence}, applied ${current.fence})`,
+    );
+    // In case the lock store's counter fell behind (see fenceFilter)
+    await this.lockService.raiseFence(this.lockKeyOf(leg), current.fence);
+    throw new ConflictException(this.i18n.t('common.errors.stale_lock'));
+  }
+
+  // Fencing tokens already applied to the balances of `legs`, by lock key
+  private async fenceFloorsOf(legs: LedgerLeg[]): Promise<Map<string, number>> {
+    const floors = new Map<string, number>();
+    if (legs.length === 0) return floors;
+    const balances = await this.balanceModel
+      .find({
+        $or: legs.map((leg) => ({
+          accountId: leg.account._id,
+          assetSymbol: leg.asset.assetSymbol,
+        })),
+      })
+      .select({ accountId: 1, assetSymbol: 1, fence: 1 });
+    for (const balance of balances) {
+      floors.set(
+        this.lockKey(balance.accountId, balance.assetSymbol),
+        balance.fence ?? 0,
+      );
+    }
+    return floors;
+  }
+
+  private lockKeyOf(leg: LedgerLeg): string {
+    return this.lockKey(
+      leg.account._id as Types.ObjectId,
+      leg.asset.assetSymbol,
+    );
+  }
+
+  private lockKey(accountId: Types.ObjectId, assetSymbol: string): string {
+    return `wallet:${accountId.toHexString()}:${assetSymbol}`;
+  }
+
+  private isClearing(account: AccountDocument): boolean {
+    return account.subtype.startsWith('EXTERNAL_');
+  }
+}
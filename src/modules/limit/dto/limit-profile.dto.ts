@@ -0,0 +1,151 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LimitDirection } from '../schemas/limit-profile.schema';
+
+export class LimitRuleDto {
+  @ApiProperty({ description: 'Currency the rule applies to', example: 'SAR' })
+  @IsString()
+  @IsNotEmpty()
+  currencySymbol: string;
+
+  @ApiProperty({ enum: LimitDirection, example: LimitDirection.WITHDRAWAL })
+  @IsEnum(LimitDirection)
+  direction: LimitDirection;
+
+  @ApiPropertyOptional({
+    description: 'Smallest amount per transaction (omit for no minimum)',
+    example: 10,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  minPerTransaction?: number;
+
+  @ApiPropertyOptional({
+    description: 'Largest amount per transaction (omit for no maximum)',
+    example: 5000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  maxPerTransaction?: number;
+
+  @ApiPropertyOptional({
+    description: 'Total over the last 24 hours',
+    example: 10000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  dailyCap?: number;
+
+  @ApiPropertyOptional({
+    description: 'Total over the last 7 days',
+    example: 30000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  weeklyCap?: number;
+
+  @ApiPropertyOptional({
+    description: 'Total over the last 30 days',
+    example: 100000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  monthlyCap?: number;
+}
+
+export class CreateLimitProfileDto {
+  @ApiProperty({ description: 'Display name', example: 'Verified users' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Tier key users are assigned to',
+    example: 'VERIFIED',
+  })
+  @IsString()
+  @IsNotEmpty()
+  tier: string;
+
+  @ApiPropertyOptional({
+    description: 'Use this profile for users without a matching tier',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiProperty({ type: [LimitRuleDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LimitRuleDto)
+  rules: LimitRuleDto[];
+}
+
+export class UpdateLimitProfileDto {
+  @ApiPropertyOptional({ description: 'Display name' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Use this profile for users without a matching tier',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Replaces every rule of the profile',
+    type: [LimitRuleDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LimitRuleDto)
+  rules?: LimitRuleDto[];
+}
+
+export class AssignLimitTierDto {
+  @ApiProperty({
+    description: 'Tier to assign; null puts the user on the default profile',
+    example: 'VERIFIED',
+    nullable: true,
+    type: String,
+  })
+  @IsOptional()
+  @IsString()
+  tier: string | null;
+}
+
+export class GetLimitAllowanceDto {
+  @ApiPropertyOptional({
+    description: 'Only show limits for this currency',
+    example: 'SAR',
+  })
+  @IsOptional()
+  @IsString()
+  currencySymbol?: string;
+}
@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { LimitService } from './limit.service';
+import {
+  AssignLimitTierDto,
+  CreateLimitProfileDto,
+  UpdateLimitProfileDto,
+} from './dto/limit-profile.dto';
+import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
+import { ApiAcceptLanguage } from '../../common/decorators/api-accept-language.decorator';
+import { ApiSort } from '../../common/decorators/api-sort.decorator';
+
+@ApiTags('017- Limits (Admin)')
+@ApiAcceptLanguage()
+@Controller('limits/admin')
+export class LimitAdminController {
+  constructor(private readonly limitService: LimitService) {}
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Post('profiles')
+  @ApiSort(1)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Admin: Create a limit profile',
+    description:
+      'A profile holds per-currency deposit and withdrawal limits for one tier. Setting isDefault moves the default flag to this profile.',
+  })
+  @ApiBody({ description: 'Profile payload', type: CreateLimitProfileDto })
+  @ApiResponse({ status: 201, description: 'Profile created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate rules' })
+  @ApiResponse({ status: 409, description: 'Tier already has a profile' })
+  async createProfile(@Body() dto: CreateLimitProfileDto) {
+    return this.limitService.createProfile(dto);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Patch('profiles/:id')
+  @ApiSort(2)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({ summary: 'Admin: Update a limit profile' })
+  @ApiParam({ name: 'id', description: 'Limit profile ID' })
+  @ApiBody({ description: 'Fields to update', type: UpdateLimitProfileDto })
+  @ApiResponse({ status: 200, description: 'Profile updated successfully' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async updateProfile(
+    @Param('id') id: string,
+    @Body() dto: UpdateLimitProfileDto,
+  ) {
+    return this.limitService.updateProfile(id, dto);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('profiles')
+  @ApiSort(3)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({ summary: 'Admin: List limit profiles' })
+  @ApiResponse({ status: 200, description: 'Profiles retrieved successfully' })
+  async findAllProfiles() {
+    return this.limitService.findAllProfiles();
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Patch('users/:userId/tier')
+  @ApiSort(4)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({ summary: "Admin: Set a user's limit tier" })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiBody({ description: 'Tier to assign', type: AssignLimitTierDto })
+  @ApiResponse({ status: 200, description: 'Tier assigned successfully' })
+  @ApiResponse({ status: 404, description: 'User or profile not found' })
+  async assignTier(
+    @Param('userId') userId: string,
+    @Body() dto: AssignLimitTierDto,
+  ) {
+    return this.limitService.assignTier(userId, dto);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('users/:userId')
+  @ApiSort(5)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({ summary: "Admin: Get a user's remaining limits" })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Limits retrieved successfully' })
+  async getUserLimits(@Param('userId') userId: string) {
+    return this.limitService.getAllowance(userId);
+  }
+}
@@ -0,0 +1,42 @@
+import { Controller, Get, Query, Request, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { LimitService } from './limit.service';
+import { GetLimitAllowanceDto } from './dto/limit-profile.dto';
+import { ApiSort } from '../../common/decorators/api-sort.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { type Request as ExpressRequest } from 'express';
+import { SuccessMessage } from '../../common/decorators/success-message.decorator';
+import { ApiAcceptLanguage } from '../../common/decorators/api-accept-language.decorator';
+
+@ApiTags('017- Limits')
+@ApiAcceptLanguage()
+@Controller('limits')
+export class LimitController {
+  constructor(private readonly limitService: LimitService) {}
+
+  @UseGuards(JwtAuthGuard)
+  @Get('my')
+  @ApiSort(1)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Get my deposit and withdrawal limits',
+    description:
+      'Per-transaction bounds and the used and remaining amount of every rolling cap (24 hours, 7 days, 30 days), per currency and direction. A null cap means no limit.',
+  })
+  @ApiResponse({ status: 200, description: 'Limits retrieved successfully' })
+  @SuccessMessage('common.messages.limits_retrieved')
+  async getMyLimits(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Query() query: GetLimitAllowanceDto,
+  ) {
+    return await this.limitService.getAllowance(
+      req.user.id,
+      query.currencySymbol,
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LimitService } from './limit.service';
+import { LimitController } from './limit.controller';
+import { LimitAdminController } from './limit.admin.controller';
+import {
+  LimitProfile,
+  LimitProfileSchema,
+} from './schemas/limit-profile.schema';
+import { LimitUsage, LimitUsageSchema } from './schemas/limit-usage.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LimitProfile.name, schema: LimitProfileSchema },
+      { name: LimitUsage.name, schema: LimitUsageSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [LimitAdminController, LimitController],
+  providers: [LimitService],
+  exports: [LimitService],
+})
+export class LimitModule {}
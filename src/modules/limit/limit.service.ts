@@ -0,0 +1,425 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types, isValidObjectId } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  LimitDirection,
+  LimitProfile,
+  LimitProfileDocument,
+  LimitRule,
+} from './schemas/limit-profile.schema';
+import { LimitUsage, LimitUsageDocument } from './schemas/limit-usage.schema';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import {
+  AssignLimitTierDto,
+  CreateLimitProfileDto,
+  LimitRuleDto,
+  UpdateLimitProfileDto,
+} from './dto/limit-profile.dto';
+import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import {
+  EXACT_PRECISION,
+  addMoney,
+  decimalToNumber,
+  subtractMoney,
+} from '../../common/utils/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rolling windows, checked from the shortest
+const LIMIT_WINDOWS = [
+  { period: 'daily', cap: 'dailyCap', ms: DAY_MS },
+  { period: 'weekly', cap: 'weeklyCap', ms: 7 * DAY_MS },
+  { period: 'monthly', cap: 'monthlyCap', ms: 30 * DAY_MS },
+] as const;
+
+type LimitPeriod = (typeof LIMIT_WINDOWS)[number]['period'];
+type WindowUsage = Record<LimitPeriod, number>;
+
+export interface ConsumeLimitInput {
+  userId: Types.ObjectId;
+  currencySymbol: string;
+  direction: LimitDirection;
+  // Already rounded to the currency's precision
+  amount: number;
+  ownerModule: string;
+  ownerRef: string;
+}
+
+export interface LimitWindowAllowance {
+  cap: number | null;
+  used: number;
+  // null when the window has no cap
+  remaining: number | null;
+}
+
+export interface LimitAllowance {
+  currencySymbol: string;
+  direction: LimitDirection;
+  minPerTransaction: number | null;
+  maxPerTransaction: number | null;
+  daily: LimitWindowAllowance;
+  weekly: LimitWindowAllowance;
+  monthly: LimitWindowAllowance;
+}
+
+/**
+ * Deposit and withdrawal limits.
+ *
+ * Users get the LimitProfile of their `limitTier`, or the default profile.
+ * Each rule of a profile bounds one currency and direction per transaction
+ * and over rolling daily, weekly and monthly windows. Money-in and money-out
+ * paths record a LimitUsage when a request is made and release it when the
+ * request is refused, cancelled or fails.
+ */
+@Injectable()
+export class LimitService {
+  constructor(
+    @InjectModel(LimitProfile.name)
+    private profileModel: Model<LimitProfileDocument>,
+    @InjectModel(LimitUsage.name)
+    private usageModel: Model<LimitUsageDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly lockService: RedisLockService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Check `amount` against the user's limits and count it. Recording the
+   * same owner twice returns the first usage.
+   */
+  async consume(input: ConsumeLimitInput): Promise<LimitUsageDocument> {
+    const existing = await this.usageModel.findOne({
+      ownerModule: input.ownerModule,
+      ownerRef: input.ownerRef,
+    });
+    if (existing) return existing;
+
+    const rule = await this.findRule(
+      input.userId,
+      input.currencySymbol,
+      input.direction,
+    );
+    const args = { symbol: input.currencySymbol };
+    if (
+      rule?.minPerTransaction != null &&
+      input.amount < rule.minPerTransaction
+    ) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.limit_below_minimum', {
+          args: { ...args, min: rule.minPerTransaction },
+        }),
+      );
+    }
+    if (
+      rule?.maxPerTransaction != null &&
+      input.amount > rule.maxPerTransaction
+    ) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.limit_above_maximum', {
+          args: { ...args, max: rule.maxPerTransaction },
+        }),
+      );
+    }
+
+    // Serialize requests of one user, currency and direction so two
+    // concurrent requests can't both fit under the same remaining cap
+    const lockKey = `limits:${input.userId.toHexString()}:${input.currencySymbol}:${input.direction}`;
+    return this.lockService.withLocks(
+      [lockKey],
+      async () => {
+        if (rule) {
+          const used = await this.usageOf(
+            input.userId,
+            input.currencySymbol,
+            input.direction,
+          );
+          for (const window of LIMIT_WINDOWS) {
+            const cap = rule[window.cap];
+            if (cap == null) continue;
+            const after = addMoney(
+              [used[window.period], input.amount],
+              EXACT_PRECISION,
+            );
+            if (after > cap) {
+              throw new BadRequestException(
+                this.i18n.t(
+                  `common.errors.limit_${window.period}_cap_exceeded`,
+                  {
+                    args: {
+                      ...args,
+                      remaining: this.remainingOf(cap, used[window.period]),
+                    },
+                  },
+                ),
+              );
+            }
+          }
+        }
+
+        return new this.usageModel({
+          userId: input.userId,
+          currencySymbol: input.currencySymbol,
+          direction: input.direction,
+          amount: input.amount,
+          ownerModule: input.ownerModule,
+          ownerRef: input.ownerRef,
+        }).save();
+      },
+      {
+        busyMessage: 'common.errors.limit_check_busy',
+        operation: `limit-consume:${input.ownerModule}`,
+      },
+    );
+  }
+
+  // Stop counting a usage; unknown owners (e.g. requests made before limits
+  // existed) are ignored
+  async release(
+    ownerModule: string,
+    ownerRef: string,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.usageModel.updateOne(
+      { ownerModule, ownerRef, releasedAt: null },
+      { $set: { releasedAt: new Date() } },
+      { session },
+    );
+  }
+
+  // Count a released usage again, for requests that went through after all
+  // (e.g. a payment confirmed after its order expired). The caps are not
+  // checked: the funds have already arrived.
+  async restore(
+    ownerModule: string,
+    ownerRef: string,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.usageModel.updateOne(
+      { ownerModule, ownerRef, releasedAt: { $ne: null } },
+      { $set: { releasedAt: null } },
+      { session },
+    );
+  }
+
+  async getAllowance(
+    userId: string,
+    currencySymbol?: string,
+  ): Promise<{ tier: string | null; limits: LimitAllowance[] }> {
+    const userObjectId = new Types.ObjectId(userId);
+    const profile = await this.resolveProfile(userObjectId);
+    const rules = (profile?.rules ?? []).filter(
+      (rule) => !currencySymbol || rule.currencySymbol === currencySymbol,
+    );
+
+    const limits = await Promise.all(
+      rules.map(async (rule) => {
+        const used = await this.usageOf(
+          userObjectId,
+          rule.currencySymbol,
+          rule.direction,
+        );
+        const windowOf = (period: LimitPeriod, cap: number | null) => ({
+          cap,
+          used: used[period],
+          remaining: cap == null ? null : this.remainingOf(cap, used[period]),
+        });
+        return {
+          currencySymbol: rule.currencySymbol,
+          direction: rule.direction,
+          minPerTransaction: rule.minPerTransaction,
+          maxPerTransaction: rule.maxPerTransaction,
+          daily: windowOf('daily', rule.dailyCap),
+          weekly: windowOf('weekly', rule.weeklyCap),
+          monthly: windowOf('monthly', rule.monthlyCap),
+        };
+      }),
+    );
+    return { tier: profile?.tier ?? null, limits };
+  }
+
+  async createProfile(
+    dto: CreateLimitProfileDto,
+  ): Promise<LimitProfileDocument> {
+    const existing = await this.profileModel.findOne({ tier: dto.tier });
+    if (existing) {
+      throw new ConflictException(
+        this.i18n.t('common.errors.limit_tier_exists'),
+      );
+    }
+    const rules = this.toRules(dto.rules);
+    if (dto.isDefault) await this.clearDefault();
+    return new this.profileModel({
+      name: dto.name,
+      tier: dto.tier,
+      isDefault: dto.isDefault ?? false,
+      rules,
+    }).save();
+  }
+
+  async updateProfile(
+    id: string,
+    dto: UpdateLimitProfileDto,
+  ): Promise<LimitProfileDocument> {
+    const profile = isValidObjectId(id)
+      ? await this.profileModel.findById(id)
+      : null;
+    if (!profile) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.limit_profile_not_found'),
+      );
+    }
+    if (dto.name !== undefined) profile.name = dto.name;
+    if (dto.rules !== undefined) profile.rules = this.toRules(dto.rules);
+    if (dto.isDefault !== undefined) {
+      if (dto.isDefault && !profile.isDefault) await this.clearDefault();
+      profile.isDefault = dto.isDefault;
+    }
+    return profile.save();
+  }
+
+  async findAllProfiles(): Promise<LimitProfileDocument[]> {
+    return this.profileModel.find().sort({ createdAt: 1 });
+  }
+
+  async assignTier(
+    userId: string,
+    dto: AssignLimitTierDto,
+  ): Promise<{ userId: string; tier: string | null }> {
+    const tier = dto.tier ?? null;
+    if (tier) {
+      const profile = await this.profileModel.findOne({ tier });
+      if (!profile) {
+        throw new NotFoundException(
+          this.i18n.t('common.errors.limit_profile_not_found'),
+        );
+      }
+    }
+    const user = isValidObjectId(userId)
+      ? await this.userModel.findOneAndUpdate(
+          { _id: userId, deletedAt: null },
+          { $set: { limitTier: tier } },
+          { new: true },
+        )
+      : null;
+    if (!user) {
+      throw new NotFoundException(this.i18n.t('common.errors.user_not_found'));
+    }
+    return { userId, tier };
+  }
+
+  private async resolveProfile(
+    userId: Types.ObjectId,
+  ): Promise<LimitProfileDocument | null> {
+    const user = await this.userModel
+      .findById(userId)
+      .select({ limitTier: 1 })
+      .lean<{ limitTier?: string | null }>();
+    const tiered = user?.limitTier
+      ? await this.profileModel.findOne({ tier: user.limitTier })
+      : null;
+    return tiered ?? this.profileModel.findOne({ isDefault: true });
+  }
+
+  private async findRule(
+    userId: Types.ObjectId,
+    currencySymbol: string,
+    direction: LimitDirection,
+  ): Promise<LimitRule | null> {
+    const profile = await this.resolveProfile(userId);
+    return (
+      profile?.rules.find(
+        (rule) =>
+          rule.currencySymbol === currencySymbol &&
+          rule.direction === direction,
+      ) ?? null
+    );
+  }
+
+  // Unreleased usage in each rolling window, from one pass over the longest
+  private async usageOf(
+    userId: Types.ObjectId,
+    currencySymbol: string,
+    direction: LimitDirection,
+  ): Promise<WindowUsage> {
+    const now = Date.now();
+    const longest = LIMIT_WINDOWS[LIMIT_WINDOWS.length - 1];
+    const sums: Record<string, unknown> = {};
+    for (const window of LIMIT_WINDOWS) {
+      sums[window.period] = {
+        $sum: {
+          $cond: [
+            { $gte: ['$createdAt', new Date(now - window.ms)] },
+            '$amount',
+            0,
+          ],
+        },
+      };
+    }
+
+    const [row] = await this.usageModel.aggregate<Record<string, unknown>>([
+      {
+        $match: {
+          userId,
+          currencySymbol,
+          direction,
+          releasedAt: null,
+          createdAt: { $gte: new Date(now - longest.ms) },
+        },
+      },
+      { $group: { _id: null, ...sums } },
+    ]);
+    return {
+      daily: decimalToNumber(row?.daily),
+      weekly: decimalToNumber(row?.weekly),
+      monthly: decimalToNumber(row?.monthly),
+    };
+  }
+
+  private remainingOf(cap: number, used: number): number {
+    return Math.max(0, subtractMoney(cap, [used], EXACT_PRECISION));
+  }
+
+  private toRules(dtos: LimitRuleDto[]): LimitRule[] {
+    const seen = new Set<string>();
+    return dtos.map((dto) => {
+      const key = `${dto.currencySymbol}:${dto.direction}`;
+      if (seen.has(key)) {
+        throw new BadRequestException(
+          this.i18n.t('common.errors.limit_rule_duplicate'),
+        );
+      }
+      seen.add(key);
+      if (
+        dto.minPerTransaction != null &&
+        dto.maxPerTransaction != null &&
+        dto.minPerTransaction > dto.maxPerTransaction
+      ) {
+        throw new BadRequestException(
+          this.i18n.t('common.errors.limit_min_above_max'),
+        );
+      }
+      return {
+        currencySymbol: dto.currencySymbol,
+        direction: dto.direction,
+        minPerTransaction: dto.minPerTransaction ?? null,
+        maxPerTransaction: dto.maxPerTransaction ?? null,
+        dailyCap: dto.dailyCap ?? null,
+        weeklyCap: dto.weeklyCap ?? null,
+        monthlyCap: dto.monthlyCap ?? null,
+      };
+    });
+  }
+
+  private async clearDefault(): Promise<void> {
+    await this.profileModel.updateMany(
+      { isDefault: true },
+      { $set: { isDefault: false } },
+    );
+  }
+}
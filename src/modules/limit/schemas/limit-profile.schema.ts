@@ -0,0 +1,85 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LimitProfileDocument = LimitProfile & Document;
+
+export enum LimitDirection {
+  // Money entering the platform (bank transfer, PayTabs)
+  DEPOSIT = 'DEPOSIT',
+  // Money leaving the platform (bank withdrawal)
+  WITHDRAWAL = 'WITHDRAWAL',
+}
+
+/**
+ * Limits for one currency and direction. A null value means no limit. Caps
+ * are rolling: daily covers the last 24 hours, weekly the last 7 days and
+ * monthly the last 30 days.
+ */
+@Schema({ _id: false })
+export class LimitRule {
+  @Prop({ required: true })
+  currencySymbol: string;
+
+  @Prop({ type: String, enum: LimitDirection, required: true })
+  direction: LimitDirection;
+
+  @Prop({ type: Number, default: null })
+  minPerTransaction: number | null;
+
+  @Prop({ type: Number, default: null })
+  maxPerTransaction: number | null;
+
+  @Prop({ type: Number, default: null })
+  dailyCap: number | null;
+
+  @Prop({ type: Number, default: null })
+  weeklyCap: number | null;
+
+  @Prop({ type: Number, default: null })
+  monthlyCap: number | null;
+}
+
+@Schema({
+  collection: 'LimitProfile',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class LimitProfile {
+  @Prop({ required: true })
+  name: string;
+
+  // Users are matched to a profile through `User.limitTier`
+  @Prop({ required: true, index: { unique: true } })
+  tier: string;
+
+  // Applies to users without a tier, or whose tier has no profile
+  @Prop({ default: false })
+  isDefault: boolean;
+
+  @Prop({ type: [LimitRule], default: [] })
+  rules: LimitRule[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const LimitProfileSchema = SchemaFactory.createForClass(LimitProfile);
+// At most one default profile
+LimitProfileSchema.index(
+  { isDefault: 1 },
+  { unique: true, partialFilterExpression: { isDefault: true } },
+);
@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { LimitDirection } from './limit-profile.schema';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type LimitUsageDocument = LimitUsage & Document;
+
+/**
+ * One deposit or withdrawal counted against a user's rolling caps. Usage is
+ * recorded when the operation is requested and released when it is refused,
+ * cancelled or fails, so it stops counting.
+ */
+@Schema({
+  collection: 'LimitUsage',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class LimitUsage {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  currencySymbol: string;
+
+  @Prop({ type: String, enum: LimitDirection, required: true })
+  direction: LimitDirection;
+
+  @Prop({ ...MoneyProp, required: true })
+  amount: number;
+
+  // Module that recorded the usage (e.g. 'withdrawal') and its own reference
+  @Prop({ required: true })
+  ownerModule: string;
+
+  @Prop({ required: true })
+  ownerRef: string;
+
+  @Prop({ type: Date, default: null })
+  releasedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const LimitUsageSchema = SchemaFactory.createForClass(LimitUsage);
+LimitUsageSchema.index({ ownerModule: 1, ownerRef: 1 }, { unique: true });
+LimitUsageSchema.index({
+  userId: 1,
+  currencySymbol: 1,
+  direction: 1,
+  createdAt: -1,
+});
@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ForceReleaseLockDto {
+  @ApiProperty({
+    description: 'Key of the held lock, as listed by GET /admin/locks/wallets',
+    example: 'wallet:64f1c2a3b4d5e6f7890abc12:USD',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  key: string;
+
+  @ApiProperty({
+    description: 'Why the lock is being released',
+    example: 'Holder instance crashed mid-deposit; lock blocks the wallet',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
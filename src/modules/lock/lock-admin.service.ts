@@ -0,0 +1,63 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  LockRelease,
+  LockReleaseDocument,
+} from './schemas/lock-release.schema';
+import { ForceReleaseLockDto } from './dto/force-release-lock.dto';
+import {
+  HeldLock,
+  LockStats,
+  RedisLockService,
+} from '../../common/services/internal/redis-lock.service';
+
+const WALLET_LOCK_PREFIX = 'wallet:';
+
+/**
+ * Admin tooling over the Redis locks: who holds the wallet locks and for how
+ * long, dropping a stuck one, and acquisition counters per key prefix.
+ */
+@Injectable()
+export class LockAdminService {
+  private readonly logger = new Logger(LockAdminService.name);
+
+  constructor(
+    @InjectModel(LockRelease.name)
+    private lockReleaseModel: Model<LockReleaseDocument>,
+    private readonly lockService: RedisLockService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async listWalletLocks(): Promise<HeldLock[]> {
+    return this.lockService.listHeld(WALLET_LOCK_PREFIX);
+  }
+
+  async getStats(): Promise<LockStats[]> {
+    return this.lockService.getStats();
+  }
+
+  async forceRelease(
+    dto: ForceReleaseLockDto,
+    adminId: string,
+  ): Promise<LockRelease> {
+    const holder = await this.lockService.forceRelease(dto.key);
+    if (!holder) {
+      throw new NotFoundException(this.i18n.t('common.errors.lock_not_held'));
+    }
+
+    this.logger.warn(
+      `Admin ${adminId} force-released lock ${dto.key} held by ${holder.holder ?? 'unknown'} for ${holder.operation ?? 'unknown operation'}`,
+    );
+    return this.lockReleaseModel.create({
+      key: dto.key,
+      operation: holder.operation,
+      requestId: holder.requestId,
+      holder: holder.holder,
+      acquiredAt: holder.acquiredAt ? new Date(holder.acquiredAt) : null,
+      releasedBy: adminId,
+      reason: dto.reason,
+    });
+  }
+}
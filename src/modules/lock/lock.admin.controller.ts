@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { LockAdminService } from './lock-admin.service';
+import { ForceReleaseLockDto } from './dto/force-release-lock.dto';
+import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
+import { ApiAcceptLanguage } from '../../common/decorators/api-accept-language.decorator';
+import { ApiSort } from '../../common/decorators/api-sort.decorator';
+
+@ApiTags('019- Locks (Admin)')
+@ApiAcceptLanguage()
+@Controller('admin/locks')
+@UseGuards(AdminJwtAuthGuard)
+@ApiBearerAuth('admin-access-token')
+export class LockAdminController {
+  constructor(private readonly lockAdminService: LockAdminService) {}
+
+  @Get('wallets')
+  @ApiSort(1)
+  @ApiOperation({
+    summary: 'Admin: List held wallet locks',
+    description:
+      'Wallet balance locks held right now, oldest first, with the operation, request id and app instance holding each and how long it has been held.',
+  })
+  @ApiResponse({ status: 200, description: 'Locks retrieved successfully' })
+  listWalletLocks() {
+    return this.lockAdminService.listWalletLocks();
+  }
+
+  @Post('release')
+  @ApiSort(2)
+  @ApiOperation({
+    summary: 'Admin: Force-release a stuck lock',
+    description:
+      'Drops the lock whoever holds it and records who released it and why. Writes the old holder still attempts are rejected by the balance fencing tokens.',
+  })
+  @ApiBody({ type: ForceReleaseLockDto })
+  @ApiResponse({ status: 201, description: 'Lock released' })
+  @ApiResponse({ status: 404, description: 'Lock is not held' })
+  forceRelease(
+    @Body() dto: ForceReleaseLockDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    return this.lockAdminService.forceRelease(dto, adminId);
+  }
+
+  @Get('stats')
+  @ApiSort(3)
+  @ApiOperation({
+    summary: 'Admin: Lock contention stats',
+    description:
+      'Per key prefix (wallet, limits, outbox, ...): locks acquired, acquired after retrying, given up on, force-released, and the average wait.',
+  })
+  @ApiResponse({ status: 200, description: 'Stats retrieved successfully' })
+  getStats() {
+    return this.lockAdminService.getStats();
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LockAdminService } from './lock-admin.service';
+import { LockAdminController } from './lock.admin.controller';
+import { LockRelease, LockReleaseSchema } from './schemas/lock-release.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LockRelease.name, schema: LockReleaseSchema },
+    ]),
+  ],
+  controllers: [LockAdminController],
+  providers: [LockAdminService],
+})
+export class LockModule {}
@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LockReleaseDocument = LockRelease & Document;
+
+// Audit record of a lock an admin force-released
+@Schema({
+  collection: 'LockRelease',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class LockRelease {
+  @Prop({ required: true, index: true })
+  key: string;
+
+  // What was recorded about the holder when the lock was dropped
+  @Prop({ type: String, default: null })
+  operation: string | null;
+
+  @Prop({ type: String, default: null })
+  requestId: string | null;
+
+  @Prop({ type: String, default: null })
+  holder: string | null;
+
+  @Prop({ type: Date, default: null })
+  acquiredAt: Date | null;
+
+  @Prop({ required: true })
+  releasedBy: string;
+
+  @Prop({ required: true })
+  reason: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const LockReleaseSchema = SchemaFactory.createForClass(LockRelease);
+LockReleaseSchema.index({ createdAt: -1 });
@@ -1,12 +1,17 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
   IsBoolean,
+  IsEnum,
+  IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
+  Max,
+  Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { RoundingMode } from '../../../common/enums/index';
 
 export class MetalLocalizedNameDto {
   @ApiProperty({
@@ -58,4 +63,26 @@ export class CreateMetalDto {
   @IsBoolean()
   @IsOptional()
   isActive?: boolean = true;
+
+  @ApiPropertyOptional({
+    description: 'Decimal places quantities are rounded to',
+    default: 3,
+    minimum: 0,
+    maximum: 18,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(18)
+  @IsOptional()
+  decimalPlaces?: number;
+
+  @ApiPropertyOptional({
+    description: 'Rounding mode applied to metal quantities',
+    enum: RoundingMode,
+    default: RoundingMode.HALF_UP,
+  })
+  @IsEnum(RoundingMode)
+  @IsOptional()
+  roundingMode?: RoundingMode;
 }
@@ -1,12 +1,16 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
   IsBoolean,
+  IsEnum,
   IsMongoId,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import { FeeType } from '../../../common/enums/index';
 
 export class LinkMetalCurrencyDto {
   @ApiProperty({
@@ -47,3 +51,59 @@ export class ToggleCurrencyActivationDto {
   @Min(0)
   price?: number;
 }
+
+export class TradeFeeDto {
+  @ApiPropertyOptional({ description: 'Whether the fee is charged' })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Type of fee calculation',
+    enum: FeeType,
+    example: FeeType.PERCENTAGE,
+  })
+  @IsOptional()
+  @IsEnum(FeeType)
+  type?: FeeType;
+
+  @ApiPropertyOptional({
+    description: 'Percentage of the trade value (0-100)',
+    example: 0.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  percentage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Fixed amount in the pricing currency',
+    example: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  fixedAmount?: number;
+}
+
+export class UpdateTradeFeesDto {
+  @ApiPropertyOptional({
+    description: 'Fee added to the cost of a buy',
+    type: TradeFeeDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TradeFeeDto)
+  buyFee?: TradeFeeDto;
+
+  @ApiPropertyOptional({
+    description: "Fee taken from a sell's proceeds",
+    type: TradeFeeDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TradeFeeDto)
+  sellFee?: TradeFeeDto;
+}
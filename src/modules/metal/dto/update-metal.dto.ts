@@ -6,9 +6,14 @@ import {
   IsString,
   ValidateNested,
   IsIn,
+  IsEnum,
+  IsInt,
+  Max,
+  Min,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import type { TransformFnParams } from 'class-transformer';
+import { RoundingMode } from '../../../common/enums/index';
 
 export class MetalLocalizedNameUpdateDto {
   @ApiPropertyOptional({
@@ -58,6 +63,26 @@ export class UpdateMetalDto {
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Decimal places quantities are rounded to',
+    minimum: 0,
+    maximum: 18,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(18)
+  @IsOptional()
+  decimalPlaces?: number;
+
+  @ApiPropertyOptional({
+    description: 'Rounding mode applied to metal quantities',
+    enum: RoundingMode,
+  })
+  @IsEnum(RoundingMode)
+  @IsOptional()
+  roundingMode?: RoundingMode;
 }
 
 export class AdminMetalQueryDto {
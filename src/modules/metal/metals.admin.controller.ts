@@ -29,6 +29,7 @@ import {
 import {
   LinkMetalCurrencyDto,
   ToggleCurrencyActivationDto,
+  UpdateTradeFeesDto,
 } from './dto/metal-currency.dto';
 import { Metal, MetalDocument } from './schemas/metal.schema';
 import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
@@ -160,6 +161,26 @@ export class MetalsAdminController {
     );
   }
 
+  @UseGuards(AdminJwtAuthGuard)
+  @Patch('admin/:metalId/currency/:currencyId/trade-fees')
+  @ApiSort(9)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Admin: Update buy and sell fees for a metal in a currency',
+  })
+  @ApiParam({ name: 'metalId', description: 'Metal ID' })
+  @ApiParam({ name: 'currencyId', description: 'Currency ID' })
+  @ApiBody({ description: 'Fee fields to update', type: UpdateTradeFeesDto })
+  @ApiResponse({ status: 200, description: 'Trade fees updated successfully' })
+  @ApiResponse({ status: 404, description: 'Metal or currency not found' })
+  async updateTradeFees(
+    @Param('metalId') metalId: string,
+    @Param('currencyId') currencyId: string,
+    @Body() dto: UpdateTradeFeesDto,
+  ) {
+    return this.metalsService.updateTradeFees(metalId, currencyId, dto);
+  }
+
   @UseGuards(AdminJwtAuthGuard)
   @Delete('admin/:id')
   @ApiSort(8)
@@ -8,6 +8,7 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model, FilterQuery, Types, isValidObjectId } from 'mongoose';
 import { Metal, MetalDocument, CurrencyPrice } from './schemas/metal.schema';
 import { CreateMetalDto } from './dto/create-metal.dto';
+import { UpdateTradeFeesDto } from './dto/metal-currency.dto';
 import {
   UpdateMetalDto,
   AdminMetalQueryDto,
@@ -128,6 +129,12 @@ export class MetalsService {
     if (dto.symbol !== undefined) update['symbol'] = dto.symbol;
     if (dto.purity !== undefined) update['purity'] = dto.purity;
     if (dto.isActive !== undefined) update['isActive'] = dto.isActive;
+    if (dto.decimalPlaces !== undefined) {
+      update['decimalPlaces'] = dto.decimalPlaces;
+    }
+    if (dto.roundingMode !== undefined) {
+      update['roundingMode'] = dto.roundingMode;
+    }
 
     const metal = await this.metalModel.findOneAndUpdate(
       { _id: id },
@@ -185,11 +192,12 @@ export class MetalsService {
       );
     }
 
+    // Trade fees start disabled through the schema defaults
     metal.currencies.push({
       currencyId: new Types.ObjectId(data.currencyId),
       price: data.price,
       currencyActive: data.currencyActive ?? true,
-    });
+    } as CurrencyPrice);
     await metal.save();
     return metal;
   }
@@ -255,6 +263,57 @@ export class MetalsService {
     return metal;
   }
 
+  async updateTradeFees(
+    metalId: string,
+    currencyId: string,
+    dto: UpdateTradeFeesDto,
+  ): Promise<Metal> {
+    if (!isValidObjectId(metalId) || !isValidObjectId(currencyId)) {
+      throw new BadRequestException(this.i18n.t('common.errors.invalid_id'));
+    }
+
+    // Update only the fields that are provided
+    const $set: Record<string, unknown> = {};
+    for (const side of ['buyFee', 'sellFee'] as const) {
+      const fee = dto[side];
+      if (!fee) continue;
+      for (const field of [
+        'enabled',
+        'type',
+        'percentage',
+        'fixedAmount',
+      ] as const) {
+        if (fee[field] !== undefined) {
+          $set[`currencies.$.${side}.${field}`] = fee[field];
+        }
+      }
+    }
+
+    const metal = await this.metalModel.findOneAndUpdate(
+      {
+        _id: metalId,
+        deletedAt: null,
+        'currencies.currencyId': new Types.ObjectId(currencyId),
+      },
+      { $set },
+      { new: true },
+    );
+    if (!metal) {
+      const exists = await this.metalModel.exists({
+        _id: metalId,
+        deletedAt: null,
+      });
+      throw new NotFoundException(
+        this.i18n.t(
+          exists
+            ? 'common.errors.currency_not_in_metal'
+            : 'common.errors.metal_not_found_or_deleted',
+        ),
+      );
+    }
+    return metal;
+  }
+
   async softDelete(id: string): Promise<void> {
     const metal = await this.metalModel.findOneAndUpdate(
       { _id: id, deletedAt: null },
@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { RoundingMode } from '../../../common/enums/index';
+import { PayTabsFees } from '../../currency/schemas/currency.schema';
 
 export type MetalDocument = Metal & Document;
 
@@ -22,6 +24,13 @@ export class CurrencyPrice {
 
   @Prop({ default: true })
   currencyActive: boolean;
+
+  // Fees charged in this currency on top of a buy / out of a sell's proceeds
+  @Prop({ type: PayTabsFees, default: {} })
+  buyFee: PayTabsFees;
+
+  @Prop({ type: PayTabsFees, default: {} })
+  sellFee: PayTabsFees;
 }
 
 @Schema({
@@ -105,6 +114,17 @@ export class Metal {
   @Prop({ default: true })
   isActive: boolean;
 
+  // Precision used to round quantities of this metal (e.g. grams)
+  @Prop({ type: Number, default: 3, min: 0, max: 18 })
+  decimalPlaces: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(RoundingMode),
+    default: RoundingMode.HALF_UP,
+  })
+  roundingMode: RoundingMode;
+
   @Prop({ type: [CurrencyPrice], default: [] })
   currencies: CurrencyPrice[];
 
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OutboxService } from './outbox.service';
+import { OutboxEvent, OutboxEventSchema } from './schemas/outbox-event.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OutboxEvent.name, schema: OutboxEventSchema },
+    ]),
+  ],
+  providers: [OutboxService],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
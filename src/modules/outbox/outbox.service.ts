@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
+import {
+  OutboxEvent,
+  OutboxEventDocument,
+  OutboxEventStatus,
+} from './schemas/outbox-event.schema';
+import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import { TransactionType } from '../wallet/schemas/transaction.schema';
+
+const DISPATCH_LOCK_KEY = 'outbox:dispatch';
+const DISPATCH_LOCK_TTL_MS = 60 * 1000;
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export enum OutboxEventType {
+  WALLET_CREDITED = 'WalletCredited',
+  WALLET_DEBITED = 'WalletDebited',
+  WITHDRAWAL_COMPLETED = 'WithdrawalCompleted',
+}
+
+export interface WalletMovedPayload {
+  accountId: string;
+  userId: string;
+  assetSymbol: string;
+  amount: number;
+  transactionType: TransactionType;
+  journalEntryId: string;
+  idempotencyKey: string;
+}
+
+export interface WithdrawalCompletedPayload {
+  withdrawalId: string;
+  userId: string;
+  currencySymbol: string;
+  amount: number;
+  feeAmount: number;
+  taxAmount: number;
+  journalEntryIds: string[];
+}
+
+export interface OutboxEventPayloads {
+  [OutboxEventType.WALLET_CREDITED]: WalletMovedPayload;
+  [OutboxEventType.WALLET_DEBITED]: WalletMovedPayload;
+  [OutboxEventType.WITHDRAWAL_COMPLETED]: WithdrawalCompletedPayload;
+}
+
+export type OutboxMessage = {
+  [T in OutboxEventType]: { type: T; payload: OutboxEventPayloads[T] };
+}[OutboxEventType];
+
+// `eventId` is stable across retries, for handlers that must not repeat work
+export type OutboxHandler<T extends OutboxEventType> = (
+  payload: OutboxEventPayloads[T],
+  eventId: string,
+) => Promise<void>;
+
+/**
+ * Transactional outbox for wallet domain events.
+ *
+ * Flows record events with `add` inside the same Mongo transaction as the
+ * ledger changes they describe, so an event exists if and only if the
+ * changes committed. The dispatcher then hands each pending event to the
+ * handlers other modules registered with `subscribe`, retrying with backoff
+ * until every handler succeeds. Delivery is at-least-once: a handler can see
+ * the same event again after a failure elsewhere.
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly handlers = new Map<
+    OutboxEventType,
+    Array<OutboxHandler<OutboxEventType>>
+  >();
+
+  constructor(
+    @InjectModel(OutboxEvent.name)
+    private outboxModel: Model<OutboxEventDocument>,
+    private readonly lockService: RedisLockService,
+  ) {}
+
+  async add(messages: OutboxMessage[], session: ClientSession): Promise<void> {
+    if (messages.length === 0) return;
+    await this.outboxModel.insertMany(
+      messages.map(({ type, payload }) => ({ type, payload })),
+      { session },
+    );
+  }
+
+  subscribe<T extends OutboxEventType>(
+    type: T,
+    handler: OutboxHandler<T>,
+  ): void {
+    const handlers = this.handlers.get(type) ?? [];
+    handlers.push(handler as OutboxHandler<OutboxEventType>);
+    this.handlers.set(type, handlers);
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS, { name: 'outbox-dispatch' })
+  async dispatchPending(): Promise<void> {
+    // One instance dispatches at a time
+    const token = await this.lockService.acquire(
+      DISPATCH_LOCK_KEY,
+      DISPATCH_LOCK_TTL_MS,
+      'outbox-dispatch',
+    );
+    if (!token) return;
+
+    try {
+      const events = await this.outboxModel
+        .find({
+          status: OutboxEventStatus.PENDING,
+          nextAttemptAt: { $lte: new Date() },
+        })
+        .sort({ nextAttemptAt: 1 })
+        .limit(BATCH_SIZE);
+      for (const event of events) {
+        await this.dispatch(event);
+        // Keep the lease for the rest of the batch; once it is lost another
+        // instance may already be dispatching the same events
+        const renewed = await this.lockService.renew(
+          DISPATCH_LOCK_KEY,
+          token,
+          DISPATCH_LOCK_TTL_MS,
+        );
+        if (!renewed) {
+          this.logger.warn(
+            'Outbox dispatch lock lost, leaving the rest of the batch',
+          );
+          return;
+        }
+      }
+    } catch (err) {
+      this.logger.error(
+        `Outbox dispatch run failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    } finally {
+      await this.lockService.release(DISPATCH_LOCK_KEY, token);
+    }
+  }
+
+  private async dispatch(event: OutboxEventDocument): Promise<void> {
+    const eventId = (event._id as Types.ObjectId).toHexString();
+    const handlers = this.handlers.get(event.type as OutboxEventType) ?? [];
+    try {
+      for (const handler of handlers) {
+        await handler(
+          event.payload as unknown as OutboxEventPayloads[OutboxEventType],
+          eventId,
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const attempts = event.attempts + 1;
+      const failed = attempts >= MAX_ATTEMPTS;
+      await this.outboxModel.updateOne(
+        { _id: event._id },
+        {
+          attempts,
+          lastError: message,
+          status: failed ? OutboxEventStatus.FAILED : OutboxEventStatus.PENDING,
+          nextAttemptAt: new Date(Date.now() + this.retryDelayOf(attempts)),
+        },
+      );
+      this.logger.warn(
+        `Outbox event ${eventId} (${event.type}) failed attempt ${attempts}${failed ? ', giving up' : ''}: ${message}`,
+      );
+      return;
+    }
+
+    await this.outboxModel.updateOne(
+      { _id: event._id },
+      {
+        attempts: event.attempts + 1,
+        status: OutboxEventStatus.PUBLISHED,
+        publishedAt: new Date(),
+        lastError: null,
+      },
+    );
+  }
+
+  private retryDelayOf(attempts: number): number {
+    return Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type OutboxEventDocument = OutboxEvent & Document;
+
+export enum OutboxEventStatus {
+  // Waiting for the dispatcher, possibly after failed attempts
+  PENDING = 'PENDING',
+  PUBLISHED = 'PUBLISHED',
+  // Gave up after the maximum number of attempts
+  FAILED = 'FAILED',
+}
+
+@Schema({
+  collection: 'OutboxEvent',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class OutboxEvent {
+  // One of OutboxEventType
+  @Prop({ required: true })
+  type: string;
+
+  @Prop({ type: Object, required: true })
+  payload: Record<string, unknown>;
+
+  @Prop({
+    type: String,
+    enum: OutboxEventStatus,
+    default: OutboxEventStatus.PENDING,
+  })
+  status: OutboxEventStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  // Not picked up by the dispatcher before this time (retry backoff)
+  @Prop({ type: Date, default: () => new Date() })
+  nextAttemptAt: Date;
+
+  @Prop({ type: String, default: null })
+  lastError: string | null;
+
+  @Prop({ type: Date, default: null })
+  publishedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const OutboxEventSchema = SchemaFactory.createForClass(OutboxEvent);
+OutboxEventSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboxEventSchema.index({ type: 1, createdAt: -1 });
@@ -12,6 +12,7 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { FeeType } from 'src/common/enums/index';
+import { PaginationQueryDto } from 'src/common/dto/pagination.dto';
 
 export enum PayTabsTransactionType {
   SALE = 'sale',
@@ -445,3 +446,13 @@ export class UpdateCurrencyPayTabsDto {
   @Type(() => PayTabsFeesDto)
   paytabTax?: PayTabsFeesDto;
 }
+
+export class GetExpiredDepositOrdersDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only orders of this user',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  userId?: string;
+}
@@ -1,5 +1,6 @@
 import {
   Controller,
+  Get,
   Patch,
   Body,
   Param,
@@ -7,6 +8,7 @@ import {
   HttpCode,
   HttpStatus,
   NotFoundException,
+  Query,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -20,11 +22,16 @@ import {
   Currency,
   CurrencyDocument,
 } from '../currency/schemas/currency.schema';
-import { UpdateCurrencyPayTabsDto } from './dto/paytabs.dto';
+import {
+  GetExpiredDepositOrdersDto,
+  UpdateCurrencyPayTabsDto,
+} from './dto/paytabs.dto';
+import { PayTabsService } from './paytabs.service';
 import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
 import { I18nContext } from 'nestjs-i18n';
 import { ApiSort } from 'src/common/decorators/api-sort.decorator';
 import { ApiAcceptLanguage } from 'src/common/decorators/api-accept-language.decorator';
+import { ApiPagination } from 'src/common/decorators/api-pagination.decorator';
 @ApiTags('013- PayTabs (Admin)')
 @ApiAcceptLanguage()
 @Controller('admin/paytabs')
@@ -33,6 +40,7 @@ import { ApiAcceptLanguage } from 'src/common/decorators/api-accept-language.dec
 export class AdminPayTabsController {
   constructor(
     @InjectModel(Currency.name) private currencyModel: Model<CurrencyDocument>,
+    private readonly payTabsService: PayTabsService,
   ) {}
 
   @Patch('currency/:currencyId')
@@ -75,4 +83,20 @@ export class AdminPayTabsController {
       currency,
     };
   }
+
+  @Get('deposit-orders/expired')
+  @ApiSort(2)
+  @ApiOperation({
+    summary: 'List expired PayTabs deposit orders',
+    description:
+      'Deposit orders that were never paid and were expired by the pending order sweeper, newest first, with their payment.',
+  })
+  @ApiPagination()
+  @ApiResponse({
+    status: 200,
+    description: 'Expired deposit orders retrieved successfully',
+  })
+  getExpiredDepositOrders(@Query() query: GetExpiredDepositOrdersDto) {
+    return this.payTabsService.getExpiredDepositOrders(query);
+  }
 }
@@ -31,6 +31,7 @@ import { ApiAcceptLanguage } from 'src/common/decorators/api-accept-language.dec
 import { SuccessMessage } from 'src/common/decorators/success-message.decorator';
 import { DepositViaPayTabsDto } from '../wallet/dto/deposit-via-paytabs.dto';
 import { WalletSubtype } from '../wallet/dto/create-wallet.dto';
+import { Idempotent } from 'src/common/decorators/idempotent.decorator';
 
 @ApiTags('013- PayTabs')
 @ApiAcceptLanguage()
@@ -85,6 +86,7 @@ export class PayTabsController {
   // Direct deposit into MAIN wallet via PayTabs (moved from WalletController)
   @UseGuards(JwtAuthGuard)
   @Post('deposit')
+  @Idempotent()
   @ApiSort(2)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('user-access-token')
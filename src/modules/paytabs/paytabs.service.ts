@@ -7,6 +7,7 @@ import {
   forwardRef,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import axios, { AxiosError } from 'axios';
@@ -21,6 +22,7 @@ import {
   CurrencyDocument,
 } from '../currency/schemas/currency.schema';
 import {
+  DepositType,
   WalletDepositOrder,
   WalletDepositOrderDocument,
 } from '../wallet/schemas/wallet-deposit-order.schema';
@@ -31,9 +33,28 @@ import {
   CustomerDetailsInputDto,
   EstimatePaymentDto,
   EstimatePaymentResponseDto,
+  GetExpiredDepositOrdersDto,
 } from './dto/paytabs.dto';
 import { I18nService } from 'nestjs-i18n';
 import { WalletService } from '../wallet/wallet.service';
+import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import { MongoService } from '../../common/services/internal/mongo.service';
+import { createPaginatedResponse } from '../../common/dto/pagination.dto';
+import {
+  MoneyPrecision,
+  addMoney,
+  calculateFee,
+  precisionOf,
+  roundMoney,
+} from '../../common/utils/money';
+
+const EXPIRY_LOCK_KEY = 'paytabs:deposit-order-expiry';
+const EXPIRY_LOCK_TTL_MS = 5 * 60 * 1000;
+const EXPIRY_BATCH_SIZE = 100;
+// Gateway statuses of a payment that may still complete
+const GATEWAY_PENDING_STATUSES = ['P', 'H'];
+// Gateway statuses of a payment that was refused rather than abandoned
+const GATEWAY_CANCELLED_STATUSES = ['D', 'E', 'V', 'C'];
 
 interface PayTabsPaymentResult {
   response_code?: string;
@@ -79,6 +100,7 @@ export class PayTabsService {
   private readonly serverKey: string;
   private readonly region: string;
   private readonly callbackUrl: string;
+  private readonly depositOrderTtlMs: number;
 
   constructor(
     @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
@@ -89,12 +111,18 @@ export class PayTabsService {
     private readonly i18n: I18nService,
     @Inject(forwardRef(() => WalletService))
     private readonly walletService: WalletService,
+    private readonly lockService: RedisLockService,
+    private readonly mongo: MongoService,
   ) {
     this.profileId = this.configService.get<string>('paytabs.profileId') || '';
     this.serverKey = this.configService.get<string>('paytabs.serverKey') || '';
     this.region = this.configService.get<string>('paytabs.region') || 'SAU';
     this.callbackUrl =
       this.configService.get<string>('paytabs.callbackUrl') || '';
+    this.depositOrderTtlMs =
+      (this.configService.get<number>('paytabs.depositOrderTtlMinutes') || 60) *
+      60 *
+      1000;
   }
 
   private getPayTabsUrl(): string {
@@ -143,23 +171,27 @@ export class PayTabsService {
     }
 
     // Calculate fees if enabled
-    let totalAmount = createPaymentDto.amount;
+    const precision = precisionOf(cur);
+    const baseAmount = roundMoney(createPaymentDto.amount, precision);
+    let totalAmount = baseAmount;
     if (cur.paytab.paytabFees?.enabled) {
       const fees = this.calculateFees(
-        createPaymentDto.amount,
+        baseAmount,
         cur.paytab.paytabFees as PayTabsFeeStructure,
+        precision,
       );
-      totalAmount += fees;
+      totalAmount = addMoney([totalAmount, fees], precision);
       this.logger.log(`Calculated fees: ${fees}, Total amount: ${totalAmount}`);
     }
 
     // Calculate taxes if enabled (same handling as fees)
     if (cur.paytab.paytabTax?.enabled) {
       const tax = this.calculateFees(
-        createPaymentDto.amount,
+        baseAmount,
         cur.paytab.paytabTax as PayTabsFeeStructure,
+        precision,
       );
-      totalAmount += tax;
+      totalAmount = addMoney([totalAmount, tax], precision);
       this.logger.log(`Calculated tax: ${tax}, Total amount: ${totalAmount}`);
     }
 
@@ -333,14 +365,18 @@ export class PayTabsService {
       );
     }
 
-    const baseAmount: number = amount;
+    const precision = precisionOf(cur);
+    const baseAmount: number = roundMoney(amount, precision);
     const feesAmount: number = cur.paytab.paytabFees?.enabled
-      ? this.calculateFees(baseAmount, cur.paytab.paytabFees)
+      ? this.calculateFees(baseAmount, cur.paytab.paytabFees, precision)
       : 0;
     const taxAmount: number = cur.paytab.paytabTax?.enabled
-      ? this.calculateFees(baseAmount, cur.paytab.paytabTax)
+      ? this.calculateFees(baseAmount, cur.paytab.paytabTax, precision)
       : 0;
-    const finalAmount: number = baseAmount + feesAmount + taxAmount;
+    const finalAmount: number = addMoney(
+      [baseAmount, feesAmount, taxAmount],
+      precision,
+    );
 
     return {
       currency: cur.symbol,
@@ -353,20 +389,12 @@ export class PayTabsService {
     };
   }
 
-  private calculateFees(amount: number, fees: PayTabsFeeStructure): number {
-    let totalFees = 0;
-    if (!fees?.enabled) {
-      return totalFees;
-    }
-    if (fees.type === 'percentage' || fees.type === 'hybrid') {
-      totalFees += (amount * (fees.percentage || 0)) / 100;
-    }
-
-    if (fees.type === 'fixed' || fees.type === 'hybrid') {
-      totalFees += fees.fixedAmount || 0;
-    }
-
-    return totalFees;
+  private calculateFees(
+    amount: number,
+    fees: PayTabsFeeStructure,
+    precision: MoneyPrecision,
+  ): number {
+    return calculateFee(amount, fees, precision);
   }
 
   async handleWebhook(
@@ -400,6 +428,11 @@ export class PayTabsService {
         `Payment status determined: ${paymentStatus} for transaction ${webhookData.tran_ref}`,
       );
 
+      // A declined deposit no longer counts against the user's limits
+      if (orderType === 'WALLET_DEPOSIT' && !isSuccessful) {
+        await this.walletService.releaseDepositLimit(orderId);
+      }
+
       // Handle wallet deposit via PayTabs
       if (orderType === 'WALLET_DEPOSIT' && isSuccessful) {
         try {
@@ -524,6 +557,158 @@ export class PayTabsService {
     }
   }
 
+  /**
+   * Settles wallet deposit orders whose webhook never arrived. Orders older
+   * than the configured TTL are checked with PayTabs: payments that went
+   * through are credited, payments still pending at the gateway are left for
+   * the next run, and the rest are expired and their limit usage released.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'paytabs-deposit-expiry' })
+  async expireStaleDepositOrders(): Promise<void> {
+    // One instance sweeps at a time
+    const token = await this.lockService.acquire(
+      EXPIRY_LOCK_KEY,
+      EXPIRY_LOCK_TTL_MS,
+      'paytabs-deposit-expiry',
+    );
+    if (!token) return;
+
+    try {
+      const orders = await this.walletDepositOrderModel
+        .find({
+          depositType: DepositType.PAYTAB,
+          processed: false,
+          expiredAt: null,
+          createdAt: { $lte: new Date(Date.now() - this.depositOrderTtlMs) },
+        })
+        .sort({ createdAt: 1 })
+        .limit(EXPIRY_BATCH_SIZE);
+      let credited = 0;
+      let expired = 0;
+      for (const order of orders) {
+        try {
+          const outcome = await this.settleStaleDepositOrder(order);
+          if (outcome === PaymentStatus.SUCCESS) credited++;
+          if (outcome === PaymentStatus.EXPIRED) expired++;
+        } catch (err) {
+          // Gateway or ledger errors are retried on the next run
+          this.logger.warn(
+            `Could not settle deposit order ${order.orderId}: ${err instanceof Error ? err.message : String(err)}`,
+          );
+        }
+      }
+      if (credited > 0 || expired > 0) {
+        this.logger.log(
+          `Stale deposit orders: ${credited} credited, ${expired} expired`,
+        );
+      }
+    } catch (err) {
+      this.logger.error(
+        `Deposit order expiry run failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    } finally {
+      await this.lockService.release(EXPIRY_LOCK_KEY, token);
+    }
+  }
+
+  async getExpiredDepositOrders(query: GetExpiredDepositOrdersDto) {
+    const page = query.page ?? 0;
+    const limit = query.limit ?? 10;
+
+    const filter: Record<string, unknown> = {
+      depositType: DepositType.PAYTAB,
+      expiredAt: { $ne: null },
+    };
+    if (query.userId) filter.userId = new Types.ObjectId(query.userId);
+
+    const [orders, total] = await Promise.all([
+      this.walletDepositOrderModel
+        .find(filter)
+        .sort({ expiredAt: -1 })
+        .skip(page * limit)
+        .limit(limit)
+        .populate({ path: 'paymentId', model: Payment.name })
+        .exec(),
+      this.walletDepositOrderModel.countDocuments(filter),
+    ]);
+    return createPaginatedResponse(orders, page, limit, total);
+  }
+
+  // Returns SUCCESS when credited, EXPIRED when expired, PENDING when skipped
+  private async settleStaleDepositOrder(
+    order: WalletDepositOrderDocument,
+  ): Promise<PaymentStatus> {
+    const payment = order.paymentId
+      ? await this.paymentModel.findById(order.paymentId)
+      : null;
+
+    if (payment?.transactionId) {
+      const details = await this.getTransactionDetails(payment.transactionId);
+      if (this.isPaymentSuccessful(details)) {
+        await this.walletService.processDepositFromWebhook(
+          payment.transactionId,
+        );
+        await this.paymentModel.updateOne(
+          { _id: payment._id },
+          {
+            paymentStatus: PaymentStatus.SUCCESS,
+            ...this.resultFieldsOf(details),
+          },
+        );
+        return PaymentStatus.SUCCESS;
+      }
+
+      const gatewayStatus = (
+        details.payment_result?.response_status ||
+        details.response_status ||
+        ''
+      ).toUpperCase();
+      if (GATEWAY_PENDING_STATUSES.includes(gatewayStatus)) {
+        return PaymentStatus.PENDING;
+      }
+
+      // Keep a final status the webhook already recorded
+      if (payment.paymentStatus === PaymentStatus.PENDING) {
+        await this.paymentModel.updateOne(
+          { _id: payment._id },
+          {
+            paymentStatus: GATEWAY_CANCELLED_STATUSES.includes(gatewayStatus)
+              ? PaymentStatus.CANCELLED
+              : PaymentStatus.EXPIRED,
+            ...this.resultFieldsOf(details),
+          },
+        );
+      }
+    }
+
+    // Expire the order and stop counting it in one transaction: a payment
+    // credited at the same time either commits first, or sees the order
+    // expired and counts it again
+    const expired = await this.mongo.withTransaction(
+      async (session) => {
+        const result = await this.walletDepositOrderModel.updateOne(
+          { _id: order._id, processed: false, expiredAt: null },
+          { expiredAt: new Date() },
+          { session },
+        );
+        if (result.modifiedCount === 0) return false;
+        await this.walletService.releaseDepositLimit(order.orderId, session);
+        return true;
+      },
+      { operation: `paytabs-deposit-expiry:${order.orderId}` },
+    );
+    return expired ? PaymentStatus.EXPIRED : PaymentStatus.PENDING;
+  }
+
+  private resultFieldsOf(details: PayTabsTransactionDetails) {
+    return {
+      code: details.payment_result?.response_code || details.response_code,
+      responseMessage: details.payment_result?.response_message,
+      responseStatus:
+        details.payment_result?.response_status || details.response_status,
+    };
+  }
+
   private async getTransactionDetails(
     tranRef: string,
   ): Promise<PayTabsTransactionDetails> {
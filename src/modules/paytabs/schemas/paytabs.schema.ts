@@ -9,6 +9,7 @@ export enum PaymentStatus {
   FAILED = 'failed',
   CANCELLED = 'cancelled',
   REFUNDED = 'refunded',
+  EXPIRED = 'expired',
 }
 
 export enum PaymentType {
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  MessageEvent,
+  Request,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { ApiSort } from '../../common/decorators/api-sort.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { type Request as ExpressRequest } from 'express';
+import { SkipEnvelope } from '../../common/decorators/skip-envelope.decorator';
+
+@ApiTags('018- Realtime')
+@Controller('realtime')
+export class RealtimeController {
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  @UseGuards(JwtAuthGuard)
+  @Sse('my/events')
+  @ApiSort(1)
+  @ApiBearerAuth('user-access-token')
+  @ApiProduces('text/event-stream')
+  @ApiOperation({
+    summary: 'Stream my wallet events',
+    description:
+      'Server-Sent Events stream of the current user. Emits balance-changed, deposit-order-processed and withdrawal-status-changed events, plus a heartbeat every 25 seconds. Send the access token in the Authorization header.',
+  })
+  @ApiResponse({ status: 200, description: 'Event stream opened' })
+  @SkipEnvelope()
+  streamMyEvents(
+    @Request() req: ExpressRequest & { user: { id: string } },
+  ): Observable<MessageEvent> {
+    return this.realtimeService.stream(req.user.id);
+  }
+}
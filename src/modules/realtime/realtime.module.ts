@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { RealtimeService } from './realtime.service';
+import { RealtimeController } from './realtime.controller';
+
+@Module({
+  controllers: [RealtimeController],
+  providers: [RealtimeService],
+  exports: [RealtimeService],
+})
+export class RealtimeModule {}
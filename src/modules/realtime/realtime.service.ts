@@ -0,0 +1,133 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { Observable, Subject, interval, map, merge } from 'rxjs';
+import { RedisService } from '../../common/services/internal/redis.service';
+import { Balance } from '../wallet/schemas/balance.schema';
+
+const CHANNEL_PREFIX = 'realtime:user:';
+// Keeps proxies from closing idle streams
+const HEARTBEAT_MS = 25000;
+
+export enum RealtimeEventType {
+  BALANCE_CHANGED = 'balance-changed',
+  DEPOSIT_ORDER_PROCESSED = 'deposit-order-processed',
+  WITHDRAWAL_STATUS_CHANGED = 'withdrawal-status-changed',
+}
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: Record<string, unknown>;
+}
+
+interface UserStream {
+  subject: Subject<RealtimeEvent>;
+  listeners: number;
+}
+
+/**
+ * Pushes wallet events to the signed-in user's open SSE streams.
+ *
+ * Events are published on a per-user Redis channel so every app instance
+ * sees them. Each instance subscribes to a user's channel while that user
+ * has at least one stream open on it and fans the events out locally.
+ * Publishing is best-effort: it never fails the operation that triggered it.
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+  private readonly streams = new Map<string, UserStream>();
+
+  constructor(private readonly redis: RedisService) {}
+
+  async publish(
+    userId: Types.ObjectId | string,
+    type: RealtimeEventType,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      await this.redis.publish(
+        this.channelOf(String(userId)),
+        JSON.stringify({ type, data }),
+      );
+    } catch (err) {
+      this.logger.warn(
+        `Could not publish ${type} for user ${String(userId)}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  // Balances of system accounts have no user to notify
+  async publishBalance(
+    userId: Types.ObjectId | null | undefined,
+    balance: Balance,
+  ): Promise<void> {
+    if (!userId) return;
+    await this.publish(userId, RealtimeEventType.BALANCE_CHANGED, {
+      accountId: balance.accountId.toHexString(),
+      assetSymbol: balance.assetSymbol,
+      available: balance.available,
+      reserved: balance.reserved,
+    });
+  }
+
+  stream(userId: string): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      const { subject } = this.join(userId);
+      const subscription = merge(
+        subject.pipe(map((event) => ({ type: event.type, data: event.data }))),
+        interval(HEARTBEAT_MS).pipe(
+          map(() => ({ type: 'heartbeat', data: {} })),
+        ),
+      ).subscribe(subscriber);
+
+      return () => {
+        subscription.unsubscribe();
+        this.leave(userId);
+      };
+    });
+  }
+
+  private join(userId: string): UserStream {
+    const existing = this.streams.get(userId);
+    if (existing) {
+      existing.listeners++;
+      return existing;
+    }
+
+    const stream: UserStream = {
+      subject: new Subject<RealtimeEvent>(),
+      listeners: 1,
+    };
+    this.streams.set(userId, stream);
+    this.redis
+      .subscribe(this.channelOf(userId), (message) => {
+        stream.subject.next(JSON.parse(message) as RealtimeEvent);
+      })
+      .catch((err: unknown) => {
+        // Ends the user's streams; clients reconnect and subscribe again
+        this.logger.error(
+          `Could not subscribe to events of user ${userId}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        this.streams.delete(userId);
+        stream.subject.error(err);
+      });
+    return stream;
+  }
+
+  private leave(userId: string): void {
+    const stream = this.streams.get(userId);
+    if (!stream || --stream.listeners > 0) return;
+
+    this.streams.delete(userId);
+    stream.subject.complete();
+    this.redis.unsubscribe(this.channelOf(userId)).catch((err: unknown) => {
+      this.logger.warn(
+        `Could not unsubscribe from events of user ${userId}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    });
+  }
+
+  private channelOf(userId: string): string {
+    return `${CHANNEL_PREFIX}${userId}`;
+  }
+}
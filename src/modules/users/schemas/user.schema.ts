@@ -224,6 +224,10 @@ export class User {
   @Prop({ enum: SupportedLanguage, default: SupportedLanguage.EN })
   language: SupportedLanguage;
 
+  // Deposit/withdrawal limit profile; null uses the default profile
+  @Prop({ type: String, default: null })
+  limitTier: string | null;
+
   @Prop({ type: Date, default: null })
   deletedAt: Date | null;
 
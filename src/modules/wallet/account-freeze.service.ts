@@ -0,0 +1,219 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types, isValidObjectId } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  Account,
+  AccountDocument,
+  AccountStatus,
+  AccountType,
+} from './schemas/account.schema';
+import {
+  AccountFreezeAction,
+  AccountFreezeHistory,
+  AccountFreezeHistoryDocument,
+} from './schemas/account-freeze-history.schema';
+import { FreezeAccountDto } from './dto/freeze-account.dto';
+import { UnfreezeAccountDto } from './dto/unfreeze-account.dto';
+import { MongoService } from '../../common/services/internal/mongo.service';
+import {
+  PaginationQueryDto,
+  createPaginatedResponse,
+} from '../../common/dto/pagination.dto';
+
+// Recorded as the lifter when a freeze runs past its expiry
+const EXPIRY_LIFTER = 'system';
+
+/**
+ * Admin freezes on wallet accounts.
+ *
+ * A frozen wallet refuses every debit. Credits are refused too unless the
+ * freeze was placed with `allowCredits`. The checks themselves live next to
+ * the Account schema (`isDebitBlocked` / `isCreditBlocked`) so modules that
+ * post to wallets without going through WalletService can apply them.
+ *
+ * The account keeps only the freeze in effect. Every freeze and lift is also
+ * written to AccountFreezeHistory in the same transaction.
+ */
+@Injectable()
+export class AccountFreezeService {
+  private readonly logger = new Logger(AccountFreezeService.name);
+
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(AccountFreezeHistory.name)
+    private historyModel: Model<AccountFreezeHistoryDocument>,
+    private readonly mongo: MongoService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async freeze(
+    accountId: string,
+    dto: FreezeAccountDto,
+    adminId: string,
+  ): Promise<AccountDocument> {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.freeze_expiry_in_past'),
+      );
+    }
+
+    // Freezing a frozen wallet replaces the terms of the current freeze
+    const account = await this.findWallet(accountId);
+    const allowCredits = dto.allowCredits ?? false;
+    account.status = AccountStatus.FROZEN;
+    account.freeze = {
+      reason: dto.reason,
+      frozenBy: adminId,
+      frozenAt: new Date(),
+      expiresAt,
+      allowCredits,
+    };
+    return this.mongo.withTransaction(
+      async (session) => {
+        await this.record(
+          {
+            accountId: account._id as Types.ObjectId,
+            action: AccountFreezeAction.FREEZE,
+            reason: dto.reason,
+            changedBy: adminId,
+            expiresAt,
+            allowCredits,
+          },
+          session,
+        );
+        return account.save({ session });
+      },
+      { operation: `account-freeze:${accountId}` },
+    );
+  }
+
+  async unfreeze(
+    accountId: string,
+    dto: UnfreezeAccountDto,
+    adminId: string,
+  ): Promise<AccountDocument> {
+    const account = await this.findWallet(accountId);
+    if (account.status !== AccountStatus.FROZEN || !account.freeze) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.wallet_not_frozen'),
+      );
+    }
+    account.status = AccountStatus.ACTIVE;
+    account.freeze = null;
+    return this.mongo.withTransaction(
+      async (session) => {
+        await this.record(
+          {
+            accountId: account._id as Types.ObjectId,
+            action: AccountFreezeAction.LIFT,
+            reason: dto.reason,
+            changedBy: adminId,
+          },
+          session,
+        );
+        return account.save({ session });
+      },
+      { operation: `account-freeze:${accountId}` },
+    );
+  }
+
+  async findHistory(accountId: string, query: PaginationQueryDto) {
+    const page = query.page ?? 0;
+    const limit = query.limit ?? 10;
+    const account = await this.findWallet(accountId);
+
+    const filter = { accountId: account._id };
+    const [items, total] = await Promise.all([
+      this.historyModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(page * limit)
+        .limit(limit),
+      this.historyModel.countDocuments(filter),
+    ]);
+    return createPaginatedResponse(items, page, limit, total);
+  }
+
+  /**
+   * Debit and credit checks already ignore expired freezes; this only brings
+   * the stored status back in line so listings show the wallet as active.
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'expired-account-freezes' })
+  async liftExpiredFreezes(): Promise<void> {
+    const expired = {
+      status: AccountStatus.FROZEN,
+      'freeze.expiresAt': { $ne: null, $lte: new Date() },
+    };
+    try {
+      let lifted = 0;
+      const accounts = this.accountModel.find(expired).select('_id').cursor();
+      for await (const { _id } of accounts) {
+        // Skipped when an admin re-froze or lifted it in the meantime
+        const done = await this.mongo.withTransaction(
+          async (session) => {
+            const account = await this.accountModel.findOneAndUpdate(
+              { _id, ...expired },
+              { $set: { status: AccountStatus.ACTIVE, freeze: null } },
+              { session },
+            );
+            if (!account) return false;
+            await this.record(
+              {
+                accountId: _id as Types.ObjectId,
+                action: AccountFreezeAction.LIFT,
+                reason: 'Freeze expired',
+                changedBy: EXPIRY_LIFTER,
+              },
+              session,
+            );
+            return true;
+          },
+          { operation: `account-freeze:${String(_id)}` },
+        );
+        if (done) lifted++;
+      }
+      if (lifted > 0) {
+        this.logger.log(`Lifted ${lifted} expired freezes`);
+      }
+    } catch (err) {
+      this.logger.error(
+        `Lifting expired freezes failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  private async record(
+    entry: Pick<
+      AccountFreezeHistory,
+      'accountId' | 'action' | 'reason' | 'changedBy'
+    > &
+      Partial<Pick<AccountFreezeHistory, 'expiresAt' | 'allowCredits'>>,
+    session: ClientSession,
+  ): Promise<void> {
+    await new this.historyModel(entry).save({ session });
+  }
+
+  private async findWallet(accountId: string): Promise<AccountDocument> {
+    const account = isValidObjectId(accountId)
+      ? await this.accountModel.findOne({
+          _id: new Types.ObjectId(accountId),
+          type: AccountType.WALLET,
+          deletedAt: null,
+        })
+      : null;
+    if (!account) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    return account;
+  }
+}
@@ -0,0 +1,305 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, isValidObjectId } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  Account,
+  AccountDocument,
+  AccountType,
+  isCreditBlocked,
+  isDebitBlocked,
+} from './schemas/account.schema';
+import { Balance, assetType } from './schemas/balance.schema';
+import {
+  JournalEntry,
+  JournalEntryDocument,
+} from './schemas/journal-entry.schema';
+import {
+  TransactionTitle,
+  TransactionType,
+} from './schemas/transaction.schema';
+import {
+  Currency,
+  CurrencyDocument,
+} from '../currency/schemas/currency.schema';
+import { Metal, MetalDocument } from '../metal/schemas/metal.schema';
+import { WalletService } from './wallet.service';
+import { ReverseJournalEntryDto } from './dto/reverse-journal-entry.dto';
+import {
+  AdjustmentDirection,
+  ManualAdjustmentDto,
+} from './dto/manual-adjustment.dto';
+import { LedgerAsset, LedgerService } from '../ledger/ledger.service';
+import {
+  DEFAULT_METAL_PRECISION,
+  precisionOf,
+  roundMoney,
+} from '../../common/utils/money';
+
+interface PostingLeg {
+  account: AccountDocument;
+  title: TransactionTitle;
+}
+
+interface Posting {
+  debit: PostingLeg;
+  credit: PostingLeg;
+  asset: LedgerAsset;
+  amount: number;
+  // REVERSAL or ADJUSTMENT, on both legs
+  type: TransactionType;
+  idempotencyKey: string;
+  reversalOfId?: Types.ObjectId;
+  relatedEntryId?: Types.ObjectId | null;
+  reason: string;
+  postedBy: string;
+}
+
+/**
+ * Admin corrections to the ledger: reversals of existing journal entries and
+ * manual credit / debit adjustments against the TREASURY account.
+ *
+ * Both post through the ledger engine like normal flows, as a single
+ * JournalEntry.
+ */
+@Injectable()
+export class AdjustmentService {
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(JournalEntry.name)
+    private journalModel: Model<JournalEntryDocument>,
+    @InjectModel(Currency.name) private currencyModel: Model<CurrencyDocument>,
+    @InjectModel(Metal.name) private metalModel: Model<MetalDocument>,
+    private readonly walletService: WalletService,
+    private readonly ledgerService: LedgerService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async reverseJournalEntry(
+    entryId: string,
+    dto: ReverseJournalEntryDto,
+    adminId: string,
+  ): Promise<JournalEntry> {
+    const original = isValidObjectId(entryId)
+      ? await this.journalModel.findById(entryId)
+      : null;
+    if (!original) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.journal_entry_not_found'),
+      );
+    }
+
+    // One reversal per entry: a repeated request returns the first one
+    const idempotencyKey = `reversal-${entryId}`;
+    const existing = await this.journalModel.findOne({ idempotencyKey });
+    if (existing) return existing;
+
+    if (original.reversalOfId) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.journal_entry_is_reversal'),
+      );
+    }
+    if (original.reversedById) {
+      throw new ConflictException(
+        this.i18n.t('common.errors.journal_entry_already_reversed'),
+      );
+    }
+
+    const [debitAccount, creditAccount] = await Promise.all([
+      // The reversal takes the money back from the original credit side
+      this.accountModel.findById(original.creditAccountId),
+      this.accountModel.findById(original.debitAccountId),
+    ]);
+    if (!debitAccount || !creditAccount) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+
+    const title: TransactionTitle = {
+      en: 'Reversal of a previous entry',
+      ar: 'عكس قيد سابق',
+    };
+    return this.post({
+      debit: { account: debitAccount, title },
+      credit: { account: creditAccount, title },
+      asset: {
+        assetType: original.assetType as assetType,
+        assetId: original.assetId,
+        assetSymbol: original.assetSymbol,
+      },
+      amount: original.amount,
+      type: TransactionType.REVERSAL,
+      idempotencyKey,
+      reversalOfId: original._id as Types.ObjectId,
+      reason: dto.reason,
+      postedBy: adminId,
+    });
+  }
+
+  async postAdjustment(
+    dto: ManualAdjustmentDto,
+    adminId: string,
+  ): Promise<{ journal: JournalEntry; balance: Balance }> {
+    const account = await this.accountModel.findOne({
+      _id: new Types.ObjectId(dto.accountId),
+      type: AccountType.WALLET,
+      deletedAt: null,
+    });
+    if (!account) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    if (dto.relatedEntryId) {
+      const related = await this.journalModel.exists({
+        _id: new Types.ObjectId(dto.relatedEntryId),
+      });
+      if (!related) {
+        throw new NotFoundException(
+          this.i18n.t('common.errors.journal_entry_not_found'),
+        );
+      }
+    }
+
+    const idempotencyKey = `adjustment-${dto.idempotencyKey}`;
+    const existing = await this.journalModel.findOne({ idempotencyKey });
+    if (!existing) {
+      const { asset, amount } = await this.resolveAsset(
+        dto.assetSymbol,
+        dto.amount,
+      );
+      const treasury = await this.walletService.ensureSystemTreasury();
+      const walletTitle: TransactionTitle =
+        dto.direction === AdjustmentDirection.CREDIT
+          ? { en: 'Balance adjustment (credit)', ar: 'تسوية رصيد (إضافة)' }
+          : { en: 'Balance adjustment (debit)', ar: 'تسوية رصيد (خصم)' };
+      const treasuryTitle: TransactionTitle = {
+        en: 'Manual balance adjustment',
+        ar: 'تسوية رصيد يدوية',
+      };
+      const walletLeg = { account, title: walletTitle };
+      const treasuryLeg = { account: treasury, title: treasuryTitle };
+
+      await this.post({
+        debit:
+          dto.direction === AdjustmentDirection.CREDIT
+            ? treasuryLeg
+            : walletLeg,
+        credit:
+          dto.direction === AdjustmentDirection.CREDIT
+            ? walletLeg
+            : treasuryLeg,
+        asset,
+        amount,
+        type: TransactionType.ADJUSTMENT,
+        idempotencyKey,
+        relatedEntryId: dto.relatedEntryId
+          ? new Types.ObjectId(dto.relatedEntryId)
+          : null,
+        reason: dto.reason,
+        postedBy: adminId,
+      });
+    }
+
+    const [journal, balance] = await Promise.all([
+      this.journalModel.findOne({ idempotencyKey }),
+      this.walletService.getBalance(dto.accountId, dto.assetSymbol),
+    ]);
+    if (!journal) {
+      throw new ConflictException(
+        this.i18n.t('common.errors.adjustment_failed'),
+      );
+    }
+    return { journal, balance };
+  }
+
+  private async resolveAsset(
+    assetSymbol: string,
+    rawAmount: number,
+  ): Promise<{ asset: LedgerAsset; amount: number }> {
+    const currency = await this.currencyModel.findOne({
+      symbol: assetSymbol,
+      deletedAt: null,
+    });
+    if (currency) {
+      return {
+        asset: {
+          assetType: assetType.CURRENCY,
+          assetId: currency._id as Types.ObjectId,
+          assetSymbol,
+        },
+        amount: roundMoney(rawAmount, precisionOf(currency)),
+      };
+    }
+    const metal = await this.metalModel.findOne({
+      symbol: assetSymbol,
+      deletedAt: null,
+    });
+    if (!metal) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.currency_not_found'),
+      );
+    }
+    return {
+      asset: {
+        assetType: assetType.METAL,
+        assetId: metal._id as Types.ObjectId,
+        assetSymbol,
+      },
+      amount: roundMoney(
+        rawAmount,
+        precisionOf(metal, DEFAULT_METAL_PRECISION),
+      ),
+    };
+  }
+
+  private async post(posting: Posting): Promise<JournalEntryDocument> {
+    const { asset, amount, type } = posting;
+    // Reversals and adjustments respect freezes like any other posting
+    if (isDebitBlocked(posting.debit.account)) {
+      throw new ForbiddenException(this.i18n.t('common.errors.wallet_frozen'));
+    }
+    if (isCreditBlocked(posting.credit.account)) {
+      throw new ForbiddenException(
+        this.i18n.t('common.errors.wallet_frozen_for_credits'),
+      );
+    }
+
+    const { entries } = await this.ledgerService.post({
+      idempotencyKey: posting.idempotencyKey,
+      legs: [
+        { ...posting.debit, asset, amount: -amount, type, suffix: '' },
+        { ...posting.credit, asset, amount, type, suffix: '' },
+      ],
+      busyMessage: 'common.errors.adjustment_failed',
+      entryFields: {
+        reversalOfId: posting.reversalOfId ?? null,
+        relatedEntryId: posting.relatedEntryId ?? null,
+        reason: posting.reason,
+        postedBy: posting.postedBy,
+      },
+      afterPost: async ([journal], session) => {
+        if (!posting.reversalOfId) return;
+        // Guards against a concurrent reversal of the same entry
+        const marked = await this.journalModel.findOneAndUpdate(
+          { _id: posting.reversalOfId, reversedById: null },
+          { $set: { reversedById: journal._id } },
+          { session },
+        );
+        if (!marked) {
+          throw new ConflictException(
+            this.i18n.t('common.errors.journal_entry_already_reversed'),
+          );
+        }
+      },
+    });
+    return entries[0];
+  }
+}
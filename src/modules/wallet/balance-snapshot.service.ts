@@ -0,0 +1,224 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, isValidObjectId } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import { Account, AccountDocument } from './schemas/account.schema';
+import { Balance, BalanceDocument } from './schemas/balance.schema';
+import {
+  Transaction,
+  TransactionDirection,
+  TransactionDocument,
+} from './schemas/transaction.schema';
+import {
+  BalanceSnapshot,
+  BalanceSnapshotDocument,
+} from './schemas/balance-snapshot.schema';
+import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import {
+  EXACT_PRECISION,
+  addMoney,
+  decimalToNumber,
+  subtractMoney,
+} from '../../common/utils/money';
+
+const SNAPSHOT_LOCK_KEY = 'balance-snapshots:daily';
+const SNAPSHOT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+export interface BalanceAsOf {
+  accountId: string;
+  assetSymbol: string;
+  at: Date;
+  balance: number;
+  // Snapshot the balance was derived from (null when replayed from the start)
+  snapshotAsOf: Date | null;
+}
+
+interface MovementGroup {
+  _id: Types.ObjectId | null;
+  // Decimal128 when summing money fields
+  total: unknown;
+}
+
+/**
+ * Daily balance snapshots and balance-at-a-point-in-time queries.
+ *
+ * A snapshot holds `available + locked + reserved` for one balance at the
+ * start of a UTC day, the same total that DEPOSIT / WITHDRAWAL transactions
+ * move. The balance at any timestamp is the nearest earlier snapshot plus the
+ * net transactions since then.
+ */
+@Injectable()
+export class BalanceSnapshotService {
+  private readonly logger = new Logger(BalanceSnapshotService.name);
+
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(Balance.name) private balanceModel: Model<BalanceDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(BalanceSnapshot.name)
+    private snapshotModel: Model<BalanceSnapshotDocument>,
+    private readonly lockService: RedisLockService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT, {
+    name: 'balance-snapshots',
+    timeZone: 'UTC',
+  })
+  async takeDailySnapshots(): Promise<void> {
+    // Only one instance should write the day's snapshots
+    const token = await this.lockService.acquire(
+      SNAPSHOT_LOCK_KEY,
+      SNAPSHOT_LOCK_TTL_MS,
+      'balance-snapshots',
+    );
+    if (!token) return;
+
+    const now = new Date();
+    const asOf = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+    try {
+      const count = await this.snapshotAll(asOf);
+      this.logger.log(
+        `Stored ${count} balance snapshots as of ${asOf.toISOString()}`,
+      );
+    } catch (err) {
+      this.logger.error(
+        `Balance snapshot run failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    } finally {
+      await this.lockService.release(SNAPSHOT_LOCK_KEY, token);
+    }
+  }
+
+  /**
+   * Snapshot every balance at `asOf`. Transactions written after the cut-off
+   * (while the job runs) are backed out of the live balance. Re-running for
+   * the same cut-off overwrites the earlier snapshot.
+   */
+  async snapshotAll(asOf: Date): Promise<number> {
+    const laterMovements = await this.transactionModel.aggregate<MovementGroup>(
+      [
+        { $match: { createdAt: { $gt: asOf } } },
+        { $group: { _id: '$balanceId', total: this.netAmountExpression() } },
+      ],
+    );
+    const movedSince = new Map(
+      laterMovements.map((m) => [String(m._id), decimalToNumber(m.total)]),
+    );
+
+    let count = 0;
+    for await (const balance of this.balanceModel.find().cursor()) {
+      const current = addMoney(
+        [balance.available, balance.locked, balance.reserved],
+        EXACT_PRECISION,
+      );
+      const atCutOff = subtractMoney(
+        current,
+        [movedSince.get(String(balance._id)) ?? 0],
+        EXACT_PRECISION,
+      );
+      await this.snapshotModel.updateOne(
+        { balanceId: balance._id, asOf },
+        {
+          $set: {
+            accountId: balance.accountId,
+            assetType: balance.assetType,
+            assetId: balance.assetId,
+            assetSymbol: balance.assetSymbol,
+            balance: atCutOff,
+          },
+        },
+        { upsert: true },
+      );
+      count++;
+    }
+    return count;
+  }
+
+  async getBalanceAsOf(
+    accountId: string,
+    assetSymbol: string,
+    at: Date,
+  ): Promise<BalanceAsOf> {
+    const account = isValidObjectId(accountId)
+      ? await this.accountModel.findOne({ _id: accountId, deletedAt: null })
+      : null;
+    if (!account) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    return this.computeBalanceAsOf(accountId, assetSymbol, at);
+  }
+
+  async getBalanceAsOfForUser(
+    accountId: string,
+    userId: string,
+    assetSymbol: string,
+    at: Date,
+  ): Promise<BalanceAsOf> {
+    const account = isValidObjectId(accountId)
+      ? await this.accountModel.findOne({
+          _id: accountId,
+          userId: new Types.ObjectId(userId),
+          deletedAt: null,
+        })
+      : null;
+    if (!account) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    return this.computeBalanceAsOf(accountId, assetSymbol, at);
+  }
+
+  async computeBalanceAsOf(
+    accountId: string,
+    assetSymbol: string,
+    at: Date,
+  ): Promise<BalanceAsOf> {
+    const accountObjectId = new Types.ObjectId(accountId);
+    const snapshot = await this.snapshotModel
+      .findOne({
+        accountId: accountObjectId,
+        assetSymbol,
+        asOf: { $lte: at },
+      })
+      .sort({ asOf: -1 });
+
+    const createdAt: Record<string, Date> = { $lte: at };
+    if (snapshot) createdAt.$gt = snapshot.asOf;
+    const [movement] = await this.transactionModel.aggregate<MovementGroup>([
+      { $match: { accountId: accountObjectId, assetSymbol, createdAt } },
+      { $group: { _id: null, total: this.netAmountExpression() } },
+    ]);
+
+    return {
+      accountId,
+      assetSymbol,
+      at,
+      balance: addMoney(
+        [snapshot?.balance ?? 0, decimalToNumber(movement?.total)],
+        EXACT_PRECISION,
+      ),
+      snapshotAsOf: snapshot?.asOf ?? null,
+    };
+  }
+
+  // Credits add to the balance, debits take from it
+  private netAmountExpression() {
+    return {
+      $sum: {
+        $cond: [
+          { $eq: ['$direction', TransactionDirection.CREDIT] },
+          '$amount',
+          { $multiply: ['$amount', -1] },
+        ],
+      },
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WalletSubtype } from './create-wallet.dto';
+
+export class CurrencyExchangeDto {
+  @ApiProperty({ description: 'Currency to convert from', example: 'USD' })
+  @IsString()
+  @IsNotEmpty()
+  fromSymbol: string;
+
+  @ApiProperty({ description: 'Currency to convert to', example: 'SAR' })
+  @IsString()
+  @IsNotEmpty()
+  toSymbol: string;
+
+  @ApiProperty({
+    description: 'Amount of the source currency to convert',
+    example: 100,
+  })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Wallet holding both balances',
+    enum: WalletSubtype,
+    example: WalletSubtype.MAIN,
+    required: false,
+    default: WalletSubtype.MAIN,
+  })
+  @IsOptional()
+  @IsEnum(WalletSubtype)
+  walletSubtype?: WalletSubtype;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicate conversions',
+    example: 'fx-2025-11-14-abc123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey: string;
+}
@@ -0,0 +1,37 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class FreezeAccountDto {
+  @ApiProperty({
+    description: 'Why the wallet is being frozen',
+    example: 'Compliance review of incoming transfers',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description:
+      'When the freeze lapses on its own (ISO 8601). Omit to freeze until lifted.',
+    example: '2025-04-30T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Keep accepting deposits and incoming transfers while frozen',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowCredits?: boolean;
+}
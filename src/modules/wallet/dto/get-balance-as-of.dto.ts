@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString } from 'class-validator';
+
+export class GetBalanceAsOfDto {
+  @ApiProperty({
+    description: 'Point in time to compute the balance for (ISO 8601)',
+    example: '2025-03-31T23:59:59.999Z',
+  })
+  @IsDateString()
+  at: string;
+}
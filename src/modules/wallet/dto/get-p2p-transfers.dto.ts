@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsInt, IsIn, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class GetP2PTransfersDto {
+  @ApiPropertyOptional({
+    description: 'Only transfers I sent or only transfers I received',
+    enum: ['sent', 'received'],
+  })
+  @IsOptional()
+  @IsIn(['sent', 'received'])
+  direction?: 'sent' | 'received';
+
+  @ApiPropertyOptional({
+    description: 'Limit results',
+    example: 50,
+    default: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Offset for pagination',
+    example: 0,
+    default: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsMongoId, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+import { ReconciliationStatus } from '../schemas/reconciliation-run.schema';
+
+export class GetReconciliationRunsDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only runs scoped to this account',
+    example: '64f1c2a3b4d5e6f7890abc12',
+  })
+  @IsOptional()
+  @IsMongoId()
+  accountId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by run status',
+    enum: ReconciliationStatus,
+  })
+  @IsOptional()
+  @IsEnum(ReconciliationStatus)
+  status?: ReconciliationStatus;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsMongoId,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export enum StatementFormat {
+  CSV = 'csv',
+  PDF = 'pdf',
+}
+
+export class GetStatementDto {
+  @ApiProperty({ description: 'Asset symbol', example: 'USD' })
+  @IsString()
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'Start date (ISO 8601)',
+    example: '2025-01-01T00:00:00.000Z',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({
+    description: 'End date (ISO 8601)',
+    example: '2025-03-31T23:59:59.999Z',
+  })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({
+    description: 'File format',
+    enum: StatementFormat,
+    example: StatementFormat.PDF,
+  })
+  @IsEnum(StatementFormat)
+  format: StatementFormat;
+
+  @ApiPropertyOptional({
+    description:
+      'Limit the statement to one wallet (defaults to all my wallets)',
+    example: '60f7b2f6a8b1c60012d4c8e2',
+  })
+  @IsOptional()
+  @IsMongoId()
+  accountId?: string;
+}
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class GetSystemAccountInflowsDto {
+  @ApiPropertyOptional({ description: 'Asset symbol filter', example: 'USD' })
+  @IsOptional()
+  @IsString()
+  assetSymbol?: string;
+
+  @ApiPropertyOptional({
+    description: 'Start date (ISO 8601)',
+    example: '2025-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'End date (ISO 8601)',
+    example: '2025-12-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
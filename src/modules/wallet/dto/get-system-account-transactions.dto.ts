@@ -0,0 +1,47 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+import {
+  TransactionDirection,
+  TransactionType,
+} from '../schemas/transaction.schema';
+
+export class GetSystemAccountTransactionsDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Asset symbol filter', example: 'USD' })
+  @IsOptional()
+  @IsString()
+  assetSymbol?: string;
+
+  @ApiPropertyOptional({
+    description: 'Transaction type filter',
+    enum: TransactionType,
+    example: TransactionType.FEE,
+  })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @ApiPropertyOptional({
+    description: 'Only credits or only debits',
+    enum: TransactionDirection,
+  })
+  @IsOptional()
+  @IsEnum(TransactionDirection)
+  direction?: TransactionDirection;
+
+  @ApiPropertyOptional({
+    description: 'Start date (ISO 8601)',
+    example: '2025-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'End date (ISO 8601)',
+    example: '2025-12-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
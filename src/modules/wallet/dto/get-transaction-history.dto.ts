@@ -1,6 +1,10 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsInt, Min, Max } from 'class-validator';
+import { IsEnum, IsOptional, IsString, IsInt, Min, Max } from 'class-validator';
 import { Type } from 'class-transformer';
+import {
+  TransactionDirection,
+  TransactionType,
+} from '../schemas/transaction.schema';
 
 export class GetTransactionHistoryDto {
   @ApiPropertyOptional({ description: 'Asset symbol filter', example: 'USD' })
@@ -8,6 +12,23 @@ export class GetTransactionHistoryDto {
   @IsString()
   assetSymbol?: string;
 
+  @ApiPropertyOptional({
+    description: 'Transaction type filter',
+    enum: TransactionType,
+    example: TransactionType.FEE,
+  })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @ApiPropertyOptional({
+    description: 'Only credits or only debits',
+    enum: TransactionDirection,
+  })
+  @IsOptional()
+  @IsEnum(TransactionDirection)
+  direction?: TransactionDirection;
+
   @ApiPropertyOptional({
     description: 'Limit results',
     example: 50,
@@ -1,5 +1,6 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import {
+  IsEnum,
   IsOptional,
   IsString,
   IsInt,
@@ -8,6 +9,10 @@ import {
   Max,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import {
+  TransactionDirection,
+  TransactionType,
+} from '../schemas/transaction.schema';
 
 export class GetTransactionsReportDto {
   @ApiPropertyOptional({ description: 'Asset symbol filter', example: 'USD' })
@@ -15,6 +20,23 @@ export class GetTransactionsReportDto {
   @IsString()
   assetSymbol?: string;
 
+  @ApiPropertyOptional({
+    description: 'Transaction type filter',
+    enum: TransactionType,
+    example: TransactionType.FEE,
+  })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @ApiPropertyOptional({
+    description: 'Only credits or only debits',
+    enum: TransactionDirection,
+  })
+  @IsOptional()
+  @IsEnum(TransactionDirection)
+  direction?: TransactionDirection;
+
   @ApiPropertyOptional({
     description: 'Start date (ISO 8601)',
     example: '2025-01-01T00:00:00.000Z',
@@ -0,0 +1,45 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WalletSubtype } from './create-wallet.dto';
+
+export class InternalTransferDto {
+  @ApiProperty({
+    description: 'Source wallet subtype (debited)',
+    enum: WalletSubtype,
+    example: WalletSubtype.MAIN,
+  })
+  @IsEnum(WalletSubtype)
+  fromSubtype: WalletSubtype;
+
+  @ApiProperty({
+    description: 'Destination wallet subtype (credited)',
+    enum: WalletSubtype,
+    example: WalletSubtype.TRADING,
+  })
+  @IsEnum(WalletSubtype)
+  toSubtype: WalletSubtype;
+
+  @ApiProperty({ description: 'Asset symbol to transfer', example: 'USD' })
+  @IsString()
+  @IsNotEmpty()
+  assetSymbol: string;
+
+  @ApiProperty({ description: 'Transfer amount (positive)', example: 100 })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicate transfers',
+    example: 'trf-2025-11-14-abc123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey: string;
+}
@@ -0,0 +1,67 @@
+import {
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum AdjustmentDirection {
+  CREDIT = 'CREDIT',
+  DEBIT = 'DEBIT',
+}
+
+export class ManualAdjustmentDto {
+  @ApiProperty({
+    description: 'Wallet Account ID to adjust',
+    example: '64f1c2a3b4d5e6f7890abc12',
+  })
+  @IsMongoId()
+  accountId: string;
+
+  @ApiProperty({ description: 'Asset symbol', example: 'USD' })
+  @IsString()
+  @IsNotEmpty()
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'CREDIT adds to the wallet, DEBIT takes from it',
+    enum: AdjustmentDirection,
+  })
+  @IsEnum(AdjustmentDirection)
+  direction: AdjustmentDirection;
+
+  @ApiProperty({ description: 'Adjustment amount (positive)', example: 25 })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Why the adjustment is being made',
+    example: 'Bank deposit approved as 1000 instead of 100',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Journal entry this adjustment corrects',
+    example: '64f1c2a3b4d5e6f7890abc34',
+  })
+  @IsOptional()
+  @IsMongoId()
+  relatedEntryId?: string;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicates',
+    example: 'adj-2025-11-14-abc123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey: string;
+}
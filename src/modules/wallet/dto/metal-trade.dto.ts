@@ -0,0 +1,33 @@
+import { IsNotEmpty, IsNumber, IsPositive, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MetalTradeDto {
+  @ApiProperty({ description: 'Metal symbol to buy or sell', example: 'XAU' })
+  @IsString()
+  @IsNotEmpty()
+  metalSymbol: string;
+
+  @ApiProperty({
+    description: 'Currency the trade is priced and settled in',
+    example: 'USD',
+  })
+  @IsString()
+  @IsNotEmpty()
+  currencySymbol: string;
+
+  @ApiProperty({
+    description: "Quantity of metal, in the metal's unit (e.g. grams)",
+    example: 2.5,
+  })
+  @IsNumber()
+  @IsPositive()
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicate trades',
+    example: 'trade-2025-11-14-abc123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey: string;
+}
@@ -0,0 +1,60 @@
+import {
+  IsEmail,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class P2PTransferDto {
+  @ApiPropertyOptional({
+    description: 'Recipient email (required when recipientUserId is absent)',
+    example: 'friend@example.com',
+  })
+  @ValidateIf((o: P2PTransferDto) => !o.recipientUserId)
+  @IsEmail()
+  recipientEmail?: string;
+
+  @ApiPropertyOptional({
+    description: 'Recipient user ID (required when recipientEmail is absent)',
+    example: '64f1c2a3b4d5e6f7890abc12',
+  })
+  @ValidateIf((o: P2PTransferDto) => !o.recipientEmail)
+  @IsMongoId()
+  recipientUserId?: string;
+
+  @ApiProperty({ description: 'Asset symbol to send', example: 'USD' })
+  @IsString()
+  @IsNotEmpty()
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'Amount the recipient receives (fees are added on top)',
+    example: 50,
+  })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Optional note shown to the recipient',
+    example: 'Dinner split',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicate transfers',
+    example: 'p2p-2025-11-14-abc123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey: string;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReverseJournalEntryDto {
+  @ApiProperty({
+    description: 'Why the entry is being reversed',
+    example: 'PayTabs deposit credited twice (tran_ref TST123)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
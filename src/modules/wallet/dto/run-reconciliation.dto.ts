@@ -0,0 +1,12 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsMongoId, IsOptional } from 'class-validator';
+
+export class RunReconciliationDto {
+  @ApiPropertyOptional({
+    description: 'Reconcile a single account (omit to reconcile all accounts)',
+    example: '64f1c2a3b4d5e6f7890abc12',
+  })
+  @IsOptional()
+  @IsMongoId()
+  accountId?: string;
+}
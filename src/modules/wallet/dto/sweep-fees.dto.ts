@@ -0,0 +1,57 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// System accounts whose collected fees can be swept to settlement
+export enum SweepSource {
+  FEES = 'FEES',
+  FX_SPREAD = 'FX_SPREAD',
+}
+
+export class SweepFeesDto {
+  @ApiProperty({
+    description: 'System account to sweep from',
+    enum: SweepSource,
+    example: SweepSource.FEES,
+  })
+  @IsEnum(SweepSource)
+  source: SweepSource;
+
+  @ApiProperty({ description: 'Asset symbol', example: 'USD' })
+  @IsString()
+  @IsNotEmpty()
+  assetSymbol: string;
+
+  @ApiPropertyOptional({
+    description: 'Amount to sweep; defaults to the whole available balance',
+    example: 1500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Why the sweep is being made',
+    example: 'Monthly fee settlement to operating account',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicates',
+    example: 'sweep-2025-11-fees-usd',
+  })
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey: string;
+}
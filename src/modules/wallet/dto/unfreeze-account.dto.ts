@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnfreezeAccountDto {
+  @ApiProperty({
+    description: 'Why the freeze is being lifted',
+    example: 'Compliance review closed with no findings',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
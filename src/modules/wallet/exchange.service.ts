@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  Account,
+  AccountDocument,
+  AccountType,
+  isCreditBlocked,
+  isDebitBlocked,
+} from './schemas/account.schema';
+import { Balance, assetType } from './schemas/balance.schema';
+import { TransactionType } from './schemas/transaction.schema';
+import {
+  CurrencyExchange,
+  CurrencyExchangeDocument,
+} from './schemas/currency-exchange.schema';
+import {
+  Currency,
+  CurrencyDocument,
+} from '../currency/schemas/currency.schema';
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+} from '../currency/schemas/exchange-rate.schema';
+import { WalletService } from './wallet.service';
+import { WalletSubtype } from './dto/create-wallet.dto';
+import { CurrencyExchangeDto } from './dto/currency-exchange.dto';
+import {
+  LedgerAsset,
+  LedgerLeg,
+  LedgerService,
+} from '../ledger/ledger.service';
+import {
+  multiplyMoney,
+  percentOf,
+  precisionOf,
+  roundMoney,
+  subtractMoney,
+} from '../../common/utils/money';
+
+// System account that collects the FX spread
+const FX_SPREAD_SUBTYPE = 'FX_SPREAD';
+
+export interface CurrencyExchangeResult {
+  exchange: CurrencyExchange;
+  fromBalance: Balance;
+  toBalance: Balance;
+}
+
+/**
+ * Converting between two currency balances of the same wallet at the
+ * admin-set rate for the pair.
+ *
+ * The TREASURY account takes the source currency and pays out the target
+ * currency; the spread is taken from the payout and goes to the FX_SPREAD
+ * system account. All three movements go out as one ledger posting, each as
+ * its own JournalEntry.
+ */
+@Injectable()
+export class ExchangeService {
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(CurrencyExchange.name)
+    private exchangeModel: Model<CurrencyExchangeDocument>,
+    @InjectModel(Currency.name) private currencyModel: Model<CurrencyDocument>,
+    @InjectModel(ExchangeRate.name)
+    private rateModel: Model<ExchangeRateDocument>,
+    private readonly walletService: WalletService,
+    private readonly ledgerService: LedgerService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async convert(
+    userId: string,
+    dto: CurrencyExchangeDto,
+  ): Promise<CurrencyExchangeResult> {
+    const wallet = await this.accountModel.findOne({
+      type: AccountType.WALLET,
+      userId: new Types.ObjectId(userId),
+      subtype: dto.walletSubtype ?? WalletSubtype.MAIN,
+      deletedAt: null,
+    });
+    if (!wallet) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    const walletIdStr = (wallet._id as Types.ObjectId).toHexString();
+
+    // Scope the client key per user so two users can't collide on the same key
+    const idempotencyKey = `fx-${userId}-${dto.idempotencyKey}`;
+    const existing = await this.exchangeModel.findOne({ idempotencyKey });
+    if (existing) {
+      return this.withBalances(existing, walletIdStr);
+    }
+
+    if (dto.fromSymbol === dto.toSymbol) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.exchange_same_currency'),
+      );
+    }
+    // A conversion both debits and credits the wallet
+    if (isDebitBlocked(wallet)) {
+      throw new ForbiddenException(this.i18n.t('common.errors.wallet_frozen'));
+    }
+    if (isCreditBlocked(wallet)) {
+      throw new ForbiddenException(
+        this.i18n.t('common.errors.wallet_frozen_for_credits'),
+      );
+    }
+
+    const [from, to] = await Promise.all([
+      this.currencyModel.findOne({
+        symbol: dto.fromSymbol,
+        isActive: true,
+        deletedAt: null,
+      }),
+      this.currencyModel.findOne({
+        symbol: dto.toSymbol,
+        isActive: true,
+        deletedAt: null,
+      }),
+    ]);
+    if (!from || !to) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.currency_not_found'),
+      );
+    }
+    // Only the configured direction is quoted; the inverse is not derived
+    const quote = await this.rateModel.findOne({
+      baseSymbol: from.symbol,
+      quoteSymbol: to.symbol,
+      isActive: true,
+    });
+    if (!quote) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.exchange_rate_unavailable'),
+      );
+    }
+
+    const toPrecision = precisionOf(to);
+    const fromAmount = roundMoney(dto.amount, precisionOf(from));
+    const grossAmount = multiplyMoney(fromAmount, quote.rate, toPrecision);
+    const spreadAmount = percentOf(
+      grossAmount,
+      quote.spreadPercentage,
+      toPrecision,
+    );
+    const toAmount = subtractMoney(grossAmount, [spreadAmount], toPrecision);
+    if (fromAmount <= 0 || toAmount <= 0) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.exchange_amount_too_small'),
+      );
+    }
+
+    const treasury = await this.walletService.ensureSystemTreasury();
+    const fxSpread =
+      await this.walletService.ensureSystemTreasury(FX_SPREAD_SUBTYPE);
+
+    const fromAsset = this.assetOf(from);
+    const toAsset = this.assetOf(to);
+    const legs: LedgerLeg[] = [
+      {
+        account: wallet,
+        asset: fromAsset,
+        amount: -fromAmount,
+        title: {
+          en: `Conversion to ${to.symbol}`,
+          ar: `تحويل إلى ${to.symbol}`,
+        },
+        type: TransactionType.TRADE,
+        suffix: '',
+      },
+      {
+        account: treasury,
+        asset: fromAsset,
+        amount: fromAmount,
+        title: {
+          en: `${from.symbol} received from conversion`,
+          ar: `${from.symbol} مستلم من تحويل عملة`,
+        },
+        type: TransactionType.TRADE,
+        suffix: '',
+      },
+      {
+        account: treasury,
+        asset: toAsset,
+        amount: -grossAmount,
+        title: {
+          en: `${to.symbol} paid out for conversion`,
+          ar: `${to.symbol} مدفوع لتحويل عملة`,
+        },
+        type: TransactionType.TRADE,
+        suffix: '-quote',
+      },
+      {
+        account: wallet,
+        asset: toAsset,
+        amount: grossAmount,
+        title: {
+          en: `Conversion from ${from.symbol}`,
+          ar: `تحويل من ${from.symbol}`,
+        },
+        type: TransactionType.TRADE,
+        suffix: '-quote',
+      },
+    ];
+    if (spreadAmount > 0) {
+      legs.push(
+        {
+          account: wallet,
+          asset: toAsset,
+          amount: -spreadAmount,
+          title: { en: 'Currency exchange spread', ar: 'فرق سعر الصرف' },
+          type: TransactionType.FEE,
+          suffix: '-spread',
+        },
+        {
+          account: fxSpread,
+          asset: toAsset,
+          amount: spreadAmount,
+          title: {
+            en: 'Platform spread from currency exchange',
+            ar: 'عمولة المنصة من فرق سعر الصرف',
+          },
+          type: TransactionType.FEE,
+          suffix: '-spread',
+        },
+      );
+    }
+
+    let exchange: CurrencyExchangeDocument | null = null;
+    await this.ledgerService.post({
+      idempotencyKey,
+      legs,
+      busyMessage: 'common.errors.exchange_failed',
+      afterPost: async (entries, session) => {
+        [exchange] = await this.exchangeModel.create(
+          [
+            {
+              userId: new Types.ObjectId(userId),
+              accountId: wallet._id,
+              exchangeRateId: quote._id,
+              fromSymbol: from.symbol,
+              toSymbol: to.symbol,
+              fromAmount,
+              rate: quote.rate,
+              spreadPercentage: quote.spreadPercentage,
+              grossAmount,
+              spreadAmount,
+              toAmount,
+              journalEntryIds: entries.map((entry) => entry._id),
+              idempotencyKey,
+            },
+          ],
+          { session },
+        );
+      },
+    });
+    // Posted by a concurrent call with the same key
+    exchange ??= await this.exchangeModel.findOne({ idempotencyKey });
+    if (!exchange) {
+      throw new ConflictException(this.i18n.t('common.errors.exchange_failed'));
+    }
+    return this.withBalances(exchange, walletIdStr);
+  }
+
+  private assetOf(currency: CurrencyDocument): LedgerAsset {
+    return {
+      assetType: assetType.CURRENCY,
+      assetId: currency._id as Types.ObjectId,
+      assetSymbol: currency.symbol,
+    };
+  }
+
+  private async withBalances(
+    exchange: CurrencyExchange,
+    walletIdStr: string,
+  ): Promise<CurrencyExchangeResult> {
+    const [fromBalance, toBalance] = await Promise.all([
+      this.walletService.getBalance(walletIdStr, exchange.fromSymbol),
+      this.walletService.getBalance(walletIdStr, exchange.toSymbol),
+    ]);
+    return { exchange, fromBalance, toBalance };
+  }
+}
@@ -0,0 +1,420 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, isValidObjectId } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import { Account, AccountDocument } from './schemas/account.schema';
+import { Balance, BalanceDocument, assetType } from './schemas/balance.schema';
+import {
+  JournalEntry,
+  JournalEntryDocument,
+} from './schemas/journal-entry.schema';
+import {
+  Transaction,
+  TransactionDirection,
+  TransactionDocument,
+} from './schemas/transaction.schema';
+import {
+  ReconciliationRun,
+  ReconciliationRunDocument,
+  ReconciliationStatus,
+} from './schemas/reconciliation-run.schema';
+import {
+  ReconciliationMismatch,
+  ReconciliationMismatchDocument,
+  ReconciliationMismatchReason,
+} from './schemas/reconciliation-mismatch.schema';
+import { GetReconciliationRunsDto } from './dto/get-reconciliation-runs.dto';
+import {
+  PaginationQueryDto,
+  createPaginatedResponse,
+} from '../../common/dto/pagination.dto';
+import {
+  EXACT_PRECISION,
+  addMoney,
+  decimalToNumber,
+  subtractMoney,
+} from '../../common/utils/money';
+
+// Accounts reconciled per round of aggregations
+const ACCOUNT_BATCH_SIZE = 500;
+
+type MismatchFields = Omit<
+  ReconciliationMismatch,
+  'runId' | 'createdAt' | 'updatedAt'
+>;
+
+interface LedgerRow {
+  accountId: Types.ObjectId;
+  assetType: assetType;
+  assetId: Types.ObjectId;
+  assetSymbol: string;
+  journalTotal: number;
+  transactionTotal: number | null;
+  balance: BalanceAmounts | null;
+}
+
+// What a row keeps of its Balance document
+interface BalanceAmounts {
+  _id: Types.ObjectId;
+  available: number;
+  locked: number;
+  reserved: number;
+}
+
+interface PostingGroup {
+  _id: {
+    accountId: Types.ObjectId;
+    assetType: assetType;
+    assetId: Types.ObjectId;
+    assetSymbol: string;
+  };
+  // Decimal128 when summing money fields
+  total: unknown;
+}
+
+/**
+ * Recomputes every balance from the ledger and records where it drifted.
+ *
+ * The journal is the source of truth: each entry credits one account and
+ * debits another, so credits minus debits per account and asset gives the
+ * amount the account should hold. `locked` and `reserved` are holds inside
+ * the account rather than movements, so the journal total is compared with
+ * `available + locked + reserved`. Per-account `Transaction` lines are
+ * cross-checked against the same total.
+ *
+ * Accounts are reconciled in batches and each batch's mismatches are written
+ * to their own collection as it finishes, so neither memory nor the run
+ * document grows with the number of accounts. A posting that commits between
+ * the journal totals and the balance read looks like drift, so every suspect
+ * is recomputed on its own and only recorded if it still disagrees.
+ */
+@Injectable()
+export class ReconciliationService {
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(Balance.name) private balanceModel: Model<BalanceDocument>,
+    @InjectModel(JournalEntry.name)
+    private journalModel: Model<JournalEntryDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(ReconciliationRun.name)
+    private runModel: Model<ReconciliationRunDocument>,
+    @InjectModel(ReconciliationMismatch.name)
+    private mismatchModel: Model<ReconciliationMismatchDocument>,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async run(
+    accountId?: string,
+    triggeredBy?: string,
+  ): Promise<ReconciliationRun> {
+    if (accountId) {
+      const account = isValidObjectId(accountId)
+        ? await this.accountModel.findById(accountId)
+        : null;
+      if (!account) {
+        throw new NotFoundException(
+          this.i18n.t('common.errors.wallet_not_found'),
+        );
+      }
+    }
+
+    const run = await new this.runModel({
+      accountId: accountId ? new Types.ObjectId(accountId) : null,
+      status: ReconciliationStatus.RUNNING,
+      triggeredBy: triggeredBy || null,
+    }).save();
+
+    try {
+      for await (const accountIds of this.accountBatches(accountId)) {
+        const rows = await this.buildLedgerRows(accountIds);
+        const mismatches = await this.confirmMismatches(
+          [...rows.values()].filter((row) => this.compare(row)),
+        );
+        if (mismatches.length > 0) {
+          await this.mismatchModel.insertMany(
+            mismatches.map((mismatch) => ({ ...mismatch, runId: run._id })),
+          );
+        }
+
+        // Progress is visible on the run while it is still going
+        run.balancesChecked += rows.size;
+        run.mismatchCount += mismatches.length;
+        await this.runModel.updateOne(
+          { _id: run._id },
+          {
+            $set: {
+              balancesChecked: run.balancesChecked,
+              mismatchCount: run.mismatchCount,
+            },
+          },
+        );
+      }
+      run.status = ReconciliationStatus.COMPLETED;
+    } catch (err) {
+      run.status = ReconciliationStatus.FAILED;
+      run.error = err instanceof Error ? err.message : String(err);
+    }
+    run.finishedAt = new Date();
+    return run.save();
+  }
+
+  async listRuns(query: GetReconciliationRunsDto) {
+    const page = query.page ?? 0;
+    const limit = query.limit ?? 10;
+
+    const filter: Record<string, unknown> = {};
+    if (query.accountId) {
+      filter.accountId = new Types.ObjectId(query.accountId);
+    }
+    if (query.status) {
+      filter.status = query.status;
+    }
+
+    const [runs, total] = await Promise.all([
+      this.runModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(page * limit)
+        .limit(limit)
+        .exec(),
+      this.runModel.countDocuments(filter),
+    ]);
+    return createPaginatedResponse(runs, page, limit, total);
+  }
+
+  async getRun(id: string): Promise<ReconciliationRun> {
+    const run = isValidObjectId(id) ? await this.runModel.findById(id) : null;
+    if (!run) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.reconciliation_run_not_found'),
+      );
+    }
+    return run;
+  }
+
+  async listMismatches(runId: string, query: PaginationQueryDto) {
+    await this.getRun(runId);
+    const page = query.page ?? 0;
+    const limit = query.limit ?? 10;
+
+    const filter = { runId: new Types.ObjectId(runId) };
+    const [mismatches, total] = await Promise.all([
+      this.mismatchModel
+        .find(filter)
+        .sort({ _id: 1 })
+        .skip(page * limit)
+        .limit(limit)
+        .exec(),
+      this.mismatchModel.countDocuments(filter),
+    ]);
+    return createPaginatedResponse(mismatches, page, limit, total);
+  }
+
+  // Streams account ids so a run over every account never loads them all
+  private async *accountBatches(
+    accountId?: string,
+  ): AsyncGenerator<Types.ObjectId[]> {
+    if (accountId) {
+      yield [new Types.ObjectId(accountId)];
+      return;
+    }
+
+    let batch: Types.ObjectId[] = [];
+    const accounts = this.accountModel
+      .find()
+      .select('_id')
+      .sort({ _id: 1 })
+      .cursor();
+    for await (const account of accounts) {
+      batch.push(account._id as Types.ObjectId);
+      if (batch.length === ACCOUNT_BATCH_SIZE) {
+        yield batch;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) yield batch;
+  }
+
+  // Recomputes the suspects' accounts and keeps what still disagrees
+  private async confirmMismatches(
+    suspects: LedgerRow[],
+  ): Promise<MismatchFields[]> {
+    if (suspects.length === 0) return [];
+
+    const accountIds = [
+      ...new Map(
+        suspects.map((row) => [String(row.accountId), row.accountId]),
+      ).values(),
+    ];
+    const rows = await this.buildLedgerRows(accountIds);
+    const mismatches: MismatchFields[] = [];
+    for (const suspect of suspects) {
+      const row = rows.get(this.rowKey(suspect));
+      const mismatch = row && this.compare(row);
+      if (mismatch) mismatches.push(mismatch);
+    }
+    return mismatches;
+  }
+
+  private rowKey(
+    key: Pick<LedgerRow, 'accountId' | 'assetType' | 'assetSymbol'>,
+  ) {
+    return `${String(key.accountId)}:${key.assetType}:${key.assetSymbol}`;
+  }
+
+  private async buildLedgerRows(
+    accountIds: Types.ObjectId[],
+  ): Promise<Map<string, LedgerRow>> {
+    const groupBy = (field: string) => ({
+      accountId: `$${field}`,
+      assetType: '$assetType',
+      assetId: '$assetId',
+      assetSymbol: '$assetSymbol',
+    });
+
+    const [credits, debits, transactions] = await Promise.all([
+      this.journalModel.aggregate<PostingGroup>([
+        {
+          $match: { creditAccountId: { $in: accountIds } },
+        },
+        {
+          $group: {
+            _id: groupBy('creditAccountId'),
+            total: { $sum: '$amount' },
+          },
+        },
+      ]),
+      this.journalModel.aggregate<PostingGroup>([
+        {
+          $match: { debitAccountId: { $in: accountIds } },
+        },
+        {
+          $group: {
+            _id: groupBy('debitAccountId'),
+            total: { $sum: '$amount' },
+          },
+        },
+      ]),
+      this.transactionModel.aggregate<PostingGroup>([
+        { $match: { accountId: { $in: accountIds } } },
+        {
+          $group: {
+            _id: groupBy('accountId'),
+            total: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$direction', TransactionDirection.CREDIT] },
+                  '$amount',
+                  { $multiply: ['$amount', -1] },
+                ],
+              },
+            },
+          },
+        },
+      ]),
+    ]);
+
+    const rows = new Map<string, LedgerRow>();
+    const rowFor = (key: PostingGroup['_id']): LedgerRow => {
+      const id = this.rowKey(key);
+      let row = rows.get(id);
+      if (!row) {
+        row = {
+          accountId: key.accountId,
+          assetType: key.assetType,
+          assetId: key.assetId,
+          assetSymbol: key.assetSymbol,
+          journalTotal: 0,
+          transactionTotal: null,
+          balance: null,
+        };
+        rows.set(id, row);
+      }
+      return row;
+    };
+
+    for (const c of credits) {
+      const row = rowFor(c._id);
+      row.journalTotal = addMoney(
+        [row.journalTotal, decimalToNumber(c.total)],
+        EXACT_PRECISION,
+      );
+    }
+    for (const d of debits) {
+      const row = rowFor(d._id);
+      row.journalTotal = subtractMoney(
+        row.journalTotal,
+        [decimalToNumber(d.total)],
+        EXACT_PRECISION,
+      );
+    }
+    for (const t of transactions) {
+      rowFor(t._id).transactionTotal = decimalToNumber(t.total);
+    }
+    const balances = this.balanceModel
+      .find({ accountId: { $in: accountIds } })
+      .cursor();
+    for await (const b of balances) {
+      rowFor({
+        accountId: b.accountId,
+        assetType: b.assetType,
+        assetId: b.assetId,
+        assetSymbol: b.assetSymbol,
+      }).balance = {
+        _id: b._id as Types.ObjectId,
+        available: b.available,
+        locked: b.locked,
+        reserved: b.reserved,
+      };
+    }
+
+    return rows;
+  }
+
+  private compare(row: LedgerRow): MismatchFields | null {
+    const available = row.balance?.available ?? 0;
+    const locked = row.balance?.locked ?? 0;
+    const reserved = row.balance?.reserved ?? 0;
+    const difference = subtractMoney(
+      addMoney([available, locked, reserved], EXACT_PRECISION),
+      [row.journalTotal],
+      EXACT_PRECISION,
+    );
+
+    const reasons: ReconciliationMismatchReason[] = [];
+    if (difference !== 0) {
+      reasons.push(ReconciliationMismatchReason.BALANCE_VS_JOURNAL);
+    }
+    // Clearing accounts keep no per-account transaction lines
+    if (
+      row.transactionTotal !== null &&
+      subtractMoney(
+        row.transactionTotal,
+        [row.journalTotal],
+        EXACT_PRECISION,
+      ) !== 0
+    ) {
+      reasons.push(ReconciliationMismatchReason.TRANSACTION_VS_JOURNAL);
+    }
+    if (locked < 0 || reserved < 0) {
+      reasons.push(ReconciliationMismatchReason.NEGATIVE_BUCKET);
+    }
+    if (reasons.length === 0) return null;
+
+    return {
+      accountId: row.accountId,
+      balanceId: row.balance?._id ?? null,
+      assetType: row.assetType,
+      assetId: row.assetId,
+      assetSymbol: row.assetSymbol,
+      available,
+      locked,
+      reserved,
+      journalTotal: row.journalTotal,
+      transactionTotal: row.transactionTotal,
+      difference,
+      reasons,
+    };
+  }
+}
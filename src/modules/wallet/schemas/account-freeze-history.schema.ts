@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AccountFreezeHistoryDocument = AccountFreezeHistory & Document;
+
+export enum AccountFreezeAction {
+  FREEZE = 'FREEZE',
+  LIFT = 'LIFT',
+}
+
+/**
+ * One row per freeze placed on a wallet or lifted from it. The account only
+ * holds the freeze in effect, so earlier terms and who lifted them live here.
+ */
+@Schema({
+  collection: 'AccountFreezeHistory',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class AccountFreezeHistory {
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  accountId: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: Object.values(AccountFreezeAction),
+    required: true,
+  })
+  action: AccountFreezeAction;
+
+  @Prop({ required: true })
+  reason: string;
+
+  // Admin id, or `system` when an expired freeze was lifted by the hourly job
+  @Prop({ type: String, required: true })
+  changedBy: string;
+
+  // Terms of the freeze; null on lifts
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+
+  @Prop({ type: Boolean, default: null })
+  allowCredits: boolean | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const AccountFreezeHistorySchema =
+  SchemaFactory.createForClass(AccountFreezeHistory);
+AccountFreezeHistorySchema.index({ accountId: 1, createdAt: -1 });
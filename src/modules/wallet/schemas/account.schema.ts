@@ -11,6 +11,27 @@ export enum AccountType {
 export enum AccountStatus {
   ACTIVE = 'ACTIVE',
   INACTIVE = 'INACTIVE',
+  FROZEN = 'FROZEN',
+}
+
+@Schema({ _id: false })
+export class AccountFreeze {
+  @Prop({ required: true })
+  reason: string;
+
+  @Prop({ type: String, required: true })
+  frozenBy: string;
+
+  @Prop({ type: Date, required: true })
+  frozenAt: Date;
+
+  // The freeze lapses on its own after this date (null = until lifted)
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+
+  // Whether deposits and incoming transfers still land while frozen
+  @Prop({ type: Boolean, default: false })
+  allowCredits: boolean;
 }
 
 @Schema({
@@ -48,6 +69,10 @@ export class Account {
   @Prop({ type: String, default: null })
   name: string | null;
 
+  // The freeze in effect; past freezes and lifts are in AccountFreezeHistory
+  @Prop({ type: AccountFreeze, default: null })
+  freeze: AccountFreeze | null;
+
   @Prop({ type: Date, default: null })
   deletedAt: Date | null;
 
@@ -60,3 +85,20 @@ AccountSchema.index(
   { type: 1, userId: 1, subtype: 1 },
   { unique: true, partialFilterExpression: { deletedAt: null } },
 );
+
+type FreezableAccount = Pick<Account, 'status' | 'freeze'>;
+
+export function isFrozen(account: FreezableAccount, at = new Date()): boolean {
+  if (account.status !== AccountStatus.FROZEN) return false;
+  const expiresAt = account.freeze?.expiresAt;
+  return !expiresAt || expiresAt > at;
+}
+
+// Debits are always refused while a freeze is in effect
+export function isDebitBlocked(account: FreezableAccount): boolean {
+  return isFrozen(account);
+}
+
+export function isCreditBlocked(account: FreezableAccount): boolean {
+  return isFrozen(account) && !account.freeze?.allowCredits;
+}
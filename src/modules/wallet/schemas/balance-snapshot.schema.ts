@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { assetType } from './balance.schema';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type BalanceSnapshotDocument = BalanceSnapshot & Document;
+
+@Schema({
+  collection: 'BalanceSnapshot',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class BalanceSnapshot {
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  accountId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Balance', required: true })
+  balanceId: Types.ObjectId;
+
+  @Prop({ type: String, enum: ['CURRENCY', 'METAL'], required: true })
+  assetType: assetType;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  assetId: Types.ObjectId;
+
+  @Prop({ required: true })
+  assetSymbol: string;
+
+  // Cut-off the snapshot describes (start of the UTC day)
+  @Prop({ type: Date, required: true })
+  asOf: Date;
+
+  // available + locked + reserved at `asOf`, the same total that
+  // Transaction lines move
+  @Prop({ ...MoneyProp, required: true })
+  balance: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const BalanceSnapshotSchema =
+  SchemaFactory.createForClass(BalanceSnapshot);
+BalanceSnapshotSchema.index({ balanceId: 1, asOf: 1 }, { unique: true });
+BalanceSnapshotSchema.index({ accountId: 1, assetSymbol: 1, asOf: -1 });
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
 
 export type BalanceDocument = Balance & Document;
 
@@ -13,6 +14,7 @@ export enum assetType {
   timestamps: true,
   toJSON: {
     virtuals: true,
+    getters: true,
     transform: (_doc, ret: Record<string, unknown>) => {
       if (ret._id != null) {
         if (ret._id instanceof Types.ObjectId) {
@@ -23,6 +25,7 @@ export enum assetType {
       }
       delete ret._id;
       delete ret.__v;
+      delete ret.fence;
       return ret;
     },
   },
@@ -40,15 +43,19 @@ export class Balance {
   @Prop({ required: true })
   assetSymbol: string;
 
-  @Prop({ type: Number, default: 0 })
+  @Prop({ ...MoneyProp, default: 0 })
   available: number;
 
-  @Prop({ type: Number, default: 0 })
+  @Prop({ ...MoneyProp, default: 0 })
   locked: number;
 
-  @Prop({ type: Number, default: 0 })
+  @Prop({ ...MoneyProp, default: 0 })
   reserved: number;
 
+  // Highest lock fencing token that has written this balance
+  @Prop({ type: Number, default: 0 })
+  fence: number;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -57,3 +64,28 @@ export const BalanceSchema = SchemaFactory.createForClass(Balance);
 BalanceSchema.index({ accountId: 1, assetSymbol: 1 }, { unique: true });
 BalanceSchema.index({ accountId: 1, assetType: 1, assetId: 1 });
 BalanceSchema.index({ assetType: 1, assetId: 1 });
+
+// Filter and update parts that let a write through only for a lock holder
+// whose fencing token is at least the last one applied. Writes made without
+// a lock (clearing accounts) pass `undefined` and are not fenced.
+//
+// This relies on one invariant: the lock store's counter for a balance never
+// falls below the `fence` stored on it. Then a token behind the stored fence
+// can only come from a holder whose lease ran out. The store can lose its
+// counters (memory driver restart, Redis keys flushed or evicted), so
+// lockers pass the stored fences as `fenceFloors`, and a rejected write
+// raises the counter to the stored fence so the retry goes through.
+export function fenceFilter(fence: number | undefined) {
+  return fence === undefined ? {} : { fence: { $not: { $gt: fence } } };
+}
+
+export function fenceUpdate(fence: number | undefined) {
+  return fence === undefined ? {} : { $max: { fence } };
+}
+
+export function isFencedOut(
+  balance: Pick<Balance, 'fence'>,
+  fence: number | undefined,
+): boolean {
+  return fence !== undefined && (balance.fence ?? 0) > fence;
+}
@@ -0,0 +1,78 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type CurrencyExchangeDocument = CurrencyExchange & Document;
+
+@Schema({
+  collection: 'CurrencyExchange',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class CurrencyExchange {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // Wallet holding both balances
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  accountId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'ExchangeRate', required: true })
+  exchangeRateId: Types.ObjectId;
+
+  @Prop({ required: true })
+  fromSymbol: string;
+
+  @Prop({ required: true })
+  toSymbol: string;
+
+  // Amount of `fromSymbol` that left the wallet
+  @Prop({ ...MoneyProp, required: true })
+  fromAmount: number;
+
+  // Rate and spread in force at execution
+  @Prop({ ...MoneyProp, required: true })
+  rate: number;
+
+  @Prop({ type: Number, default: 0 })
+  spreadPercentage: number;
+
+  // fromAmount * rate, rounded to `toSymbol`
+  @Prop({ ...MoneyProp, required: true })
+  grossAmount: number;
+
+  @Prop({ ...MoneyProp, default: 0 })
+  spreadAmount: number;
+
+  // Amount of `toSymbol` that reached the wallet (gross - spread)
+  @Prop({ ...MoneyProp, required: true })
+  toAmount: number;
+
+  @Prop({ type: [Types.ObjectId], ref: 'JournalEntry', default: [] })
+  journalEntryIds: Types.ObjectId[];
+
+  @Prop({ required: true, index: { unique: true } })
+  idempotencyKey: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const CurrencyExchangeSchema =
+  SchemaFactory.createForClass(CurrencyExchange);
+CurrencyExchangeSchema.index({ userId: 1, createdAt: -1 });
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
 
 export type JournalEntryDocument = JournalEntry & Document;
 
@@ -8,6 +9,7 @@ export type JournalEntryDocument = JournalEntry & Document;
   timestamps: true,
   toJSON: {
     virtuals: true,
+    getters: true,
     transform: (_doc, ret: Record<string, unknown>) => {
       if (ret._id != null) {
         if (ret._id instanceof Types.ObjectId) {
@@ -23,11 +25,13 @@ export type JournalEntryDocument = JournalEntry & Document;
   },
 })
 export class JournalEntry {
-  @Prop({ type: Types.ObjectId, ref: 'Account', required: false })
-  debitAccountId?: Types.ObjectId;
+  // Both legs are mandatory; money entering or leaving the platform goes
+  // through an EXTERNAL_* clearing account instead of an empty leg
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  debitAccountId: Types.ObjectId;
 
-  @Prop({ type: Types.ObjectId, ref: 'Account', required: false })
-  creditAccountId?: Types.ObjectId;
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  creditAccountId: Types.ObjectId;
 
   @Prop({ required: true })
   assetSymbol: string;
@@ -42,7 +46,7 @@ export class JournalEntry {
   @Prop({ type: Types.ObjectId, required: true })
   assetId: Types.ObjectId;
 
-  @Prop({ type: Number, required: true })
+  @Prop({ ...MoneyProp, required: true })
   amount: number;
 
   @Prop({ type: [String], default: [] })
@@ -51,11 +55,47 @@ export class JournalEntry {
   @Prop({ required: true, index: { unique: true } })
   idempotencyKey: string;
 
+  // Set on a reversal: the entry it compensates
+  @Prop({ type: Types.ObjectId, ref: 'JournalEntry', default: null })
+  reversalOfId: Types.ObjectId | null;
+
+  // Set on the original once it has been reversed
+  @Prop({ type: Types.ObjectId, ref: 'JournalEntry', default: null })
+  reversedById: Types.ObjectId | null;
+
+  // Optional link from a manual adjustment to the entry it corrects
+  @Prop({ type: Types.ObjectId, ref: 'JournalEntry', default: null })
+  relatedEntryId: Types.ObjectId | null;
+
+  // Admin-posted entries (reversals and adjustments) only
+  @Prop({ type: String, default: null })
+  reason: string | null;
+
+  // Admin id from the external admin auth service
+  @Prop({ type: String, default: null })
+  postedBy: string | null;
+
   createdAt: Date;
   updatedAt: Date;
 }
 
 export const JournalEntrySchema = SchemaFactory.createForClass(JournalEntry);
+
+// Reject entries that cannot balance: a self-transfer or a non-positive amount
+JournalEntrySchema.pre('validate', function (next) {
+  if (
+    this.debitAccountId &&
+    this.creditAccountId &&
+    this.debitAccountId.equals(this.creditAccountId)
+  ) {
+    this.invalidate('creditAccountId', 'journal_same_account');
+  }
+  if (!(this.amount > 0)) {
+    this.invalidate('amount', 'journal_non_positive_amount');
+  }
+  next();
+});
+
 JournalEntrySchema.index({
   debitAccountId: 1,
   creditAccountId: 1,
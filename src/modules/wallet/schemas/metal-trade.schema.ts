@@ -0,0 +1,85 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type MetalTradeDocument = MetalTrade & Document;
+
+export enum TradeSide {
+  BUY = 'BUY',
+  SELL = 'SELL',
+}
+
+@Schema({
+  collection: 'MetalTrade',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class MetalTrade {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // The user's TRADING wallet, which holds both legs
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  accountId: Types.ObjectId;
+
+  @Prop({ type: String, enum: TradeSide, required: true })
+  side: TradeSide;
+
+  @Prop({ type: Types.ObjectId, ref: 'Metal', required: true })
+  metalId: Types.ObjectId;
+
+  @Prop({ required: true })
+  metalSymbol: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Currency', required: true })
+  currencyId: Types.ObjectId;
+
+  @Prop({ required: true })
+  currencySymbol: string;
+
+  @Prop({ ...MoneyProp, required: true })
+  quantity: number;
+
+  // Price per unit of metal at execution
+  @Prop({ ...MoneyProp, required: true })
+  unitPrice: number;
+
+  // quantity * unitPrice, rounded to the currency
+  @Prop({ ...MoneyProp, required: true })
+  grossAmount: number;
+
+  @Prop({ ...MoneyProp, default: 0 })
+  feeAmount: number;
+
+  // Currency that left the wallet (buy: gross + fee) or reached it
+  // (sell: gross - fee)
+  @Prop({ ...MoneyProp, required: true })
+  settlementAmount: number;
+
+  @Prop({ type: [Types.ObjectId], ref: 'JournalEntry', default: [] })
+  journalEntryIds: Types.ObjectId[];
+
+  @Prop({ required: true, index: { unique: true } })
+  idempotencyKey: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MetalTradeSchema = SchemaFactory.createForClass(MetalTrade);
+MetalTradeSchema.index({ userId: 1, createdAt: -1 });
@@ -0,0 +1,79 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
+
+export type P2PTransferDocument = P2PTransfer & Document;
+
+@Schema({ _id: false })
+export class P2PParty {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  accountId: Types.ObjectId;
+
+  // Snapshot of the party's display name at transfer time
+  @Prop({ type: String, default: '' })
+  name: string;
+
+  @Prop({ type: String, default: '' })
+  email: string;
+}
+
+@Schema({
+  collection: 'P2PTransfer',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class P2PTransfer {
+  @Prop({ type: P2PParty, required: true })
+  sender: P2PParty;
+
+  @Prop({ type: P2PParty, required: true })
+  recipient: P2PParty;
+
+  @Prop({ required: true })
+  assetSymbol: string;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  assetId: Types.ObjectId;
+
+  // Amount received by the recipient
+  @Prop({ ...MoneyProp, required: true })
+  amount: number;
+
+  // Fee charged to the sender on top of the amount
+  @Prop({ ...MoneyProp, default: 0 })
+  feeAmount: number;
+
+  @Prop({ type: String, default: null })
+  note: string | null;
+
+  @Prop({ type: [Types.ObjectId], ref: 'JournalEntry', default: [] })
+  journalEntryIds: Types.ObjectId[];
+
+  @Prop({ required: true, index: { unique: true } })
+  idempotencyKey: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const P2PTransferSchema = SchemaFactory.createForClass(P2PTransfer);
+P2PTransferSchema.index({ 'sender.userId': 1, createdAt: -1 });
+P2PTransferSchema.index({ 'recipient.userId': 1, createdAt: -1 });
@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { assetType } from './balance.schema';
+
+export type ReconciliationMismatchDocument = ReconciliationMismatch & Document;
+
+export enum ReconciliationMismatchReason {
+  // Stored available + locked + reserved differs from the journal postings
+  BALANCE_VS_JOURNAL = 'BALANCE_VS_JOURNAL',
+  // Per-account transaction lines disagree with the journal postings
+  TRANSACTION_VS_JOURNAL = 'TRANSACTION_VS_JOURNAL',
+  // One of the balance buckets went below zero
+  NEGATIVE_BUCKET = 'NEGATIVE_BUCKET',
+}
+
+@Schema({
+  collection: 'ReconciliationMismatch',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class ReconciliationMismatch {
+  @Prop({ type: Types.ObjectId, ref: 'ReconciliationRun', required: true })
+  runId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Account', required: true })
+  accountId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Balance', default: null })
+  balanceId: Types.ObjectId | null;
+
+  @Prop({ type: String, enum: ['CURRENCY', 'METAL'], required: true })
+  assetType: assetType;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  assetId: Types.ObjectId;
+
+  @Prop({ required: true })
+  assetSymbol: string;
+
+  @Prop({ type: Number, default: 0 })
+  available: number;
+
+  @Prop({ type: Number, default: 0 })
+  locked: number;
+
+  @Prop({ type: Number, default: 0 })
+  reserved: number;
+
+  // Sum of credits minus debits across journal entries
+  @Prop({ type: Number, required: true })
+  journalTotal: number;
+
+  // Sum of DEPOSIT minus WITHDRAWAL transactions (null when the account keeps none)
+  @Prop({ type: Number, default: null })
+  transactionTotal: number | null;
+
+  // Stored total minus journal total
+  @Prop({ type: Number, required: true })
+  difference: number;
+
+  @Prop({
+    type: [String],
+    enum: Object.values(ReconciliationMismatchReason),
+    default: [],
+  })
+  reasons: ReconciliationMismatchReason[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ReconciliationMismatchSchema = SchemaFactory.createForClass(
+  ReconciliationMismatch,
+);
+ReconciliationMismatchSchema.index({ runId: 1, _id: 1 });
+ReconciliationMismatchSchema.index({ accountId: 1, createdAt: -1 });
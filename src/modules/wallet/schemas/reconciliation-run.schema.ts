@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ReconciliationRunDocument = ReconciliationRun & Document;
+
+export enum ReconciliationStatus {
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+@Schema({
+  collection: 'ReconciliationRun',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      if (ret._id != null) {
+        if (ret._id instanceof Types.ObjectId) {
+          ret.id = ret._id.toHexString();
+        } else if (typeof ret._id === 'string') {
+          ret.id = ret._id;
+        }
+      }
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class ReconciliationRun {
+  // Null when the run covered every account
+  @Prop({ type: Types.ObjectId, ref: 'Account', default: null })
+  accountId: Types.ObjectId | null;
+
+  @Prop({
+    type: String,
+    enum: Object.values(ReconciliationStatus),
+    default: ReconciliationStatus.RUNNING,
+  })
+  status: ReconciliationStatus;
+
+  // Admin id from the external admin auth service
+  @Prop({ type: String, default: null })
+  triggeredBy: string | null;
+
+  @Prop({ type: Number, default: 0 })
+  balancesChecked: number;
+
+  // Details are kept in ReconciliationMismatch, one document per balance
+  @Prop({ type: Number, default: 0 })
+  mismatchCount: number;
+
+  @Prop({ type: String, default: null })
+  error: string | null;
+
+  @Prop({ type: Date, default: null })
+  finishedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ReconciliationRunSchema =
+  SchemaFactory.createForClass(ReconciliationRun);
+ReconciliationRunSchema.index({ createdAt: -1 });
+ReconciliationRunSchema.index({ accountId: 1, createdAt: -1 });
@@ -1,12 +1,29 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { assetType } from './balance.schema';
+import { MoneyProp } from '../../../common/utils/money';
 
 export type TransactionDocument = Transaction & Document;
 
+// What a transaction is for; whether it adds to or takes from the balance
+// is its `direction`
 export enum TransactionType {
   DEPOSIT = 'DEPOSIT',
   WITHDRAWAL = 'WITHDRAWAL',
+  FEE = 'FEE',
+  TAX = 'TAX',
+  TRANSFER_IN = 'TRANSFER_IN',
+  TRANSFER_OUT = 'TRANSFER_OUT',
+  ADJUSTMENT = 'ADJUSTMENT',
+  REVERSAL = 'REVERSAL',
+  TRADE = 'TRADE',
+  // Collected fees moved between system accounts by an admin
+  SWEEP = 'SWEEP',
+}
+
+export enum TransactionDirection {
+  CREDIT = 'CREDIT',
+  DEBIT = 'DEBIT',
 }
 
 @Schema({ _id: false })
@@ -23,6 +40,7 @@ export class TransactionTitle {
   timestamps: true,
   toJSON: {
     virtuals: true,
+    getters: true,
     transform: (_doc, ret: Record<string, unknown>) => {
       if (ret._id != null) {
         if (ret._id instanceof Types.ObjectId) {
@@ -56,13 +74,16 @@ export class Transaction {
   @Prop({ enum: TransactionType, required: true })
   type: TransactionType;
 
-  @Prop({ type: Number, required: true })
+  @Prop({ enum: TransactionDirection, required: true })
+  direction: TransactionDirection;
+
+  @Prop({ ...MoneyProp, required: true })
   amount: number;
 
-  @Prop({ type: Number, required: true })
+  @Prop({ ...MoneyProp, required: true })
   balanceBefore: number;
 
-  @Prop({ type: Number, required: true })
+  @Prop({ ...MoneyProp, required: true })
   balanceAfter: number;
 
   @Prop({ type: TransactionTitle, required: true })
@@ -77,6 +98,7 @@ export class Transaction {
 
 export const TransactionSchema = SchemaFactory.createForClass(Transaction);
 TransactionSchema.index({ accountId: 1, assetSymbol: 1, createdAt: -1 });
+TransactionSchema.index({ accountId: 1, type: 1, createdAt: -1 });
 TransactionSchema.index({ journalEntryId: 1 });
 TransactionSchema.index({ balanceId: 1, createdAt: -1 });
 TransactionSchema.index({ assetType: 1, assetId: 1 });
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
 
 export type WalletDepositOrderDocument = WalletDepositOrder & Document;
 
@@ -11,6 +12,7 @@ export enum DepositType {
 @Schema({
   collection: 'WalletDepositOrder',
   timestamps: true,
+  toJSON: { getters: true },
 })
 export class WalletDepositOrder {
   @Prop({ type: String, required: true, unique: true })
@@ -35,13 +37,13 @@ export class WalletDepositOrder {
   @Prop({ type: Types.ObjectId, required: true })
   userId: Types.ObjectId;
 
-  @Prop({ type: Number, required: true })
+  @Prop({ ...MoneyProp, required: true })
   baseAmount: number;
 
-  @Prop({ type: Number, default: 0 })
+  @Prop({ ...MoneyProp, default: 0 })
   feesAmount: number;
 
-  @Prop({ type: Number, default: 0 })
+  @Prop({ ...MoneyProp, default: 0 })
   taxAmount: number;
 
   @Prop({ type: String, required: true })
@@ -57,6 +59,10 @@ export class WalletDepositOrder {
   @Prop({ type: [Types.ObjectId], ref: 'JournalEntry', default: [] })
   journalEntryIds: Types.ObjectId[];
 
+  // Set when a PayTabs order was abandoned or declined and will not be credited
+  @Prop({ type: Date, default: null })
+  expiredAt: Date | null;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -68,3 +74,5 @@ export const WalletDepositOrderSchema =
 WalletDepositOrderSchema.index({ paymentId: 1 });
 WalletDepositOrderSchema.index({ bankDepositId: 1 });
 WalletDepositOrderSchema.index({ userId: 1, processed: 1 });
+WalletDepositOrderSchema.index({ depositType: 1, processed: 1, createdAt: 1 });
+WalletDepositOrderSchema.index({ expiredAt: -1 });
@@ -0,0 +1,500 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import { existsSync } from 'fs';
+import PDFDocument from 'pdfkit';
+import { Account, AccountDocument } from './schemas/account.schema';
+import {
+  JournalEntry,
+  JournalEntryDocument,
+} from './schemas/journal-entry.schema';
+import {
+  Transaction,
+  TransactionDirection,
+  TransactionDocument,
+  TransactionTitle,
+} from './schemas/transaction.schema';
+import {
+  WalletDepositOrder,
+  WalletDepositOrderDocument,
+} from './schemas/wallet-deposit-order.schema';
+import {
+  WalletWithdrawalOrder,
+  WalletWithdrawalOrderDocument,
+} from '../withdrawal/schemas/wallet-withdrawal-order.schema';
+import {
+  Currency,
+  CurrencyDocument,
+} from '../currency/schemas/currency.schema';
+import { Metal, MetalDocument } from '../metal/schemas/metal.schema';
+import { BalanceSnapshotService } from './balance-snapshot.service';
+import { GetStatementDto, StatementFormat } from './dto/get-statement.dto';
+import { SupportedLanguage } from '../../common/enums/index';
+import {
+  DEFAULT_METAL_PRECISION,
+  EXACT_PRECISION,
+  addMoney,
+  precisionOf,
+} from '../../common/utils/money';
+
+export interface StatementLine {
+  date: Date;
+  wallet: string;
+  title: TransactionTitle;
+  debit: number;
+  credit: number;
+  feeAmount: number;
+  taxAmount: number;
+  // Running balance across the statement's wallets
+  balance: number;
+}
+
+export interface Statement {
+  assetSymbol: string;
+  decimalPlaces: number;
+  startDate: Date;
+  endDate: Date;
+  openingBalance: number;
+  closingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  totalFees: number;
+  totalTax: number;
+  lines: StatementLine[];
+}
+
+export interface StatementFile {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+interface FeeAndTax {
+  feeAmount: number;
+  taxAmount: number;
+}
+
+const PDF_FONT = 'statement';
+
+/**
+ * Downloadable account statements (CSV / PDF) for a date range and asset.
+ *
+ * Balances are `available + locked + reserved`, as for as-of queries.
+ * Fee and tax per line come from the journal entry behind the transaction:
+ * entries keyed `-fees` / `-tax` are themselves a fee or tax charge, and the
+ * main entry of a deposit or withdrawal order carries the order's fee and tax.
+ */
+@Injectable()
+export class StatementService {
+  private readonly logger = new Logger(StatementService.name);
+  private readonly pdfFontPath: string;
+
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(JournalEntry.name)
+    private journalModel: Model<JournalEntryDocument>,
+    @InjectModel(WalletDepositOrder.name)
+    private depositOrderModel: Model<WalletDepositOrderDocument>,
+    @InjectModel(WalletWithdrawalOrder.name)
+    private withdrawalOrderModel: Model<WalletWithdrawalOrderDocument>,
+    @InjectModel(Currency.name) private currencyModel: Model<CurrencyDocument>,
+    @InjectModel(Metal.name) private metalModel: Model<MetalDocument>,
+    private readonly balanceSnapshotService: BalanceSnapshotService,
+    private readonly configService: ConfigService,
+    private readonly i18n: I18nService,
+  ) {
+    this.pdfFontPath =
+      this.configService.get<string>('statements.pdfFontPath') || '';
+  }
+
+  async generate(
+    userId: string,
+    dto: GetStatementDto,
+    lang: SupportedLanguage,
+  ): Promise<StatementFile> {
+    const statement = await this.buildStatement(userId, dto);
+    const baseName = `statement-${statement.assetSymbol}-${this.formatDate(statement.startDate)}-${this.formatDate(statement.endDate)}`;
+
+    if (dto.format === StatementFormat.PDF) {
+      return {
+        buffer: await this.renderPdf(statement, lang),
+        contentType: 'application/pdf',
+        fileName: `${baseName}.pdf`,
+      };
+    }
+    return {
+      buffer: this.renderCsv(statement, lang),
+      contentType: 'text/csv; charset=utf-8',
+      fileName: `${baseName}.csv`,
+    };
+  }
+
+  async buildStatement(
+    userId: string,
+    dto: GetStatementDto,
+  ): Promise<Statement> {
+    const startDate = new Date(dto.startDate);
+    const endDate = new Date(dto.endDate);
+    if (startDate > endDate) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.invalid_date_range'),
+      );
+    }
+
+    const filter: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+      deletedAt: null,
+    };
+    if (dto.accountId) filter._id = new Types.ObjectId(dto.accountId);
+    const accounts = await this.accountModel.find(filter);
+    if (dto.accountId && accounts.length === 0) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+
+    // Balance just before the period starts
+    const openingAt = new Date(startDate.getTime() - 1);
+    const openingParts = await Promise.all(
+      accounts.map((acc) =>
+        this.balanceSnapshotService.computeBalanceAsOf(
+          String(acc._id),
+          dto.assetSymbol,
+          openingAt,
+        ),
+      ),
+    );
+    const openingBalance = addMoney(
+      openingParts.map((p) => p.balance),
+      EXACT_PRECISION,
+    );
+
+    const transactions = await this.transactionModel
+      .find({
+        accountId: { $in: accounts.map((acc) => acc._id) },
+        assetSymbol: dto.assetSymbol,
+        createdAt: { $gte: startDate, $lte: endDate },
+      })
+      .sort({ createdAt: 1, _id: 1 });
+
+    const feesByJournal = await this.loadFeesAndTax(transactions);
+    const walletNames = new Map(
+      accounts.map((acc) => [String(acc._id), acc.subtype]),
+    );
+
+    let balance = openingBalance;
+    let totalDebits = 0;
+    let totalCredits = 0;
+    let totalFees = 0;
+    let totalTax = 0;
+    const lines: StatementLine[] = transactions.map((tx) => {
+      const isCredit = tx.direction === TransactionDirection.CREDIT;
+      const { feeAmount, taxAmount } = feesByJournal.get(
+        String(tx.journalEntryId),
+      ) ?? { feeAmount: 0, taxAmount: 0 };
+
+      balance = addMoney(
+        [balance, isCredit ? tx.amount : -tx.amount],
+        EXACT_PRECISION,
+      );
+      if (isCredit) {
+        totalCredits = addMoney([totalCredits, tx.amount], EXACT_PRECISION);
+      } else {
+        totalDebits = addMoney([totalDebits, tx.amount], EXACT_PRECISION);
+      }
+      totalFees = addMoney([totalFees, feeAmount], EXACT_PRECISION);
+      totalTax = addMoney([totalTax, taxAmount], EXACT_PRECISION);
+
+      return {
+        date: tx.createdAt,
+        wallet: walletNames.get(String(tx.accountId)) ?? '',
+        title: tx.title,
+        debit: isCredit ? 0 : tx.amount,
+        credit: isCredit ? tx.amount : 0,
+        feeAmount,
+        taxAmount,
+        balance,
+      };
+    });
+
+    return {
+      assetSymbol: dto.assetSymbol,
+      decimalPlaces: await this.decimalPlacesOf(dto.assetSymbol),
+      startDate,
+      endDate,
+      openingBalance,
+      closingBalance: balance,
+      totalDebits,
+      totalCredits,
+      totalFees,
+      totalTax,
+      lines,
+    };
+  }
+
+  private async loadFeesAndTax(
+    transactions: TransactionDocument[],
+  ): Promise<Map<string, FeeAndTax>> {
+    const journalIds = transactions
+      .map((tx) => tx.journalEntryId)
+      .filter((id): id is Types.ObjectId => id != null);
+    const result = new Map<string, FeeAndTax>();
+    if (journalIds.length === 0) return result;
+
+    const [journals, depositOrders, withdrawalOrders] = await Promise.all([
+      this.journalModel
+        .find({ _id: { $in: journalIds } })
+        .select('idempotencyKey amount'),
+      this.depositOrderModel.find({ journalEntryIds: { $in: journalIds } }),
+      this.withdrawalOrderModel.find({ journalEntryIds: { $in: journalIds } }),
+    ]);
+
+    for (const journal of journals) {
+      const id = String(journal._id);
+      if (journal.idempotencyKey.endsWith('-fees')) {
+        result.set(id, { feeAmount: journal.amount, taxAmount: 0 });
+      } else if (journal.idempotencyKey.endsWith('-tax')) {
+        result.set(id, { feeAmount: 0, taxAmount: journal.amount });
+      }
+    }
+    // The first entry of an order is the one that touches the user's wallet.
+    // Orders whose fees and tax were debited from the wallet as separate
+    // lines already have them tagged above
+    for (const order of [...depositOrders, ...withdrawalOrders]) {
+      const [mainId, ...rest] = order.journalEntryIds;
+      const splitOut = rest.some((id) => result.has(String(id)));
+      if (mainId && !splitOut && !result.has(String(mainId))) {
+        result.set(String(mainId), {
+          feeAmount: order.feesAmount,
+          taxAmount: order.taxAmount,
+        });
+      }
+    }
+    return result;
+  }
+
+  private async decimalPlacesOf(assetSymbol: string): Promise<number> {
+    const currency = await this.currencyModel.findOne({
+      symbol: assetSymbol,
+      deletedAt: null,
+    });
+    if (currency) return precisionOf(currency).decimalPlaces;
+    const metal = await this.metalModel.findOne({
+      symbol: assetSymbol,
+      deletedAt: null,
+    });
+    return precisionOf(metal, DEFAULT_METAL_PRECISION).decimalPlaces;
+  }
+
+  private labels(lang: SupportedLanguage) {
+    const t = (key: string) => this.i18n.t(`common.statement.${key}`, { lang });
+    return {
+      title: t('title'),
+      asset: t('asset'),
+      period: t('period'),
+      generatedAt: t('generated_at'),
+      openingBalance: t('opening_balance'),
+      closingBalance: t('closing_balance'),
+      date: t('date'),
+      wallet: t('wallet'),
+      description: t('description'),
+      debit: t('debit'),
+      credit: t('credit'),
+      fee: t('fee'),
+      tax: t('tax'),
+      balance: t('balance'),
+      totalDebits: t('total_debits'),
+      totalCredits: t('total_credits'),
+      totalFees: t('total_fees'),
+      totalTax: t('total_tax'),
+      noTransactions: t('no_transactions'),
+    };
+  }
+
+  private renderCsv(statement: Statement, lang: SupportedLanguage): Buffer {
+    const l = this.labels(lang);
+    const amount = (value: number) => value.toFixed(statement.decimalPlaces);
+    const rows: string[][] = [
+      [l.title],
+      [l.asset, statement.assetSymbol],
+      [
+        l.period,
+        this.formatDate(statement.startDate),
+        this.formatDate(statement.endDate),
+      ],
+      [l.openingBalance, amount(statement.openingBalance)],
+      [],
+      [
+        l.date,
+        l.wallet,
+        l.description,
+        l.debit,
+        l.credit,
+        l.fee,
+        l.tax,
+        l.balance,
+      ],
+      ...statement.lines.map((line) => [
+        line.date.toISOString(),
+        line.wallet,
+        line.title[lang] || line.title.en,
+        line.debit ? amount(line.debit) : '',
+        line.credit ? amount(line.credit) : '',
+        line.feeAmount ? amount(line.feeAmount) : '',
+        line.taxAmount ? amount(line.taxAmount) : '',
+        amount(line.balance),
+      ]),
+      [],
+      [l.totalDebits, amount(statement.totalDebits)],
+      [l.totalCredits, amount(statement.totalCredits)],
+      [l.totalFees, amount(statement.totalFees)],
+      [l.totalTax, amount(statement.totalTax)],
+      [l.closingBalance, amount(statement.closingBalance)],
+    ];
+
+    const escape = (cell: string) =>
+      /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    const body = rows.map((row) => row.map(escape).join(',')).join('\r\n');
+    // BOM so spreadsheet apps detect UTF-8 (needed for Arabic titles)
+    return Buffer.from(`\uFEFF${body}\r\n`, 'utf8');
+  }
+
+  private renderPdf(
+    statement: Statement,
+    lang: SupportedLanguage,
+  ): Promise<Buffer> {
+    const l = this.labels(lang);
+    const rtl = lang === SupportedLanguage.AR;
+    const amount = (value: number) => value.toFixed(statement.decimalPlaces);
+
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    // The built-in fonts have no Arabic glyphs
+    if (this.pdfFontPath && existsSync(this.pdfFontPath)) {
+      doc.registerFont(PDF_FONT, this.pdfFontPath);
+      doc.font(PDF_FONT);
+    } else if (rtl) {
+      this.logger.warn(
+        'STATEMENT_PDF_FONT_PATH is not set; Arabic text will not render',
+      );
+    }
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const align = rtl ? 'right' : 'left';
+
+    doc.fontSize(16).text(l.title, { align });
+    doc.moveDown(0.5);
+    doc.fontSize(10);
+    for (const [label, value] of [
+      [l.asset, statement.assetSymbol],
+      [
+        l.period,
+        `${this.formatDate(statement.startDate)} - ${this.formatDate(statement.endDate)}`,
+      ],
+      [l.generatedAt, new Date().toISOString()],
+      [l.openingBalance, amount(statement.openingBalance)],
+    ]) {
+      doc.text(rtl ? `${value} :${label}` : `${label}: ${value}`, { align });
+    }
+    doc.moveDown();
+
+    // Column widths as fractions of the page; mirrored for RTL
+    const columns: Array<{ label: string; share: number; numeric: boolean }> = [
+      { label: l.date, share: 0.12, numeric: false },
+      { label: l.wallet, share: 0.1, numeric: false },
+      { label: l.description, share: 0.26, numeric: false },
+      { label: l.debit, share: 0.1, numeric: true },
+      { label: l.credit, share: 0.1, numeric: true },
+      { label: l.fee, share: 0.1, numeric: true },
+      { label: l.tax, share: 0.1, numeric: true },
+      { label: l.balance, share: 0.12, numeric: true },
+    ];
+    const positions: number[] = [];
+    let cursor = 0;
+    for (const column of columns) {
+      const colWidth = column.share * width;
+      positions.push(rtl ? left + width - cursor - colWidth : left + cursor);
+      cursor += colWidth;
+    }
+
+    const drawRow = (cells: string[]) => {
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      let rowBottom = y;
+      cells.forEach((cell, i) => {
+        doc.text(cell, positions[i], y, {
+          width: columns[i].share * width - 4,
+          align: columns[i].numeric ? (rtl ? 'left' : 'right') : align,
+        });
+        rowBottom = Math.max(rowBottom, doc.y);
+      });
+      doc.x = left;
+      doc.y = rowBottom + 4;
+    };
+
+    doc.fontSize(9);
+    drawRow(columns.map((c) => c.label));
+    doc
+      .moveTo(left, doc.y - 2)
+      .lineTo(left + width, doc.y - 2)
+      .stroke();
+
+    if (statement.lines.length === 0) {
+      doc.text(l.noTransactions, left, doc.y, { width, align });
+    }
+    for (const line of statement.lines) {
+      drawRow([
+        this.formatDate(line.date),
+        line.wallet,
+        line.title[lang] || line.title.en,
+        line.debit ? amount(line.debit) : '',
+        line.credit ? amount(line.credit) : '',
+        line.feeAmount ? amount(line.feeAmount) : '',
+        line.taxAmount ? amount(line.taxAmount) : '',
+        amount(line.balance),
+      ]);
+    }
+
+    doc.moveDown();
+    doc.fontSize(10);
+    for (const [label, value] of [
+      [l.totalDebits, statement.totalDebits],
+      [l.totalCredits, statement.totalCredits],
+      [l.totalFees, statement.totalFees],
+      [l.totalTax, statement.totalTax],
+      [l.closingBalance, statement.closingBalance],
+    ] as const) {
+      doc.text(
+        rtl ? `${amount(value)} :${label}` : `${label}: ${amount(value)}`,
+        left,
+        doc.y,
+        { width, align },
+      );
+    }
+
+    doc.end();
+    return done;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  Account,
+  AccountDocument,
+  AccountType,
+  isCreditBlocked,
+  isDebitBlocked,
+} from './schemas/account.schema';
+import { Balance, assetType } from './schemas/balance.schema';
+import {
+  TransactionTitle,
+  TransactionType,
+} from './schemas/transaction.schema';
+import {
+  MetalTrade,
+  MetalTradeDocument,
+  TradeSide,
+} from './schemas/metal-trade.schema';
+import {
+  Currency,
+  CurrencyDocument,
+} from '../currency/schemas/currency.schema';
+import { Metal, MetalDocument } from '../metal/schemas/metal.schema';
+import { WalletService } from './wallet.service';
+import { WalletSubtype } from './dto/create-wallet.dto';
+import { MetalTradeDto } from './dto/metal-trade.dto';
+import {
+  LedgerAsset,
+  LedgerLeg,
+  LedgerService,
+} from '../ledger/ledger.service';
+import {
+  DEFAULT_METAL_PRECISION,
+  addMoney,
+  calculateFee,
+  multiplyMoney,
+  precisionOf,
+  roundMoney,
+  subtractMoney,
+} from '../../common/utils/money';
+
+export interface MetalTradeResult {
+  trade: MetalTrade;
+  currencyBalance: Balance;
+  metalBalance: Balance;
+}
+
+/**
+ * Buying and selling metals against currency balances in the user's TRADING
+ * wallet, at the metal's current price in that currency.
+ *
+ * The TREASURY account is the counterparty on both legs and trade fees go to
+ * FEES. The currency, metal and fee movements are posted together as one
+ * ledger posting, each as its own JournalEntry.
+ */
+@Injectable()
+export class TradeService {
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(MetalTrade.name)
+    private tradeModel: Model<MetalTradeDocument>,
+    @InjectModel(Currency.name) private currencyModel: Model<CurrencyDocument>,
+    @InjectModel(Metal.name) private metalModel: Model<MetalDocument>,
+    private readonly walletService: WalletService,
+    private readonly ledgerService: LedgerService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  buy(userId: string, dto: MetalTradeDto): Promise<MetalTradeResult> {
+    return this.execute(userId, dto, TradeSide.BUY);
+  }
+
+  sell(userId: string, dto: MetalTradeDto): Promise<MetalTradeResult> {
+    return this.execute(userId, dto, TradeSide.SELL);
+  }
+
+  private async execute(
+    userId: string,
+    dto: MetalTradeDto,
+    side: TradeSide,
+  ): Promise<MetalTradeResult> {
+    const wallet = await this.accountModel.findOne({
+      type: AccountType.WALLET,
+      userId: new Types.ObjectId(userId),
+      subtype: WalletSubtype.TRADING,
+      deletedAt: null,
+    });
+    if (!wallet) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    const walletIdStr = (wallet._id as Types.ObjectId).toHexString();
+
+    // Scope the client key per user so two users can't collide on the same key
+    const idempotencyKey = `metal-trade-${userId}-${dto.idempotencyKey}`;
+    const existing = await this.tradeModel.findOne({ idempotencyKey });
+    if (existing) {
+      return this.withBalances(existing, walletIdStr);
+    }
+
+    // A trade both debits and credits the wallet
+    if (isDebitBlocked(wallet)) {
+      throw new ForbiddenException(this.i18n.t('common.errors.wallet_frozen'));
+    }
+    if (isCreditBlocked(wallet)) {
+      throw new ForbiddenException(
+        this.i18n.t('common.errors.wallet_frozen_for_credits'),
+      );
+    }
+
+    const [metal, currency] = await Promise.all([
+      this.metalModel.findOne({
+        symbol: dto.metalSymbol,
+        isActive: true,
+        deletedAt: null,
+      }),
+      this.currencyModel.findOne({
+        symbol: dto.currencySymbol,
+        isActive: true,
+        deletedAt: null,
+      }),
+    ]);
+    if (!metal) {
+      throw new NotFoundException(this.i18n.t('common.errors.metal_not_found'));
+    }
+    if (!currency) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.currency_not_found'),
+      );
+    }
+    const pricing = metal.currencies.find(
+      (c) => String(c.currencyId) === String(currency._id),
+    );
+    if (!pricing || !pricing.currencyActive) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.metal_trading_unavailable'),
+      );
+    }
+
+    const currencyPrecision = precisionOf(currency);
+    const quantity = roundMoney(
+      dto.quantity,
+      precisionOf(metal, DEFAULT_METAL_PRECISION),
+    );
+    const unitPrice = pricing.price;
+    const grossAmount = multiplyMoney(quantity, unitPrice, currencyPrecision);
+    const feeAmount = calculateFee(
+      grossAmount,
+      side === TradeSide.BUY ? pricing.buyFee : pricing.sellFee,
+      currencyPrecision,
+    );
+    const settlementAmount =
+      side === TradeSide.BUY
+        ? addMoney([grossAmount, feeAmount], currencyPrecision)
+        : subtractMoney(grossAmount, [feeAmount], currencyPrecision);
+    if (quantity <= 0 || grossAmount <= 0 || settlementAmount <= 0) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.trade_amount_too_small'),
+      );
+    }
+
+    const treasury = await this.walletService.ensureSystemTreasury();
+    const systemFees = await this.walletService.ensureSystemTreasury('FEES');
+    const currencyAsset: LedgerAsset = {
+      assetType: assetType.CURRENCY,
+      assetId: currency._id as Types.ObjectId,
+      assetSymbol: currency.symbol,
+    };
+    const metalAsset: LedgerAsset = {
+      assetType: assetType.METAL,
+      assetId: metal._id as Types.ObjectId,
+      assetSymbol: metal.symbol,
+    };
+
+    const metalName = metal.name;
+    const userTitle: TransactionTitle =
+      side === TradeSide.BUY
+        ? { en: `Purchase of ${metalName.en}`, ar: `شراء ${metalName.ar}` }
+        : { en: `Sale of ${metalName.en}`, ar: `بيع ${metalName.ar}` };
+    const treasuryTitle: TransactionTitle =
+      side === TradeSide.BUY
+        ? {
+            en: `${metalName.en} sold to user`,
+            ar: `بيع ${metalName.ar} لمستخدم`,
+          }
+        : {
+            en: `${metalName.en} bought from user`,
+            ar: `شراء ${metalName.ar} من مستخدم`,
+          };
+    const currencySide = {
+      asset: currencyAsset,
+      amount: grossAmount,
+      type: TransactionType.TRADE,
+      suffix: '',
+    };
+    const metalSide = {
+      asset: metalAsset,
+      amount: quantity,
+      type: TransactionType.TRADE,
+      suffix: '-metal',
+    };
+    // The wallet pays with one asset and receives the other from TREASURY
+    const [paid, received] =
+      side === TradeSide.BUY
+        ? [currencySide, metalSide]
+        : [metalSide, currencySide];
+
+    const legs: LedgerLeg[] = [
+      { ...paid, account: wallet, amount: -paid.amount, title: userTitle },
+      { ...paid, account: treasury, title: treasuryTitle },
+      {
+        ...received,
+        account: treasury,
+        amount: -received.amount,
+        title: treasuryTitle,
+        // TREASURY can only sell metal it holds
+        requireFunds: received === metalSide,
+      },
+      { ...received, account: wallet, title: userTitle },
+    ];
+    if (feeAmount > 0) {
+      legs.push(
+        {
+          account: wallet,
+          asset: currencyAsset,
+          amount: -feeAmount,
+          title: { en: 'Metal trade fee', ar: 'رسوم تداول المعادن' },
+          type: TransactionType.FEE,
+          suffix: '-fees',
+        },
+        {
+          account: systemFees,
+          asset: currencyAsset,
+          amount: feeAmount,
+          title: {
+            en: 'Platform fees from metal trade',
+            ar: 'عمولة المنصة من تداول المعادن',
+          },
+          type: TransactionType.FEE,
+          suffix: '-fees',
+        },
+      );
+    }
+
+    let trade: MetalTradeDocument | null = null;
+    await this.ledgerService.post({
+      idempotencyKey,
+      legs,
+      busyMessage: 'common.errors.trade_failed',
+      afterPost: async (entries, session) => {
+        [trade] = await this.tradeModel.create(
+          [
+            {
+              userId: new Types.ObjectId(userId),
+              accountId: wallet._id,
+              side,
+              metalId: metal._id,
+              metalSymbol: metal.symbol,
+              currencyId: currency._id,
+              currencySymbol: currency.symbol,
+              quantity,
+              unitPrice,
+              grossAmount,
+              feeAmount,
+              settlementAmount,
+              journalEntryIds: entries.map((entry) => entry._id),
+              idempotencyKey,
+            },
+          ],
+          { session },
+        );
+      },
+    });
+    // Posted by a concurrent call with the same key
+    trade ??= await this.tradeModel.findOne({ idempotencyKey });
+    if (!trade) {
+      throw new ConflictException(this.i18n.t('common.errors.trade_failed'));
+    }
+    return this.withBalances(trade, walletIdStr);
+  }
+
+  private async withBalances(
+    trade: MetalTrade,
+    walletIdStr: string,
+  ): Promise<MetalTradeResult> {
+    const [currencyBalance, metalBalance] = await Promise.all([
+      this.walletService.getBalance(walletIdStr, trade.currencySymbol),
+      this.walletService.getBalance(walletIdStr, trade.metalSymbol),
+    ]);
+    return { trade, currencyBalance, metalBalance };
+  }
+}
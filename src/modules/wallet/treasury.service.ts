@@ -0,0 +1,370 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, isValidObjectId } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import {
+  Account,
+  AccountDocument,
+  AccountType,
+} from './schemas/account.schema';
+import { Balance, BalanceDocument, assetType } from './schemas/balance.schema';
+import {
+  JournalEntry,
+  JournalEntryDocument,
+} from './schemas/journal-entry.schema';
+import {
+  Transaction,
+  TransactionDirection,
+  TransactionDocument,
+  TransactionType,
+} from './schemas/transaction.schema';
+import {
+  Currency,
+  CurrencyDocument,
+} from '../currency/schemas/currency.schema';
+import { Metal, MetalDocument } from '../metal/schemas/metal.schema';
+import { WalletService } from './wallet.service';
+import { GetSystemAccountTransactionsDto } from './dto/get-system-account-transactions.dto';
+import { GetSystemAccountInflowsDto } from './dto/get-system-account-inflows.dto';
+import { SweepFeesDto } from './dto/sweep-fees.dto';
+import { LedgerService } from '../ledger/ledger.service';
+import { createPaginatedResponse } from '../../common/dto/pagination.dto';
+import {
+  DEFAULT_METAL_PRECISION,
+  EXACT_PRECISION,
+  decimalToNumber,
+  precisionOf,
+  roundMoney,
+} from '../../common/utils/money';
+
+// System account receiving swept fees
+export const SETTLEMENT_SUBTYPE = 'SETTLEMENT';
+
+export enum InflowSource {
+  PAYTABS_DEPOSIT = 'PAYTABS_DEPOSIT',
+  BANK_DEPOSIT = 'BANK_DEPOSIT',
+  BANK_WITHDRAWAL = 'BANK_WITHDRAWAL',
+  INTERNAL_TRANSFER = 'INTERNAL_TRANSFER',
+  P2P_TRANSFER = 'P2P_TRANSFER',
+  METAL_TRADE = 'METAL_TRADE',
+  CURRENCY_EXCHANGE = 'CURRENCY_EXCHANGE',
+  ADJUSTMENT = 'ADJUSTMENT',
+  REVERSAL = 'REVERSAL',
+  FEE_SWEEP = 'FEE_SWEEP',
+  OTHER = 'OTHER',
+}
+
+// The flow behind a posting is the prefix of its journal idempotency key
+const SOURCE_PREFIXES: Array<[string, InflowSource]> = [
+  ['paytabs-deposit-', InflowSource.PAYTABS_DEPOSIT],
+  ['bank-deposit-', InflowSource.BANK_DEPOSIT],
+  ['bank-withdrawal-', InflowSource.BANK_WITHDRAWAL],
+  ['internal-transfer-', InflowSource.INTERNAL_TRANSFER],
+  ['p2p-transfer-', InflowSource.P2P_TRANSFER],
+  ['metal-trade-', InflowSource.METAL_TRADE],
+  ['fx-', InflowSource.CURRENCY_EXCHANGE],
+  ['adjustment-', InflowSource.ADJUSTMENT],
+  ['reversal-', InflowSource.REVERSAL],
+  ['fee-sweep-', InflowSource.FEE_SWEEP],
+];
+
+export interface SystemAccountSummary {
+  id: string;
+  subtype: string;
+  name: string | null;
+  status: string;
+  balances: Array<{
+    assetSymbol: string;
+    assetType: assetType;
+    available: number;
+    locked: number;
+    reserved: number;
+  }>;
+}
+
+export interface InflowRow {
+  assetSymbol: string;
+  source: InflowSource;
+  type: TransactionType;
+  total: number;
+  count: number;
+}
+
+/**
+ * Admin view of the platform's own accounts (TREASURY, FEES, TAX, FX_SPREAD,
+ * clearing accounts): balances, where their money came from, their history,
+ * and sweeps of collected fees to the SETTLEMENT account.
+ */
+@Injectable()
+export class TreasuryService {
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(Balance.name) private balanceModel: Model<BalanceDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(JournalEntry.name)
+    private journalModel: Model<JournalEntryDocument>,
+    @InjectModel(Currency.name) private currencyModel: Model<CurrencyDocument>,
+    @InjectModel(Metal.name) private metalModel: Model<MetalDocument>,
+    private readonly walletService: WalletService,
+    private readonly ledgerService: LedgerService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  async listSystemAccounts(): Promise<SystemAccountSummary[]> {
+    const accounts = await this.accountModel
+      .find({ type: AccountType.SYSTEM, deletedAt: null })
+      .sort({ subtype: 1 });
+    const balances = await this.balanceModel
+      .find({ accountId: { $in: accounts.map((a) => a._id) } })
+      .sort({ assetSymbol: 1 });
+
+    return accounts.map((account) => {
+      const id = (account._id as Types.ObjectId).toHexString();
+      return {
+        id,
+        subtype: account.subtype,
+        name: account.name ?? null,
+        status: account.status,
+        balances: balances
+          .filter((b) => b.accountId.toHexString() === id)
+          .map((b) => ({
+            assetSymbol: b.assetSymbol,
+            assetType: b.assetType,
+            available: b.available,
+            locked: b.locked,
+            reserved: b.reserved,
+          })),
+      };
+    });
+  }
+
+  async getInflows(
+    accountId: string,
+    query: GetSystemAccountInflowsDto,
+  ): Promise<{ accountId: string; subtype: string; inflows: InflowRow[] }> {
+    const account = await this.findSystemAccount(accountId);
+
+    const match: Record<string, unknown> = {
+      accountId: account._id,
+      direction: TransactionDirection.CREDIT,
+      ...this.dateFilter(query.startDate, query.endDate),
+    };
+    if (query.assetSymbol) match.assetSymbol = query.assetSymbol;
+
+    const rows = await this.transactionModel.aggregate<{
+      _id: { assetSymbol: string; source: InflowSource; type: TransactionType };
+      total: unknown;
+      count: number;
+    }>([
+      { $match: match },
+      {
+        $lookup: {
+          from: 'JournalEntry',
+          localField: 'journalEntryId',
+          foreignField: '_id',
+          as: 'journal',
+        },
+      },
+      {
+        $set: {
+          key: { $ifNull: [{ $first: '$journal.idempotencyKey' }, ''] },
+        },
+      },
+      {
+        $group: {
+          _id: {
+            assetSymbol: '$assetSymbol',
+            type: '$type',
+            source: {
+              $switch: {
+                branches: SOURCE_PREFIXES.map(([prefix, source]) => ({
+                  case: { $eq: [{ $indexOfCP: ['$key', prefix] }, 0] },
+                  then: source,
+                })),
+                default: InflowSource.OTHER,
+              },
+            },
+          },
+          total: { $sum: '$amount' },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+
+    const inflows = rows
+      .map((row) => ({
+        ...row._id,
+        total: roundMoney(decimalToNumber(row.total), EXACT_PRECISION),
+        count: row.count,
+      }))
+      .sort(
+        (a, b) =>
+          a.assetSymbol.localeCompare(b.assetSymbol) || b.total - a.total,
+      );
+    return { accountId, subtype: account.subtype, inflows };
+  }
+
+  async getTransactions(
+    accountId: string,
+    query: GetSystemAccountTransactionsDto,
+  ) {
+    const account = await this.findSystemAccount(accountId);
+    const page = query.page ?? 0;
+    const limit = query.limit ?? 10;
+
+    const filter: Record<string, unknown> = {
+      accountId: account._id,
+      ...this.dateFilter(query.startDate, query.endDate),
+    };
+    if (query.assetSymbol) filter.assetSymbol = query.assetSymbol;
+    if (query.type) filter.type = query.type;
+    if (query.direction) filter.direction = query.direction;
+
+    const [transactions, total] = await Promise.all([
+      this.transactionModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(page * limit)
+        .limit(limit)
+        .exec(),
+      this.transactionModel.countDocuments(filter),
+    ]);
+    return createPaginatedResponse(transactions, page, limit, total);
+  }
+
+  async sweepFees(
+    dto: SweepFeesDto,
+    adminId: string,
+  ): Promise<{
+    journal: JournalEntry;
+    source: Balance;
+    settlement: Balance;
+  }> {
+    const idempotencyKey = `fee-sweep-${dto.idempotencyKey}`;
+    const source = await this.walletService.ensureSystemTreasury(dto.source);
+    const settlement =
+      await this.walletService.ensureSystemTreasury(SETTLEMENT_SUBTYPE);
+
+    const existing = await this.journalModel.findOne({ idempotencyKey });
+    if (!existing) {
+      const balance = await this.balanceModel.findOne({
+        accountId: source._id,
+        assetSymbol: dto.assetSymbol,
+      });
+      if (!balance || balance.available <= 0) {
+        throw new BadRequestException(
+          this.i18n.t('common.errors.insufficient_balance'),
+        );
+      }
+      const amount =
+        dto.amount == null
+          ? balance.available
+          : roundMoney(dto.amount, await this.precisionOfBalance(balance));
+      if (amount <= 0 || amount > balance.available) {
+        throw new BadRequestException(
+          this.i18n.t('common.errors.insufficient_balance'),
+        );
+      }
+
+      const asset = {
+        assetType: balance.assetType,
+        assetId: balance.assetId,
+        assetSymbol: balance.assetSymbol,
+      };
+      await this.ledgerService.post({
+        idempotencyKey,
+        legs: [
+          {
+            account: source,
+            asset,
+            amount: -amount,
+            title: {
+              en: 'Fees swept to settlement',
+              ar: 'ترحيل الرسوم إلى حساب التسوية',
+            },
+            type: TransactionType.SWEEP,
+            suffix: '',
+            requireFunds: true,
+          },
+          {
+            account: settlement,
+            asset,
+            amount,
+            title: {
+              en: `Fees swept from ${dto.source}`,
+              ar: `رسوم مرحّلة من ${dto.source}`,
+            },
+            type: TransactionType.SWEEP,
+            suffix: '',
+          },
+        ],
+        busyMessage: 'common.errors.fee_sweep_failed',
+        entryFields: { reason: dto.reason, postedBy: adminId },
+      });
+    }
+
+    const [journal, sourceBalance, settlementBalance] = await Promise.all([
+      this.journalModel.findOne({ idempotencyKey }),
+      this.balanceModel.findOne({
+        accountId: source._id,
+        assetSymbol: dto.assetSymbol,
+      }),
+      this.balanceModel.findOne({
+        accountId: settlement._id,
+        assetSymbol: dto.assetSymbol,
+      }),
+    ]);
+    if (!journal || !sourceBalance || !settlementBalance) {
+      throw new ConflictException(
+        this.i18n.t('common.errors.fee_sweep_failed'),
+      );
+    }
+    return {
+      journal,
+      source: sourceBalance,
+      settlement: settlementBalance,
+    };
+  }
+
+  private async findSystemAccount(accountId: string): Promise<AccountDocument> {
+    const account = isValidObjectId(accountId)
+      ? await this.accountModel.findOne({
+          _id: new Types.ObjectId(accountId),
+          type: AccountType.SYSTEM,
+          deletedAt: null,
+        })
+      : null;
+    if (!account) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.system_account_not_found'),
+      );
+    }
+    return account;
+  }
+
+  private async precisionOfBalance(balance: Balance) {
+    if (balance.assetType === assetType.METAL) {
+      const metal = await this.metalModel.findById(balance.assetId);
+      return precisionOf(metal, DEFAULT_METAL_PRECISION);
+    }
+    const currency = await this.currencyModel.findById(balance.assetId);
+    return precisionOf(currency);
+  }
+
+  private dateFilter(
+    startDate?: string,
+    endDate?: string,
+  ): Record<string, unknown> {
+    if (!startDate && !endDate) return {};
+    const createdAt: Record<string, Date> = {};
+    if (startDate) createdAt.$gte = new Date(startDate);
+    if (endDate) createdAt.$lte = new Date(endDate);
+    return { createdAt };
+  }
+}
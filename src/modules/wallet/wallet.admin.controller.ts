@@ -6,6 +6,7 @@ import {
   Post,
   UseGuards,
   Query,
+  Request,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -17,17 +18,46 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { WalletService } from './wallet.service';
+import { ReconciliationService } from './reconciliation.service';
+import { BalanceSnapshotService } from './balance-snapshot.service';
+import { AdjustmentService } from './adjustment.service';
+import { AccountFreezeService } from './account-freeze.service';
+import { TreasuryService } from './treasury.service';
 import { CreateWalletDto } from './dto/create-wallet.dto';
 import { DepositDto } from './dto/deposit.dto';
+import { RunReconciliationDto } from './dto/run-reconciliation.dto';
+import { GetReconciliationRunsDto } from './dto/get-reconciliation-runs.dto';
+import { GetBalanceAsOfDto } from './dto/get-balance-as-of.dto';
+import { ReverseJournalEntryDto } from './dto/reverse-journal-entry.dto';
+import { ManualAdjustmentDto } from './dto/manual-adjustment.dto';
+import { FreezeAccountDto } from './dto/freeze-account.dto';
+import { UnfreezeAccountDto } from './dto/unfreeze-account.dto';
+import { GetSystemAccountInflowsDto } from './dto/get-system-account-inflows.dto';
+import { GetSystemAccountTransactionsDto } from './dto/get-system-account-transactions.dto';
+import { SweepFeesDto } from './dto/sweep-fees.dto';
 import { ApiSort } from '../../common/decorators/api-sort.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
 import { WalletSubtype } from './dto/create-wallet.dto';
-import { Account, AccountDocument } from './schemas/account.schema';
+import {
+  Account,
+  AccountDocument,
+  AccountFreeze,
+} from './schemas/account.schema';
+import { ApiPagination } from '../../common/decorators/api-pagination.decorator';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
 
 @ApiTags('014- Wallets (Admin)')
 @Controller('wallets/admin')
 export class WalletAdminController {
-  constructor(private readonly walletService: WalletService) {}
+  constructor(
+    private readonly walletService: WalletService,
+    private readonly reconciliationService: ReconciliationService,
+    private readonly balanceSnapshotService: BalanceSnapshotService,
+    private readonly adjustmentService: AdjustmentService,
+    private readonly accountFreezeService: AccountFreezeService,
+    private readonly treasuryService: TreasuryService,
+  ) {}
 
   private hasToJSON(doc: Account | AccountDocument): doc is AccountDocument {
     const candidate = doc as unknown as { toJSON?: () => unknown };
@@ -40,6 +70,7 @@ export class WalletAdminController {
     userId: string | null;
     subtype: string;
     status: string;
+    freeze: AccountFreeze | null;
     name: string | null;
     deletedAt: Date | null;
     createdAt: Date | string;
@@ -55,6 +86,7 @@ export class WalletAdminController {
             : String(account.userId),
       subtype: account.subtype,
       status: account.status,
+      freeze: account.freeze ?? null,
       name: account.name ?? null,
       deletedAt: account.deletedAt ?? null,
       createdAt: account.createdAt,
@@ -97,6 +129,7 @@ export class WalletAdminController {
 
   @UseGuards(AdminJwtAuthGuard)
   @Post('deposit')
+  @Idempotent()
   @ApiBearerAuth('admin-access-token')
   @ApiSort(2)
   @ApiOperation({
@@ -143,4 +176,281 @@ export class WalletAdminController {
       await this.walletService.listWalletsByUserAdmin(userId, subtype);
     return items.map((w) => this.mapAccount(w));
   }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Post('reconciliation/runs')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(5)
+  @ApiOperation({
+    summary: 'Admin: Reconcile balances against the ledger',
+    description:
+      'Recomputes balances from journal entries and transactions for one account, or for all accounts when accountId is omitted, and stores a drift report.',
+  })
+  @ApiBody({ description: 'Reconciliation scope', type: RunReconciliationDto })
+  @ApiResponse({ status: 201, description: 'Reconciliation run completed' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  runReconciliation(
+    @Body() dto: RunReconciliationDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    return this.reconciliationService.run(dto.accountId, adminId);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('reconciliation/runs')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(6)
+  @ApiOperation({ summary: 'Admin: List past reconciliation runs' })
+  @ApiPagination()
+  @ApiResponse({ status: 200, description: 'Runs retrieved successfully' })
+  listReconciliationRuns(@Query() query: GetReconciliationRunsDto) {
+    return this.reconciliationService.listRuns(query);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('reconciliation/runs/:id')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(7)
+  @ApiOperation({ summary: 'Admin: Get a reconciliation run' })
+  @ApiParam({ name: 'id', description: 'Reconciliation run ID' })
+  @ApiResponse({ status: 200, description: 'Run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Reconciliation run not found' })
+  getReconciliationRun(@Param('id') id: string) {
+    return this.reconciliationService.getRun(id);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('reconciliation/runs/:id/mismatches')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(8)
+  @ApiOperation({ summary: 'Admin: List the mismatches a run recorded' })
+  @ApiParam({ name: 'id', description: 'Reconciliation run ID' })
+  @ApiPagination()
+  @ApiResponse({
+    status: 200,
+    description: 'Mismatches retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Reconciliation run not found' })
+  listReconciliationMismatches(
+    @Param('id') id: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.reconciliationService.listMismatches(id, query);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('balances/:accountId/:assetSymbol/as-of')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(9)
+  @ApiOperation({
+    summary: 'Admin: Get wallet balance at a point in time',
+    description:
+      'Derived from the nearest earlier daily snapshot plus the transactions since then. The balance is available + locked + reserved.',
+  })
+  @ApiParam({ name: 'accountId', description: 'Wallet Account ID' })
+  @ApiParam({ name: 'assetSymbol', description: 'Asset symbol (e.g., USD)' })
+  @ApiResponse({ status: 200, description: 'Balance retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  getBalanceAsOf(
+    @Param('accountId') accountId: string,
+    @Param('assetSymbol') assetSymbol: string,
+    @Query() query: GetBalanceAsOfDto,
+  ) {
+    return this.balanceSnapshotService.getBalanceAsOf(
+      accountId,
+      assetSymbol,
+      new Date(query.at),
+    );
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Post('journal-entries/:id/reversal')
+  @Idempotent()
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(10)
+  @ApiOperation({
+    summary: 'Admin: Reverse a journal entry',
+    description:
+      'Posts a compensating entry with the legs swapped and writes the matching transactions. Each entry can be reversed once; repeating the request returns the existing reversal.',
+  })
+  @ApiParam({ name: 'id', description: 'Journal entry ID to reverse' })
+  @ApiBody({ description: 'Reversal reason', type: ReverseJournalEntryDto })
+  @ApiResponse({ status: 201, description: 'Reversal posted' })
+  @ApiResponse({ status: 400, description: 'Insufficient balance' })
+  @ApiResponse({ status: 404, description: 'Journal entry not found' })
+  @ApiResponse({ status: 409, description: 'Already reversed or lock busy' })
+  reverseJournalEntry(
+    @Param('id') id: string,
+    @Body() dto: ReverseJournalEntryDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    return this.adjustmentService.reverseJournalEntry(id, dto, adminId);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Post('adjustments')
+  @Idempotent()
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(11)
+  @ApiOperation({
+    summary: 'Admin: Manually credit or debit a wallet',
+    description:
+      'Moves funds between the wallet and the TREASURY system account with a mandatory reason, optionally linked to the journal entry being corrected.',
+  })
+  @ApiBody({ description: 'Adjustment payload', type: ManualAdjustmentDto })
+  @ApiResponse({ status: 201, description: 'Adjustment posted' })
+  @ApiResponse({ status: 400, description: 'Insufficient balance' })
+  @ApiResponse({ status: 404, description: 'Wallet or entry not found' })
+  @ApiResponse({ status: 409, description: 'Lock busy' })
+  postAdjustment(
+    @Body() dto: ManualAdjustmentDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    return this.adjustmentService.postAdjustment(dto, adminId);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Post('wallets/:accountId/freeze')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(12)
+  @ApiOperation({
+    summary: 'Admin: Freeze a wallet',
+    description:
+      'Blocks withdrawals, outgoing transfers and debit adjustments on the wallet. Credits are blocked too unless allowCredits is set. Freezing a frozen wallet replaces the current terms.',
+  })
+  @ApiParam({ name: 'accountId', description: 'Wallet Account ID' })
+  @ApiBody({ description: 'Freeze terms', type: FreezeAccountDto })
+  @ApiResponse({ status: 201, description: 'Wallet frozen' })
+  @ApiResponse({ status: 400, description: 'Expiry is in the past' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async freezeWallet(
+    @Param('accountId') accountId: string,
+    @Body() dto: FreezeAccountDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    const account = await this.accountFreezeService.freeze(
+      accountId,
+      dto,
+      adminId,
+    );
+    return this.mapAccount(account);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Post('wallets/:accountId/unfreeze')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(13)
+  @ApiOperation({ summary: 'Admin: Lift a wallet freeze' })
+  @ApiParam({ name: 'accountId', description: 'Wallet Account ID' })
+  @ApiBody({ description: 'Unfreeze reason', type: UnfreezeAccountDto })
+  @ApiResponse({ status: 201, description: 'Freeze lifted' })
+  @ApiResponse({ status: 400, description: 'Wallet is not frozen' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async unfreezeWallet(
+    @Param('accountId') accountId: string,
+    @Body() dto: UnfreezeAccountDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    const account = await this.accountFreezeService.unfreeze(
+      accountId,
+      dto,
+      adminId,
+    );
+    return this.mapAccount(account);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('wallets/:accountId/freezes')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(14)
+  @ApiOperation({ summary: 'Admin: Freeze and lift history of a wallet' })
+  @ApiParam({ name: 'accountId', description: 'Wallet Account ID' })
+  @ApiPagination()
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  listWalletFreezes(
+    @Param('accountId') accountId: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.accountFreezeService.findHistory(accountId, query);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('system-accounts')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(15)
+  @ApiOperation({
+    summary: 'Admin: List system accounts with balances',
+    description:
+      'Every SYSTEM account (TREASURY, FEES, TAX, FX_SPREAD, SETTLEMENT and the EXTERNAL_* clearing accounts) with its per-asset balances.',
+  })
+  @ApiResponse({ status: 200, description: 'Accounts retrieved successfully' })
+  listSystemAccounts() {
+    return this.treasuryService.listSystemAccounts();
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('system-accounts/:accountId/inflows')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(16)
+  @ApiOperation({
+    summary: "Admin: Break down a system account's inflows by source",
+    description:
+      'Totals and counts of the credits to the account per asset, transaction type and source flow (PayTabs deposit, bank withdrawal, metal trade, ...).',
+  })
+  @ApiParam({ name: 'accountId', description: 'System Account ID' })
+  @ApiResponse({ status: 200, description: 'Inflows retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'System account not found' })
+  getSystemAccountInflows(
+    @Param('accountId') accountId: string,
+    @Query() query: GetSystemAccountInflowsDto,
+  ) {
+    return this.treasuryService.getInflows(accountId, query);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Get('system-accounts/:accountId/transactions')
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(17)
+  @ApiOperation({ summary: "Admin: Get a system account's transactions" })
+  @ApiParam({ name: 'accountId', description: 'System Account ID' })
+  @ApiPagination()
+  @ApiResponse({
+    status: 200,
+    description: 'Transactions retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'System account not found' })
+  getSystemAccountTransactions(
+    @Param('accountId') accountId: string,
+    @Query() query: GetSystemAccountTransactionsDto,
+  ) {
+    return this.treasuryService.getTransactions(accountId, query);
+  }
+
+  @UseGuards(AdminJwtAuthGuard)
+  @Post('system-accounts/sweeps')
+  @Idempotent()
+  @ApiBearerAuth('admin-access-token')
+  @ApiSort(18)
+  @ApiOperation({
+    summary: 'Admin: Sweep collected fees to the settlement account',
+    description:
+      'Moves fees from the FEES or FX_SPREAD account to the SETTLEMENT system account with a mandatory reason. The amount defaults to the whole available balance and can never exceed it.',
+  })
+  @ApiBody({ description: 'Sweep payload', type: SweepFeesDto })
+  @ApiResponse({ status: 201, description: 'Sweep posted' })
+  @ApiResponse({ status: 400, description: 'Insufficient balance' })
+  @ApiResponse({ status: 409, description: 'Lock busy' })
+  sweepFees(
+    @Body() dto: SweepFeesDto,
+    @Request() req: { user: { _id?: string; id?: string } },
+  ) {
+    const adminId = req.user._id || req.user.id || '';
+    return this.treasuryService.sweepFees(dto, adminId);
+  }
 }
@@ -7,6 +7,7 @@ import {
   UseGuards,
   Request,
   Query,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -16,12 +17,24 @@ import {
   ApiBody,
   ApiBearerAuth,
   ApiQuery,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { WalletService } from './wallet.service';
+import { BalanceSnapshotService } from './balance-snapshot.service';
+import { StatementService } from './statement.service';
+import { TradeService } from './trade.service';
+import { ExchangeService } from './exchange.service';
 // import { CreateWalletDto } from './dto/create-wallet.dto';
 import { CreateMyWalletDto } from './dto/create-my-wallet.dto';
 import { GetTransactionHistoryDto } from './dto/get-transaction-history.dto';
 import { GetTransactionsReportDto } from './dto/get-transactions-report.dto';
+import { InternalTransferDto } from './dto/internal-transfer.dto';
+import { P2PTransferDto } from './dto/p2p-transfer.dto';
+import { GetP2PTransfersDto } from './dto/get-p2p-transfers.dto';
+import { GetBalanceAsOfDto } from './dto/get-balance-as-of.dto';
+import { GetStatementDto } from './dto/get-statement.dto';
+import { MetalTradeDto } from './dto/metal-trade.dto';
+import { CurrencyExchangeDto } from './dto/currency-exchange.dto';
 import { ApiSort } from '../../common/decorators/api-sort.decorator';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { type Request as ExpressRequest } from 'express';
@@ -29,12 +42,25 @@ import { WalletSubtype } from './dto/create-wallet.dto';
 import { Account, AccountDocument } from './schemas/account.schema';
 import { SuccessMessage } from '../../common/decorators/success-message.decorator';
 import { ApiAcceptLanguage } from '../../common/decorators/api-accept-language.decorator';
+import { SkipEnvelope } from '../../common/decorators/skip-envelope.decorator';
+import { I18nLang } from 'nestjs-i18n';
+import {
+  getPreferredLanguage,
+  resolveSupportedLanguage,
+} from '../../common/utils/language';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 
 @ApiTags('014- Wallets')
 @ApiAcceptLanguage()
 @Controller('wallets')
 export class WalletController {
-  constructor(private readonly walletService: WalletService) {}
+  constructor(
+    private readonly walletService: WalletService,
+    private readonly balanceSnapshotService: BalanceSnapshotService,
+    private readonly statementService: StatementService,
+    private readonly tradeService: TradeService,
+    private readonly exchangeService: ExchangeService,
+  ) {}
 
   private hasToJSON(doc: Account | AccountDocument): doc is AccountDocument {
     const candidate = doc as unknown as { toJSON?: () => unknown };
@@ -95,6 +121,33 @@ export class WalletController {
     );
   }
 
+  @UseGuards(JwtAuthGuard)
+  @Get(':accountId/balances/:assetSymbol/as-of')
+  @ApiSort(13)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Get wallet balance at a point in time',
+    description:
+      'Derived from the nearest earlier daily snapshot plus the transactions since then. The balance is available + locked + reserved.',
+  })
+  @ApiParam({ name: 'accountId', description: 'Wallet Account ID' })
+  @ApiParam({ name: 'assetSymbol', description: 'Asset symbol (e.g., USD)' })
+  @ApiResponse({ status: 200, description: 'Balance retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  getBalanceAsOf(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Param('accountId') accountId: string,
+    @Param('assetSymbol') assetSymbol: string,
+    @Query() query: GetBalanceAsOfDto,
+  ) {
+    return this.balanceSnapshotService.getBalanceAsOfForUser(
+      accountId,
+      req.user.id,
+      assetSymbol,
+      new Date(query.at),
+    );
+  }
+
   @UseGuards(JwtAuthGuard)
   @Post()
   @ApiSort(4)
@@ -165,6 +218,7 @@ export class WalletController {
       query.assetSymbol,
       query.limit || 50,
       query.offset || 0,
+      { type: query.type, direction: query.direction },
     );
   }
 
@@ -191,6 +245,184 @@ export class WalletController {
       query.endDate ? new Date(query.endDate) : undefined,
       query.limit || 100,
       query.offset || 0,
+      { type: query.type, direction: query.direction },
     );
   }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('my/transactions/statement')
+  @ApiSort(14)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Download an account statement (CSV or PDF)',
+    description:
+      'Opening and closing balance, every transaction in the period with its title in the caller language, and fee and tax subtotals. Arabic statements use a right-to-left layout.',
+  })
+  @ApiProduces('text/csv', 'application/pdf')
+  @ApiResponse({ status: 200, description: 'Statement file' })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  // The response is a file, not a JSON envelope
+  @SkipEnvelope()
+  async downloadStatement(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Query() query: GetStatementDto,
+    @I18nLang() reqLang?: string,
+  ): Promise<StreamableFile> {
+    const lang = resolveSupportedLanguage(reqLang ?? getPreferredLanguage(req));
+    const file = await this.statementService.generate(req.user.id, query, lang);
+    return new StreamableFile(file.buffer, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('my/transfers/internal')
+  @Idempotent()
+  @ApiSort(10)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Transfer funds between my MAIN and TRADING wallets',
+  })
+  @ApiBody({
+    description: 'Internal transfer payload',
+    type: InternalTransferDto,
+  })
+  @ApiResponse({ status: 201, description: 'Transfer completed successfully' })
+  @ApiResponse({ status: 400, description: 'Insufficient balance' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 409, description: 'Transfer failed (lock busy)' })
+  @SuccessMessage('common.messages.internal_transfer_completed')
+  async transferBetweenMyWallets(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Body() dto: InternalTransferDto,
+  ) {
+    return await this.walletService.transferBetweenOwnWallets(req.user.id, dto);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('my/transfers/p2p')
+  @Idempotent()
+  @ApiSort(11)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Send funds from my MAIN wallet to another user by email or id',
+  })
+  @ApiBody({ description: 'P2P transfer payload', type: P2PTransferDto })
+  @ApiResponse({ status: 201, description: 'Transfer completed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient balance or transfer to self',
+  })
+  @ApiResponse({ status: 404, description: 'Recipient or wallet not found' })
+  @ApiResponse({ status: 409, description: 'Transfer failed (lock busy)' })
+  @SuccessMessage('common.messages.p2p_transfer_completed')
+  async transferToUser(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Body() dto: P2PTransferDto,
+  ) {
+    return await this.walletService.transferToUser(req.user.id, dto);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('my/transfers/p2p')
+  @ApiSort(12)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'List P2P transfers I sent or received, with counterparty details',
+  })
+  @ApiResponse({ status: 200, description: 'Transfers retrieved successfully' })
+  @SuccessMessage('common.messages.p2p_transfers_retrieved')
+  async listP2PTransfers(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Query() query: GetP2PTransfersDto,
+  ) {
+    return await this.walletService.listP2PTransfers(req.user.id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('my/trades/buy')
+  @Idempotent()
+  @ApiSort(15)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Buy metal with a currency balance in my TRADING wallet',
+    description:
+      'Priced at the current metal price in the chosen currency. The buy fee is charged on top of quantity x price.',
+  })
+  @ApiBody({ description: 'Trade payload', type: MetalTradeDto })
+  @ApiResponse({ status: 201, description: 'Metal bought successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient balance or pricing inactive for the currency',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Wallet, metal or currency not found',
+  })
+  @ApiResponse({ status: 409, description: 'Trade failed (lock busy)' })
+  @SuccessMessage('common.messages.metal_bought')
+  async buyMetal(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Body() dto: MetalTradeDto,
+  ) {
+    return await this.tradeService.buy(req.user.id, dto);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('my/trades/sell')
+  @Idempotent()
+  @ApiSort(16)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Sell metal from my TRADING wallet for a currency balance',
+    description:
+      'Priced at the current metal price in the chosen currency. The sell fee is taken from the proceeds.',
+  })
+  @ApiBody({ description: 'Trade payload', type: MetalTradeDto })
+  @ApiResponse({ status: 201, description: 'Metal sold successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient metal or pricing inactive for the currency',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Wallet, metal or currency not found',
+  })
+  @ApiResponse({ status: 409, description: 'Trade failed (lock busy)' })
+  @SuccessMessage('common.messages.metal_sold')
+  async sellMetal(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Body() dto: MetalTradeDto,
+  ) {
+    return await this.tradeService.sell(req.user.id, dto);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('my/exchange')
+  @Idempotent()
+  @ApiSort(17)
+  @ApiBearerAuth('user-access-token')
+  @ApiOperation({
+    summary: 'Convert between two currency balances of my wallet',
+    description:
+      'Converted at the admin-set rate for the pair. The spread is taken from the converted amount. Uses the MAIN wallet unless walletSubtype is given.',
+  })
+  @ApiBody({ description: 'Conversion payload', type: CurrencyExchangeDto })
+  @ApiResponse({ status: 201, description: 'Currency converted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient balance or no active rate for the pair',
+  })
+  @ApiResponse({ status: 403, description: 'Wallet is frozen' })
+  @ApiResponse({ status: 404, description: 'Wallet or currency not found' })
+  @ApiResponse({ status: 409, description: 'Conversion failed (lock busy)' })
+  @SuccessMessage('common.messages.currency_exchanged')
+  async exchangeCurrency(
+    @Request() req: ExpressRequest & { user: { id: string } },
+    @Body() dto: CurrencyExchangeDto,
+  ) {
+    return await this.exchangeService.convert(req.user.id, dto);
+  }
 }
@@ -1,6 +1,14 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { WalletService } from './wallet.service';
+import { ReconciliationService } from './reconciliation.service';
+import { BalanceSnapshotService } from './balance-snapshot.service';
+import { StatementService } from './statement.service';
+import { AdjustmentService } from './adjustment.service';
+import { AccountFreezeService } from './account-freeze.service';
+import { TradeService } from './trade.service';
+import { ExchangeService } from './exchange.service';
+import { TreasuryService } from './treasury.service';
 import { WalletController } from './wallet.controller';
 import { WalletAdminController } from './wallet.admin.controller';
 import { Account, AccountSchema } from './schemas/account.schema';
@@ -15,22 +23,90 @@ import {
   WalletDepositOrderSchema,
 } from './schemas/wallet-deposit-order.schema';
 import { Currency, CurrencySchema } from '../currency/schemas/currency.schema';
+import { Metal, MetalSchema } from '../metal/schemas/metal.schema';
 import { Payment, PaymentSchema } from '../paytabs/schemas/paytabs.schema';
+import {
+  WalletWithdrawalOrder,
+  WalletWithdrawalOrderSchema,
+} from '../withdrawal/schemas/wallet-withdrawal-order.schema';
+import { P2PTransfer, P2PTransferSchema } from './schemas/p2p-transfer.schema';
+import {
+  ReconciliationRun,
+  ReconciliationRunSchema,
+} from './schemas/reconciliation-run.schema';
+import {
+  AccountFreezeHistory,
+  AccountFreezeHistorySchema,
+} from './schemas/account-freeze-history.schema';
+import {
+  ReconciliationMismatch,
+  ReconciliationMismatchSchema,
+} from './schemas/reconciliation-mismatch.schema';
+import {
+  BalanceSnapshot,
+  BalanceSnapshotSchema,
+} from './schemas/balance-snapshot.schema';
+import { MetalTrade, MetalTradeSchema } from './schemas/metal-trade.schema';
+import {
+  CurrencyExchange,
+  CurrencyExchangeSchema,
+} from './schemas/currency-exchange.schema';
+import {
+  ExchangeRate,
+  ExchangeRateSchema,
+} from '../currency/schemas/exchange-rate.schema';
+import { UsersModule } from '../users/users.module';
+import { LimitModule } from '../limit/limit.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Account.name, schema: AccountSchema },
+      {
+        name: AccountFreezeHistory.name,
+        schema: AccountFreezeHistorySchema,
+      },
       { name: Balance.name, schema: BalanceSchema },
       { name: JournalEntry.name, schema: JournalEntrySchema },
       { name: Transaction.name, schema: TransactionSchema },
       { name: WalletDepositOrder.name, schema: WalletDepositOrderSchema },
       { name: Currency.name, schema: CurrencySchema },
+      { name: Metal.name, schema: MetalSchema },
       { name: Payment.name, schema: PaymentSchema },
+      { name: P2PTransfer.name, schema: P2PTransferSchema },
+      { name: ReconciliationRun.name, schema: ReconciliationRunSchema },
+      {
+        name: ReconciliationMismatch.name,
+        schema: ReconciliationMismatchSchema,
+      },
+      { name: BalanceSnapshot.name, schema: BalanceSnapshotSchema },
+      { name: MetalTrade.name, schema: MetalTradeSchema },
+      { name: CurrencyExchange.name, schema: CurrencyExchangeSchema },
+      { name: ExchangeRate.name, schema: ExchangeRateSchema },
+      {
+        name: WalletWithdrawalOrder.name,
+        schema: WalletWithdrawalOrderSchema,
+      },
     ]),
+    UsersModule,
+    LimitModule,
+    LedgerModule,
+    RealtimeModule,
   ],
   controllers: [WalletAdminController, WalletController],
-  providers: [WalletService],
+  providers: [
+    WalletService,
+    ReconciliationService,
+    BalanceSnapshotService,
+    StatementService,
+    AdjustmentService,
+    AccountFreezeService,
+    TradeService,
+    ExchangeService,
+    TreasuryService,
+  ],
   exports: [WalletService],
 })
 export class WalletModule {}
@@ -1,25 +1,29 @@
 import {
   ConflictException,
+  ForbiddenException,
   Injectable,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
 import { I18nService } from 'nestjs-i18n';
 import {
   Account,
   AccountDocument,
   AccountStatus,
   AccountType,
+  isCreditBlocked,
+  isDebitBlocked,
 } from './schemas/account.schema';
-import { Balance, BalanceDocument } from './schemas/balance.schema';
+import { Balance, BalanceDocument, assetType } from './schemas/balance.schema';
 import {
   JournalEntry,
   JournalEntryDocument,
 } from './schemas/journal-entry.schema';
 import {
   Transaction,
+  TransactionDirection,
   TransactionDocument,
   TransactionType,
 } from './schemas/transaction.schema';
@@ -31,8 +35,13 @@ import {
 import { CreateWalletDto } from './dto/create-wallet.dto';
 import { DepositDto } from './dto/deposit.dto';
 import { DepositViaPayTabsDto } from './dto/deposit-via-paytabs.dto';
-import { RedisLockService } from '../../common/services/internal/redis-lock.service';
-import { MongoService } from '../../common/services/internal/mongo.service';
+import { InternalTransferDto } from './dto/internal-transfer.dto';
+import { P2PTransferDto } from './dto/p2p-transfer.dto';
+import { GetP2PTransfersDto } from './dto/get-p2p-transfers.dto';
+import {
+  P2PTransfer,
+  P2PTransferDocument,
+} from './schemas/p2p-transfer.schema';
 import { WalletSubtype } from './dto/create-wallet.dto';
 import {
   Currency,
@@ -47,6 +56,30 @@ import {
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { PaymentResponseDto } from '../paytabs/dto/paytabs.dto';
+import { UsersService } from '../users/users.service';
+import { LimitService } from '../limit/limit.service';
+import { LedgerLeg, LedgerService } from '../ledger/ledger.service';
+import {
+  RealtimeEventType,
+  RealtimeService,
+} from '../realtime/realtime.service';
+import { LimitDirection } from '../limit/schemas/limit-profile.schema';
+import {
+  MoneyPrecision,
+  addMoney,
+  calculateFee,
+  precisionOf,
+  roundMoney,
+} from '../../common/utils/money';
+
+// `ownerModule` on the limit usage of PayTabs deposits; `ownerRef` is the
+// deposit order id
+const PAYTABS_DEPOSIT_OWNER = 'paytabs-deposit';
+
+interface TransactionFilters {
+  type?: TransactionType;
+  direction?: TransactionDirection;
+}
 
 interface PayTabsFeeStructure {
   enabled?: boolean;
@@ -75,10 +108,14 @@ export class WalletService {
     private currencyModel: Model<CurrencyDocument>,
     @InjectModel(Payment.name)
     private paymentModel: Model<PaymentDocument>,
-    private readonly mongo: MongoService,
+    @InjectModel(P2PTransfer.name)
+    private p2pTransferModel: Model<P2PTransferDocument>,
     private readonly i18n: I18nService,
-    private readonly lockService: RedisLockService,
     private readonly configService: ConfigService,
+    private readonly usersService: UsersService,
+    private readonly limitService: LimitService,
+    private readonly ledgerService: LedgerService,
+    private readonly realtimeService: RealtimeService,
   ) {
     this.profileId = this.configService.get<string>('paytabs.profileId') || '';
     this.serverKey = this.configService.get<string>('paytabs.serverKey') || '';
@@ -138,9 +175,9 @@ export class WalletService {
     return regionUrls[this.region] || regionUrls.SAU;
   }
 
-  private async getAssetIdBySymbol(
+  private async getCurrencyBySymbol(
     assetSymbol: string,
-  ): Promise<Types.ObjectId> {
+  ): Promise<CurrencyDocument> {
     // For now, only supporting currencies. Metals would require additional model injection.
     const currency = await this.currencyModel.findOne({
       symbol: assetSymbol,
@@ -151,21 +188,30 @@ export class WalletService {
         this.i18n.t('common.errors.currency_not_found'),
       );
     }
-    return currency._id as Types.ObjectId;
+    return currency;
   }
 
-  private calculateFees(amount: number, fees: PayTabsFeeStructure): number {
-    let totalFees = 0;
-    if (!fees?.enabled) {
-      return totalFees;
-    }
-    if (fees.type === 'percentage' || fees.type === 'hybrid') {
-      totalFees += (amount * (fees.percentage || 0)) / 100;
+  private assertDebitAllowed(account: Account): void {
+    if (isDebitBlocked(account)) {
+      throw new ForbiddenException(this.i18n.t('common.errors.wallet_frozen'));
     }
-    if (fees.type === 'fixed' || fees.type === 'hybrid') {
-      totalFees += fees.fixedAmount || 0;
+  }
+
+  private assertCreditAllowed(
+    account: Account,
+    message = 'common.errors.wallet_frozen_for_credits',
+  ): void {
+    if (isCreditBlocked(account)) {
+      throw new ForbiddenException(this.i18n.t(message));
     }
-    return totalFees;
+  }
+
+  private calculateFees(
+    amount: number,
+    fees: PayTabsFeeStructure,
+    precision: MoneyPrecision,
+  ): number {
+    return calculateFee(amount, fees, precision);
   }
 
   async getBalance(accountId: string, assetSymbol: string): Promise<Balance> {
@@ -243,6 +289,7 @@ export class WalletService {
         this.i18n.t('common.errors.wallet_not_found'),
       );
     }
+    this.assertCreditAllowed(walletAcc);
 
     // Validate currency and check if PayTabs is enabled
     if (!Types.ObjectId.isValid(dto.currencyId)) {
@@ -270,25 +317,41 @@ export class WalletService {
     }
 
     // Calculate fees and taxes
-    const baseAmount = dto.amount;
+    const precision = precisionOf(cur);
+    const baseAmount = roundMoney(dto.amount, precision);
     const feesAmount = cur.paytab.paytabFees?.enabled
       ? this.calculateFees(
           baseAmount,
           cur.paytab.paytabFees as PayTabsFeeStructure,
+          precision,
         )
       : 0;
     const taxAmount = cur.paytab.paytabTax?.enabled
       ? this.calculateFees(
           baseAmount,
           cur.paytab.paytabTax as PayTabsFeeStructure,
+          precision,
         )
       : 0;
-    const totalAmount = baseAmount + feesAmount + taxAmount;
+    const totalAmount = addMoney(
+      [baseAmount, feesAmount, taxAmount],
+      precision,
+    );
+
+    // Count the deposit against the user's limits until the payment fails
+    const orderId = `DEPOSIT-${(walletAcc._id as Types.ObjectId).toHexString()}-${Date.now()}`;
+    await this.limitService.consume({
+      userId: new Types.ObjectId(userId),
+      currencySymbol: cur.symbol,
+      direction: LimitDirection.DEPOSIT,
+      amount: baseAmount,
+      ownerModule: PAYTABS_DEPOSIT_OWNER,
+      ownerRef: orderId,
+    });
 
     // Create payment page with PayTabs
     try {
       const customerDetails = dto.customerDetails;
-      const orderId = `DEPOSIT-${(walletAcc._id as Types.ObjectId).toHexString()}-${Date.now()}`;
       const orderType = 'WALLET_DEPOSIT';
 
       const paymentPageData = {
@@ -381,6 +444,7 @@ export class WalletService {
         cart_currency: response.data.cart_currency,
       };
     } catch (error) {
+      await this.limitService.release(PAYTABS_DEPOSIT_OWNER, orderId);
       if (axios.isAxiosError(error)) {
         const responseData = error.response?.data as
           | { message?: string }
@@ -398,6 +462,14 @@ export class WalletService {
     }
   }
 
+  // Called for PayTabs deposits that did not go through
+  async releaseDepositLimit(
+    orderId: string,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.limitService.release(PAYTABS_DEPOSIT_OWNER, orderId, session);
+  }
+
   async processDepositFromWebhook(tranRef: string): Promise<void> {
     // Find Payment by tranRef to get paymentId
     const payment = await this.paymentModel.findOne({
@@ -442,8 +514,13 @@ export class WalletService {
 
       await this.walletDepositOrderModel.updateOne(
         { _id: depositOrder._id },
-        { processed: true, journalEntryIds: journalIds },
+        { processed: true, expiredAt: null, journalEntryIds: journalIds },
+      );
+      await this.limitService.restore(
+        PAYTABS_DEPOSIT_OWNER,
+        depositOrder.orderId,
       );
+      await this.notifyDepositProcessed(depositOrder);
       return; // Already processed
     }
 
@@ -452,7 +529,6 @@ export class WalletService {
     const baseAmount = depositOrder.baseAmount;
     const feesAmount = depositOrder.feesAmount;
     const taxAmount = depositOrder.taxAmount;
-    const assetSymbol = depositOrder.assetSymbol;
 
     const walletAcc = await this.accountModel.findOne({
       _id: walletAccountId,
@@ -464,227 +540,117 @@ export class WalletService {
         this.i18n.t('common.errors.wallet_not_found'),
       );
     }
+    // Leave the order unprocessed so it can be replayed once credits resume
+    this.assertCreditAllowed(walletAcc);
 
     const systemFees = await this.ensureSystemTreasury('FEES');
     const systemTax = await this.ensureSystemTreasury('TAX');
+    // Clearing account standing in for funds held by PayTabs
+    const externalPayTabs = await this.ensureSystemTreasury('EXTERNAL_PAYTABS');
 
-    // Prepare lock keys
-    const walletIdStr = (walletAcc._id as Types.ObjectId).toHexString();
-    const feesIdStr = (systemFees._id as Types.ObjectId).toHexString();
-    const taxIdStr = (systemTax._id as Types.ObjectId).toHexString();
-
-    const lockKeys = [
-      `wallet:${walletIdStr}:${assetSymbol}`,
-      `wallet:${feesIdStr}:${assetSymbol}`,
-      `wallet:${taxIdStr}:${assetSymbol}`,
-    ].sort();
-
-    const ttlMs = 10000;
-    const tokens: Array<{ key: string; token: string }> = [];
+    const asset = {
+      assetType: assetType.CURRENCY,
+      assetId: depositOrder.assetId,
+      assetSymbol: depositOrder.assetSymbol,
+    };
+    const legs: LedgerLeg[] = [];
+    // 1. Direct deposit to user wallet (no debit from treasury)
+    if (baseAmount > 0) {
+      legs.push(
+        { account: externalPayTabs, asset, amount: -baseAmount, suffix: '' },
+        {
+          account: walletAcc,
+          asset,
+          amount: baseAmount,
+          title: {
+            en: 'Direct deposit via PayTabs',
+            ar: 'إيداع مباشر عبر باي تابز',
+          },
+          suffix: '',
+        },
+      );
+    }
+    // 2. Direct deposit of platform fees (if any)
+    if (feesAmount > 0) {
+      legs.push(
+        {
+          account: externalPayTabs,
+          asset,
+          amount: -feesAmount,
+          suffix: '-fees',
+        },
+        {
+          account: systemFees,
+          asset,
+          amount: feesAmount,
+          title: {
+            en: 'Platform fees from PayTabs deposit',
+            ar: 'عمولة المنصة من إيداع باي تابز',
+          },
+          type: TransactionType.FEE,
+          suffix: '-fees',
+        },
+      );
+    }
+    // 3. Direct deposit of tax (if any)
+    if (taxAmount > 0) {
+      legs.push(
+        { account: externalPayTabs, asset, amount: -taxAmount, suffix: '-tax' },
+        {
+          account: systemTax,
+          asset,
+          amount: taxAmount,
+          title: {
+            en: 'Tax from PayTabs deposit',
+            ar: 'ضريبة من إيداع باي تابز',
+          },
+          type: TransactionType.TAX,
+          suffix: '-tax',
+        },
+      );
+    }
 
-    try {
-      // Acquire all locks
-      for (const key of lockKeys) {
-        const token = await this.lockService.acquire(key, ttlMs);
-        if (!token) {
-          throw new ConflictException(
-            this.i18n.t('common.errors.deposit_failed'),
-          );
-        }
-        tokens.push({ key, token });
-      }
+    await this.ledgerService.post({
+      idempotencyKey,
+      legs,
+      busyMessage: 'common.errors.deposit_failed',
+      afterPost: async (entries, session) => {
+        // Mark deposit order as processed and attach journal entries
+        await this.walletDepositOrderModel.updateOne(
+          { _id: depositOrder._id },
+          {
+            processed: true,
+            // A payment confirmed after the order expired still credits it
+            expiredAt: null,
+            journalEntryIds: entries.map((entry) => entry._id),
+          },
+          { session },
+        );
+        // An expired or declined order stopped counting against the deposit
+        // limits; the credit counts it again in the same transaction
+        await this.limitService.restore(
+          PAYTABS_DEPOSIT_OWNER,
+          depositOrder.orderId,
+          session,
+        );
+      },
+    });
+    await this.notifyDepositProcessed(depositOrder);
+  }
 
-      const session = await this.mongo.startSession();
-      try {
-        await session.withTransaction(async () => {
-          const createdJournalIds: Types.ObjectId[] = [];
-          // 1. Direct deposit to user wallet (no debit from treasury)
-          if (baseAmount > 0) {
-            const userBalBefore = await this.balanceModel.findOne({
-              accountId: walletAcc._id,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              assetSymbol,
-            });
-            const balanceBefore = userBalBefore?.available || 0;
-
-            const userBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: walletAcc._id,
-                assetType: 'CURRENCY',
-                assetId: depositOrder.assetId,
-                assetSymbol,
-              },
-              { $inc: { available: baseAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const userTx = await new this.transactionModel({
-              accountId: walletAcc._id,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              balanceId: userBal._id,
-              assetSymbol,
-              type: TransactionType.DEPOSIT,
-              amount: baseAmount,
-              balanceBefore,
-              balanceAfter: userBal.available,
-              title: {
-                en: 'Direct deposit via PayTabs',
-                ar: 'إيداع مباشر عبر باي تابز',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            // Journal entry without debitAccountId (direct external deposit)
-            const journal1 = await new this.journalModel({
-              creditAccountId: walletAcc._id,
-              assetSymbol,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              amount: baseAmount,
-              transactionIds: [(userTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: userTx._id },
-              { journalEntryId: journal1._id },
-              { session },
-            );
-            createdJournalIds.push(journal1._id as Types.ObjectId);
-          }
-
-          // 2. Direct deposit of platform fees (if any)
-          if (feesAmount > 0) {
-            const feesBalBefore = await this.balanceModel.findOne({
-              accountId: systemFees._id,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              assetSymbol,
-            });
-            const feesBefore = feesBalBefore?.available || 0;
-
-            const feesBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: systemFees._id,
-                assetType: 'CURRENCY',
-                assetId: depositOrder.assetId,
-                assetSymbol,
-              },
-              { $inc: { available: feesAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const feesTx = await new this.transactionModel({
-              accountId: systemFees._id,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              balanceId: feesBal._id,
-              assetSymbol,
-              type: TransactionType.DEPOSIT,
-              amount: feesAmount,
-              balanceBefore: feesBefore,
-              balanceAfter: feesBal.available,
-              title: {
-                en: 'Platform fees from PayTabs deposit',
-                ar: 'عمولة المنصة من إيداع باي تابز',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            // Journal entry without debitAccountId (direct external fees)
-            const journal2 = await new this.journalModel({
-              creditAccountId: systemFees._id,
-              assetSymbol,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              amount: feesAmount,
-              transactionIds: [(feesTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey: `${idempotencyKey}-fees`,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: feesTx._id },
-              { journalEntryId: journal2._id },
-              { session },
-            );
-            createdJournalIds.push(journal2._id as Types.ObjectId);
-          }
-
-          // 3. Direct deposit of tax (if any)
-          if (taxAmount > 0) {
-            const taxBalBefore = await this.balanceModel.findOne({
-              accountId: systemTax._id,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              assetSymbol,
-            });
-            const taxBefore = taxBalBefore?.available || 0;
-
-            const taxBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: systemTax._id,
-                assetType: 'CURRENCY',
-                assetId: depositOrder.assetId,
-                assetSymbol,
-              },
-              { $inc: { available: taxAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const taxTx = await new this.transactionModel({
-              accountId: systemTax._id,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              balanceId: taxBal._id,
-              assetSymbol,
-              type: TransactionType.DEPOSIT,
-              amount: taxAmount,
-              balanceBefore: taxBefore,
-              balanceAfter: taxBal.available,
-              title: {
-                en: 'Tax from PayTabs deposit',
-                ar: 'ضريبة من إيداع باي تابز',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            // Journal entry without debitAccountId (direct external tax)
-            const journal3 = await new this.journalModel({
-              creditAccountId: systemTax._id,
-              assetSymbol,
-              assetType: 'CURRENCY',
-              assetId: depositOrder.assetId,
-              amount: taxAmount,
-              transactionIds: [(taxTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey: `${idempotencyKey}-tax`,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: taxTx._id },
-              { journalEntryId: journal3._id },
-              { session },
-            );
-            createdJournalIds.push(journal3._id as Types.ObjectId);
-          }
-
-          // Mark deposit order as processed and attach journal entries
-          await this.walletDepositOrderModel.updateOne(
-            { _id: depositOrder._id },
-            { processed: true, journalEntryIds: createdJournalIds },
-            { session },
-          );
-        });
-      } finally {
-        await session.endSession();
-      }
-    } finally {
-      // Release all locks
-      for (const { key, token } of tokens) {
-        await this.lockService.release(key, token);
-      }
-    }
+  private async notifyDepositProcessed(
+    depositOrder: WalletDepositOrderDocument,
+  ): Promise<void> {
+    await this.realtimeService.publish(
+      depositOrder.userId,
+      RealtimeEventType.DEPOSIT_ORDER_PROCESSED,
+      {
+        orderId: depositOrder.orderId,
+        walletAccountId: depositOrder.walletAccountId.toHexString(),
+        assetSymbol: depositOrder.assetSymbol,
+        amount: depositOrder.baseAmount,
+      },
+    );
   }
 
   async deposit(
@@ -698,9 +664,6 @@ export class WalletService {
       return { balance: bal, journal: existingJournal };
     }
 
-    // Get assetId from symbol
-    const assetId = await this.getAssetIdBySymbol(dto.assetSymbol);
-
     const walletAcc = await this.accountModel.findOne({
       _id: dto.walletAccountId,
       deletedAt: null,
@@ -710,131 +673,7 @@ export class WalletService {
         this.i18n.t('common.errors.wallet_not_found'),
       );
     }
-    const sys = await this.ensureSystemTreasury();
-    const walletIdStr =
-      walletAcc._id instanceof Types.ObjectId
-        ? walletAcc._id.toHexString()
-        : String(walletAcc._id);
-    const sysIdStr =
-      sys._id instanceof Types.ObjectId
-        ? sys._id.toHexString()
-        : String(sys._id);
-    const keyA = `wallet:${walletIdStr}:${dto.assetSymbol}`;
-    const keyB = `wallet:${sysIdStr}:${dto.assetSymbol}`;
-    const [firstKey, secondKey] = keyA < keyB ? [keyA, keyB] : [keyB, keyA];
-    const ttlMs = 5000;
-    const token1 = await this.lockService.acquire(firstKey, ttlMs);
-    if (!token1)
-      throw new ConflictException(this.i18n.t('common.errors.deposit_failed'));
-    const token2 = await this.lockService.acquire(secondKey, ttlMs);
-    if (!token2) {
-      await this.lockService.release(firstKey, token1);
-      throw new ConflictException(this.i18n.t('common.errors.deposit_failed'));
-    }
-
-    const session = await this.mongo.startSession();
-    let result: { balance: Balance; journal: JournalEntry } | null = null;
-    try {
-      await session.withTransaction(async () => {
-        // Get balance before for user wallet
-        const userBalBefore = await this.balanceModel.findOne({
-          accountId: walletAcc._id,
-          assetType: 'CURRENCY',
-          assetId,
-          assetSymbol: dto.assetSymbol,
-        });
-        const balanceBefore = userBalBefore?.available || 0;
-
-        const walletBal = await this.balanceModel.findOneAndUpdate(
-          {
-            accountId: walletAcc._id,
-            assetType: 'CURRENCY',
-            assetId,
-            assetSymbol: dto.assetSymbol,
-          },
-          { $inc: { available: dto.amount } },
-          { new: true, upsert: true, session },
-        );
-
-        // Create transaction for user wallet (deposit)
-        const userTx = await new this.transactionModel({
-          accountId: walletAcc._id,
-          assetType: 'CURRENCY',
-          assetId,
-          balanceId: walletBal._id,
-          assetSymbol: dto.assetSymbol,
-          type: TransactionType.DEPOSIT,
-          amount: dto.amount,
-          balanceBefore,
-          balanceAfter: walletBal.available,
-          title: {
-            en: 'Deposit',
-            ar: 'إيداع',
-          },
-          journalEntryId: null,
-        }).save({ session });
-
-        await this.balanceModel.findOneAndUpdate(
-          {
-            accountId: sys._id,
-            assetType: 'CURRENCY',
-            assetId,
-            assetSymbol: dto.assetSymbol,
-          },
-          { $inc: { available: -dto.amount } },
-          { new: true, upsert: true, session },
-        );
-
-        // Create transaction for system treasury (withdrawal)
-        const sysTx = await new this.transactionModel({
-          accountId: sys._id,
-          assetType: 'CURRENCY',
-          assetId,
-          balanceId: null, // System treasury transaction, no specific balance tracking
-          assetSymbol: dto.assetSymbol,
-          type: TransactionType.WITHDRAWAL,
-          amount: dto.amount,
-          balanceBefore: 0,
-          balanceAfter: 0,
-          title: {
-            en: 'User deposit',
-            ar: 'إيداع مستخدم',
-          },
-          journalEntryId: null,
-        }).save({ session });
-
-        const journal = await new this.journalModel({
-          debitAccountId: sys._id,
-          creditAccountId: walletAcc._id,
-          assetSymbol: dto.assetSymbol,
-          assetType: 'CURRENCY',
-          assetId,
-          amount: dto.amount,
-          transactionIds: [
-            (userTx._id as Types.ObjectId).toHexString(),
-            (sysTx._id as Types.ObjectId).toHexString(),
-          ],
-          idempotencyKey: dto.idempotencyKey,
-        }).save({ session });
-
-        // Update transactions with journal entry ID
-        await this.transactionModel.updateMany(
-          { _id: { $in: [userTx._id, sysTx._id] } },
-          { journalEntryId: journal._id },
-          { session },
-        );
-
-        result = { balance: walletBal, journal };
-      });
-    } finally {
-      await session.endSession();
-      await this.lockService.release(firstKey, token1);
-      await this.lockService.release(secondKey, token2);
-    }
-    if (!result) {
-      throw new ConflictException(this.i18n.t('common.errors.deposit_failed'));
-    }
-    return result;
+    return this.creditFromTreasury(walletAcc, dto);
   }
 
   async depositForUser(
@@ -849,9 +688,6 @@ export class WalletService {
       return { balance: bal, journal: existingJournal };
     }
 
-    // Get assetId from symbol
-    const assetId = await this.getAssetIdBySymbol(dto.assetSymbol);
-
     const walletAcc = await this.accountModel.findOne({
       _id: dto.walletAccountId,
       userId: new Types.ObjectId(userId),
@@ -862,131 +698,342 @@ export class WalletService {
         this.i18n.t('common.errors.wallet_not_found'),
       );
     }
+    return this.creditFromTreasury(walletAcc, dto);
+  }
+
+  // Direct deposit funded by the TREASURY account
+  private async creditFromTreasury(
+    walletAcc: AccountDocument,
+    dto: DepositDto,
+  ): Promise<{ balance: Balance; journal: JournalEntry }> {
+    this.assertCreditAllowed(walletAcc);
+    const currency = await this.getCurrencyBySymbol(dto.assetSymbol);
+    const amount = roundMoney(dto.amount, precisionOf(currency));
     const sys = await this.ensureSystemTreasury();
-    const walletIdStr =
-      walletAcc._id instanceof Types.ObjectId
-        ? walletAcc._id.toHexString()
-        : String(walletAcc._id);
-    const sysIdStr =
-      sys._id instanceof Types.ObjectId
-        ? sys._id.toHexString()
-        : String(sys._id);
-    const keyA = `wallet:${walletIdStr}:${dto.assetSymbol}`;
-    const keyB = `wallet:${sysIdStr}:${dto.assetSymbol}`;
-    const [firstKey, secondKey] = keyA < keyB ? [keyA, keyB] : [keyB, keyA];
-    const ttlMs = 5000;
-    const token1 = await this.lockService.acquire(firstKey, ttlMs);
-    if (!token1)
-      throw new ConflictException(this.i18n.t('common.errors.deposit_failed'));
-    const token2 = await this.lockService.acquire(secondKey, ttlMs);
-    if (!token2) {
-      await this.lockService.release(firstKey, token1);
-      throw new ConflictException(this.i18n.t('common.errors.deposit_failed'));
+    const asset = {
+      assetType: assetType.CURRENCY,
+      assetId: currency._id as Types.ObjectId,
+      assetSymbol: dto.assetSymbol,
+    };
+
+    const { entries, balances } = await this.ledgerService.post({
+      idempotencyKey: dto.idempotencyKey,
+      legs: [
+        {
+          account: sys,
+          asset,
+          amount: -amount,
+          title: { en: 'User deposit', ar: 'إيداع مستخدم' },
+          suffix: '',
+        },
+        {
+          account: walletAcc,
+          asset,
+          amount,
+          title: { en: 'Deposit', ar: 'إيداع' },
+          suffix: '',
+        },
+      ],
+      busyMessage: 'common.errors.deposit_failed',
+    });
+    return { balance: balances[1], journal: entries[0] };
+  }
+
+  async transferBetweenOwnWallets(
+    userId: string,
+    dto: InternalTransferDto,
+  ): Promise<{
+    fromBalance: Balance;
+    toBalance: Balance;
+    journal: JournalEntry;
+  }> {
+    if (dto.fromSubtype === dto.toSubtype) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.transfer_same_wallet'),
+      );
     }
 
-    const session = await this.mongo.startSession();
-    let result: { balance: Balance; journal: JournalEntry } | null = null;
-    try {
-      await session.withTransaction(async () => {
-        // Get balance before for user wallet
-        const userBalBefore = await this.balanceModel.findOne({
-          accountId: walletAcc._id,
-          assetType: 'CURRENCY',
-          assetId,
-          assetSymbol: dto.assetSymbol,
-        });
-        const balanceBefore = userBalBefore?.available || 0;
-
-        const walletBal = await this.balanceModel.findOneAndUpdate(
-          {
-            accountId: walletAcc._id,
-            assetType: 'CURRENCY',
-            assetId,
-            assetSymbol: dto.assetSymbol,
-          },
-          { $inc: { available: dto.amount } },
-          { new: true, upsert: true, session },
-        );
+    const [fromAcc, toAcc] = await Promise.all([
+      this.accountModel.findOne({
+        type: AccountType.WALLET,
+        userId: new Types.ObjectId(userId),
+        subtype: dto.fromSubtype,
+        deletedAt: null,
+      }),
+      this.accountModel.findOne({
+        type: AccountType.WALLET,
+        userId: new Types.ObjectId(userId),
+        subtype: dto.toSubtype,
+        deletedAt: null,
+      }),
+    ]);
+    if (!fromAcc || !toAcc) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    const fromIdStr = (fromAcc._id as Types.ObjectId).toHexString();
+    const toIdStr = (toAcc._id as Types.ObjectId).toHexString();
 
-        // Create transaction for user wallet (deposit)
-        const userTx = await new this.transactionModel({
-          accountId: walletAcc._id,
-          assetType: 'CURRENCY',
-          assetId,
-          balanceId: walletBal._id,
-          assetSymbol: dto.assetSymbol,
-          type: TransactionType.DEPOSIT,
-          amount: dto.amount,
-          balanceBefore,
-          balanceAfter: walletBal.available,
+    // Scope the client key per user so two users can't collide on the same key
+    const idempotencyKey = `internal-transfer-${userId}-${dto.idempotencyKey}`;
+    const existingJournal = await this.journalModel.findOne({
+      idempotencyKey,
+    });
+    if (existingJournal) {
+      const [fromBalance, toBalance] = await Promise.all([
+        this.getBalance(fromIdStr, dto.assetSymbol),
+        this.getBalance(toIdStr, dto.assetSymbol),
+      ]);
+      return { fromBalance, toBalance, journal: existingJournal };
+    }
+    this.assertDebitAllowed(fromAcc);
+    this.assertCreditAllowed(toAcc);
+
+    const currency = await this.getCurrencyBySymbol(dto.assetSymbol);
+    const amount = roundMoney(dto.amount, precisionOf(currency));
+    const asset = {
+      assetType: assetType.CURRENCY,
+      assetId: currency._id as Types.ObjectId,
+      assetSymbol: dto.assetSymbol,
+    };
+
+    const { entries, balances } = await this.ledgerService.post({
+      idempotencyKey,
+      legs: [
+        {
+          account: fromAcc,
+          asset,
+          amount: -amount,
           title: {
-            en: 'Deposit',
-            ar: 'إيداع',
+            en: `Transfer to ${dto.toSubtype} wallet`,
+            ar: `تحويل إلى محفظة ${dto.toSubtype}`,
           },
-          journalEntryId: null,
-        }).save({ session });
-
-        await this.balanceModel.findOneAndUpdate(
-          {
-            accountId: sys._id,
-            assetType: 'CURRENCY',
-            assetId,
-            assetSymbol: dto.assetSymbol,
+          type: TransactionType.TRANSFER_OUT,
+          suffix: '',
+        },
+        {
+          account: toAcc,
+          asset,
+          amount,
+          title: {
+            en: `Transfer from ${dto.fromSubtype} wallet`,
+            ar: `تحويل من محفظة ${dto.fromSubtype}`,
           },
-          { $inc: { available: -dto.amount } },
-          { new: true, upsert: true, session },
-        );
+          type: TransactionType.TRANSFER_IN,
+          suffix: '',
+        },
+      ],
+      busyMessage: 'common.errors.transfer_failed',
+    });
+    return {
+      fromBalance: balances[0],
+      toBalance: balances[1],
+      journal: entries[0],
+    };
+  }
 
-        // Create transaction for system treasury (withdrawal)
-        const sysTx = await new this.transactionModel({
-          accountId: sys._id,
-          assetType: 'CURRENCY',
-          assetId,
-          balanceId: null, // System treasury transaction, no specific balance tracking
-          assetSymbol: dto.assetSymbol,
-          type: TransactionType.WITHDRAWAL,
-          amount: dto.amount,
-          balanceBefore: 0,
-          balanceAfter: 0,
+  async transferToUser(
+    senderId: string,
+    dto: P2PTransferDto,
+  ): Promise<{ transfer: P2PTransfer; senderBalance: Balance }> {
+    const sender = await this.usersService.findOne(senderId);
+    const recipient = dto.recipientUserId
+      ? await this.usersService.findOne(dto.recipientUserId).catch(() => null)
+      : await this.usersService.findByEmail(dto.recipientEmail ?? '');
+    if (!recipient) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.recipient_not_found'),
+      );
+    }
+    const recipientId = (recipient._id as Types.ObjectId).toHexString();
+    if (recipientId === senderId) {
+      throw new BadRequestException(
+        this.i18n.t('common.errors.cannot_transfer_to_self'),
+      );
+    }
+
+    const [senderAcc, recipientAcc] = await Promise.all([
+      this.accountModel.findOne({
+        type: AccountType.WALLET,
+        userId: new Types.ObjectId(senderId),
+        subtype: WalletSubtype.MAIN,
+        deletedAt: null,
+      }),
+      this.accountModel.findOne({
+        type: AccountType.WALLET,
+        userId: new Types.ObjectId(recipientId),
+        subtype: WalletSubtype.MAIN,
+        deletedAt: null,
+      }),
+    ]);
+    if (!senderAcc) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.wallet_not_found'),
+      );
+    }
+    if (!recipientAcc) {
+      throw new NotFoundException(
+        this.i18n.t('common.errors.recipient_wallet_not_found'),
+      );
+    }
+    const senderIdStr = (senderAcc._id as Types.ObjectId).toHexString();
+
+    // Scope the client key per sender so two users can't collide on the same key
+    const idempotencyKey = `p2p-transfer-${senderId}-${dto.idempotencyKey}`;
+    const existingTransfer = await this.p2pTransferModel.findOne({
+      idempotencyKey,
+    });
+    if (existingTransfer) {
+      const senderBalance = await this.getBalance(senderIdStr, dto.assetSymbol);
+      return { transfer: existingTransfer, senderBalance };
+    }
+    this.assertDebitAllowed(senderAcc);
+    this.assertCreditAllowed(
+      recipientAcc,
+      'common.errors.recipient_wallet_frozen',
+    );
+
+    const currency = await this.getCurrencyBySymbol(dto.assetSymbol);
+    const assetId = currency._id as Types.ObjectId;
+    const precision = precisionOf(currency);
+    const amount = roundMoney(dto.amount, precision);
+    const feeAmount = this.calculateFees(
+      amount,
+      currency.transferFee,
+      precision,
+    );
+    const asset = {
+      assetType: assetType.CURRENCY,
+      assetId,
+      assetSymbol: dto.assetSymbol,
+    };
+
+    const senderName = `${sender.firstName} ${sender.lastName}`.trim();
+    const recipientName = `${recipient.firstName} ${recipient.lastName}`.trim();
+
+    const legs: LedgerLeg[] = [
+      {
+        account: senderAcc,
+        asset,
+        amount: -amount,
+        title: {
+          en: `Transfer to ${recipientName}`,
+          ar: `تحويل إلى ${recipientName}`,
+        },
+        type: TransactionType.TRANSFER_OUT,
+        suffix: '',
+      },
+      {
+        account: recipientAcc,
+        asset,
+        amount,
+        title: {
+          en: `Transfer from ${senderName}`,
+          ar: `تحويل من ${senderName}`,
+        },
+        type: TransactionType.TRANSFER_IN,
+        suffix: '',
+      },
+    ];
+    // Move the transfer fee from sender to the FEES account (if any)
+    if (feeAmount > 0) {
+      const systemFees = await this.ensureSystemTreasury('FEES');
+      legs.push(
+        {
+          account: senderAcc,
+          asset,
+          amount: -feeAmount,
+          title: { en: 'Transfer fee', ar: 'رسوم التحويل' },
+          type: TransactionType.FEE,
+          suffix: '-fees',
+        },
+        {
+          account: systemFees,
+          asset,
+          amount: feeAmount,
           title: {
-            en: 'User deposit',
-            ar: 'إيداع مستخدم',
+            en: 'Platform fees from P2P transfer',
+            ar: 'عمولة المنصة من تحويل بين المستخدمين',
           },
-          journalEntryId: null,
-        }).save({ session });
-
-        const journal = await new this.journalModel({
-          debitAccountId: sys._id,
-          creditAccountId: walletAcc._id,
-          assetSymbol: dto.assetSymbol,
-          assetType: 'CURRENCY',
-          assetId,
-          amount: dto.amount,
-          transactionIds: [
-            (userTx._id as Types.ObjectId).toHexString(),
-            (sysTx._id as Types.ObjectId).toHexString(),
-          ],
-          idempotencyKey: dto.idempotencyKey,
-        }).save({ session });
+          type: TransactionType.FEE,
+          suffix: '-fees',
+        },
+      );
+    }
 
-        // Update transactions with journal entry ID
-        await this.transactionModel.updateMany(
-          { _id: { $in: [userTx._id, sysTx._id] } },
-          { journalEntryId: journal._id },
+    let transfer: P2PTransfer | null = null;
+    const { balances } = await this.ledgerService.post({
+      idempotencyKey,
+      legs,
+      busyMessage: 'common.errors.transfer_failed',
+      afterPost: async (entries, session) => {
+        // Transfer record so both parties can see who sent what
+        [transfer] = await this.p2pTransferModel.create(
+          [
+            {
+              sender: {
+                userId: new Types.ObjectId(senderId),
+                accountId: senderAcc._id,
+                name: senderName,
+                email: sender.email,
+              },
+              recipient: {
+                userId: new Types.ObjectId(recipientId),
+                accountId: recipientAcc._id,
+                name: recipientName,
+                email: recipient.email,
+              },
+              assetSymbol: dto.assetSymbol,
+              assetId,
+              amount: amount,
+              feeAmount,
+              note: dto.note ?? null,
+              journalEntryIds: entries.map((entry) => entry._id),
+              idempotencyKey,
+            },
+          ],
           { session },
         );
-
-        result = { balance: walletBal, journal };
-      });
-    } finally {
-      await session.endSession();
-      await this.lockService.release(firstKey, token1);
-      await this.lockService.release(secondKey, token2);
-    }
-    if (!result) {
-      throw new ConflictException(this.i18n.t('common.errors.deposit_failed'));
+      },
+    });
+    // Posted by a concurrent call with the same key
+    transfer ??= await this.p2pTransferModel.findOne({ idempotencyKey });
+    if (!transfer) {
+      throw new ConflictException(this.i18n.t('common.errors.transfer_failed'));
     }
-    return result;
+    // The sender's balance after its last leg (the fee, when there is one)
+    return { transfer, senderBalance: balances[feeAmount > 0 ? 2 : 0] };
+  }
+
+  async listP2PTransfers(
+    userId: string,
+    query: GetP2PTransfersDto,
+  ): Promise<{ transfers: P2PTransfer[]; total: number }> {
+    const userObjectId = new Types.ObjectId(userId);
+    const filter: Record<string, unknown> =
+      query.direction === 'sent'
+        ? { 'sender.userId': userObjectId }
+        : query.direction === 'received'
+          ? { 'recipient.userId': userObjectId }
+          : {
+              $or: [
+                { 'sender.userId': userObjectId },
+                { 'recipient.userId': userObjectId },
+              ],
+            };
+
+    const [transfers, total] = await Promise.all([
+      this.p2pTransferModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .limit(query.limit ?? 50)
+        .skip(query.offset ?? 0)
+        .exec(),
+      this.p2pTransferModel.countDocuments(filter),
+    ]);
+
+    return { transfers, total };
   }
 
   async getTransactionHistory(
@@ -995,6 +1042,7 @@ export class WalletService {
     assetSymbol?: string,
     limit = 50,
     offset = 0,
+    filters: TransactionFilters = {},
   ): Promise<{ transactions: Transaction[]; total: number }> {
     const account = await this.accountModel.findOne({
       _id: accountId,
@@ -1013,6 +1061,8 @@ export class WalletService {
     if (assetSymbol) {
       filter.assetSymbol = assetSymbol;
     }
+    if (filters.type) filter.type = filters.type;
+    if (filters.direction) filter.direction = filters.direction;
 
     const [transactions, total] = await Promise.all([
       this.transactionModel
@@ -1034,6 +1084,7 @@ export class WalletService {
     endDate?: Date,
     limit = 100,
     offset = 0,
+    filters: TransactionFilters = {},
   ): Promise<{ transactions: Transaction[]; total: number }> {
     // Get all user accounts
     const accounts = await this.accountModel.find({
@@ -1053,6 +1104,8 @@ export class WalletService {
     if (assetSymbol) {
       filter.assetSymbol = assetSymbol;
     }
+    if (filters.type) filter.type = filters.type;
+    if (filters.direction) filter.direction = filters.direction;
 
     if (startDate || endDate) {
       filter.createdAt = {};
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { MoneyProp, isNonNegativeMoney } from '../../../common/utils/money';
 
 export type BankWithdrawalDocument = BankWithdrawal & Document;
 
@@ -17,6 +18,7 @@ export enum BankWithdrawalStatus {
   timestamps: true,
   toJSON: {
     virtuals: true,
+    getters: true,
     transform: (_doc, ret: Record<string, unknown>) => {
       if (ret._id != null) {
         if (ret._id instanceof Types.ObjectId) {
@@ -44,18 +46,22 @@ export class BankWithdrawal {
   @Prop({ type: Types.ObjectId, ref: 'Balance', default: null })
   balanceId: Types.ObjectId | null;
 
-  @Prop({ type: Number, required: true, min: 0 })
+  @Prop({ ...MoneyProp, required: true, validate: isNonNegativeMoney })
   amount: number;
 
-  @Prop({ type: Number, default: 0, min: 0 })
+  @Prop({ ...MoneyProp, default: 0, validate: isNonNegativeMoney })
   taxAmount: number;
 
-  @Prop({ type: Number, default: 0, min: 0 })
+  @Prop({ ...MoneyProp, default: 0, validate: isNonNegativeMoney })
   feeAmount: number;
 
-  @Prop({ type: Number, required: true, min: 0 })
+  @Prop({ ...MoneyProp, required: true, validate: isNonNegativeMoney })
   reservedAmount: number;
 
+  // BalanceHold keeping `reservedAmount` aside until completion or refusal
+  @Prop({ type: Types.ObjectId, ref: 'BalanceHold', default: null })
+  holdId: Types.ObjectId | null;
+
   @Prop({ type: String, default: null })
   transferReceiptUrl: string | null;
 
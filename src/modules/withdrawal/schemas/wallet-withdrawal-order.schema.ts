@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { MoneyProp } from '../../../common/utils/money';
 
 export enum WithdrawalMethod {
   BANK_TRANSFER = 'BANK_TRANSFER',
@@ -10,6 +11,7 @@ export type WalletWithdrawalOrderDocument = WalletWithdrawalOrder & Document;
 @Schema({
   collection: 'WalletWithdrawalOrder',
   timestamps: true,
+  toJSON: { getters: true },
 })
 export class WalletWithdrawalOrder {
   @Prop({ type: String, required: true, unique: true })
@@ -31,13 +33,13 @@ export class WalletWithdrawalOrder {
   @Prop({ type: Types.ObjectId, required: true })
   userId: Types.ObjectId;
 
-  @Prop({ type: Number, required: true })
+  @Prop({ ...MoneyProp, required: true })
   baseAmount: number;
 
-  @Prop({ type: Number, default: 0 })
+  @Prop({ ...MoneyProp, default: 0 })
   feesAmount: number;
 
-  @Prop({ type: Number, default: 0 })
+  @Prop({ ...MoneyProp, default: 0 })
   taxAmount: number;
 
   @Prop({ type: String, required: true })
@@ -27,6 +27,7 @@ import {
 } from './dto/process-withdrawal.dto';
 import { AdminQueryWithdrawalDto } from './dto/query-withdrawal.dto';
 import { ApiSort } from '../../common/decorators/api-sort.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 import { AdminJwtAuthGuard } from '../admin/guards/admin-jwt-auth.guard';
 import { type Request as ExpressRequest } from 'express';
 import { SuccessMessage } from '../../common/decorators/success-message.decorator';
@@ -70,6 +71,7 @@ export class WithdrawalAdminController {
 
   @UseGuards(AdminJwtAuthGuard)
   @Patch(':withdrawalId/approve')
+  @Idempotent()
   @ApiSort(3)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('admin-access-token')
@@ -108,6 +110,7 @@ export class WithdrawalAdminController {
 
   @UseGuards(AdminJwtAuthGuard)
   @Patch(':withdrawalId/reject')
+  @Idempotent()
   @ApiSort(4)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('admin-access-token')
@@ -146,6 +149,7 @@ export class WithdrawalAdminController {
 
   @UseGuards(AdminJwtAuthGuard)
   @Patch(':withdrawalId/complete')
+  @Idempotent()
   @ApiSort(5)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('admin-access-token')
@@ -185,6 +189,7 @@ export class WithdrawalAdminController {
 
   @UseGuards(AdminJwtAuthGuard)
   @Patch(':withdrawalId/cancel')
+  @Idempotent()
   @ApiSort(6)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('admin-access-token')
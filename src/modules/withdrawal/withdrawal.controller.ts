@@ -27,6 +27,7 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { type Request as ExpressRequest } from 'express';
 import { SuccessMessage } from '../../common/decorators/success-message.decorator';
 import { ApiAcceptLanguage } from '../../common/decorators/api-accept-language.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 
 @ApiTags('016- Withdrawals')
 @ApiAcceptLanguage()
@@ -36,6 +37,7 @@ export class WithdrawalController {
 
   @UseGuards(JwtAuthGuard)
   @Post('request')
+  @Idempotent()
   @ApiSort(1)
   @HttpCode(HttpStatus.CREATED)
   @ApiBearerAuth('user-access-token')
@@ -14,17 +14,15 @@ import {
 import { Bank, BankSchema } from '../bank/schemas/bank.schema';
 import { Currency, CurrencySchema } from '../currency/schemas/currency.schema';
 import { Account, AccountSchema } from '../wallet/schemas/account.schema';
-import { Balance, BalanceSchema } from '../wallet/schemas/balance.schema';
 import {
   JournalEntry,
   JournalEntrySchema,
 } from '../wallet/schemas/journal-entry.schema';
-import {
-  Transaction,
-  TransactionSchema,
-} from '../wallet/schemas/transaction.schema';
-import { MongoService } from '../../common/services/internal/mongo.service';
-import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import { HoldModule } from '../hold/hold.module';
+import { LimitModule } from '../limit/limit.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { OutboxModule } from '../outbox/outbox.module';
 
 @Module({
   imports: [
@@ -34,13 +32,16 @@ import { RedisLockService } from '../../common/services/internal/redis-lock.serv
       { name: Bank.name, schema: BankSchema },
       { name: Currency.name, schema: CurrencySchema },
       { name: Account.name, schema: AccountSchema },
-      { name: Balance.name, schema: BalanceSchema },
       { name: JournalEntry.name, schema: JournalEntrySchema },
-      { name: Transaction.name, schema: TransactionSchema },
     ]),
+    HoldModule,
+    LimitModule,
+    LedgerModule,
+    RealtimeModule,
+    OutboxModule,
   ],
   controllers: [WithdrawalController, WithdrawalAdminController],
-  providers: [WithdrawalService, MongoService, RedisLockService],
+  providers: [WithdrawalService],
   exports: [WithdrawalService],
 })
 export class WithdrawalModule {}
@@ -28,16 +28,12 @@ import {
   AccountType,
   AccountStatus,
 } from '../wallet/schemas/account.schema';
-import { Balance, BalanceDocument } from '../wallet/schemas/balance.schema';
+import { assetType } from '../wallet/schemas/balance.schema';
+import { TransactionType } from '../wallet/schemas/transaction.schema';
 import {
   JournalEntry,
   JournalEntryDocument,
 } from '../wallet/schemas/journal-entry.schema';
-import {
-  Transaction,
-  TransactionDocument,
-  TransactionType,
-} from '../wallet/schemas/transaction.schema';
 import { CreateWithdrawalRequestDto } from './dto/create-withdrawal-request.dto';
 import {
   ApproveWithdrawalDto,
@@ -53,13 +49,33 @@ import {
   CalculateWithdrawalFeesDto,
   WithdrawalFeesCalculationResponseDto,
 } from './dto/calculate-withdrawal-fees.dto';
-import { MongoService } from '../../common/services/internal/mongo.service';
-import { RedisLockService } from '../../common/services/internal/redis-lock.service';
+import { HoldService } from '../hold/hold.service';
+import { BalanceHoldDocument } from '../hold/schemas/balance-hold.schema';
+import { LimitService } from '../limit/limit.service';
+import { LimitDirection } from '../limit/schemas/limit-profile.schema';
+import { LedgerLeg, LedgerService } from '../ledger/ledger.service';
+import {
+  RealtimeEventType,
+  RealtimeService,
+} from '../realtime/realtime.service';
+import { OutboxEventType, OutboxService } from '../outbox/outbox.service';
 import { FeeType } from '../../common/enums/index';
 import {
   createPaginatedResponse,
   PaginatedResponseDto,
 } from '../../common/dto/pagination.dto';
+import {
+  EXACT_PRECISION,
+  MoneyPrecision,
+  addMoney,
+  calculateFee,
+  precisionOf,
+  roundMoney,
+  subtractMoney,
+} from '../../common/utils/money';
+
+// `ownerModule` on the balance holds and limit usage of withdrawal requests
+const WITHDRAWAL_OWNER = 'withdrawal';
 
 interface FeeStructure {
   enabled?: boolean;
@@ -81,29 +97,22 @@ export class WithdrawalService {
     private currencyModel: Model<CurrencyDocument>,
     @InjectModel(Account.name)
     private accountModel: Model<AccountDocument>,
-    @InjectModel(Balance.name)
-    private balanceModel: Model<BalanceDocument>,
     @InjectModel(JournalEntry.name)
     private journalModel: Model<JournalEntryDocument>,
-    @InjectModel(Transaction.name)
-    private transactionModel: Model<TransactionDocument>,
-    private readonly mongo: MongoService,
-    private readonly lockService: RedisLockService,
+    private readonly holdService: HoldService,
+    private readonly limitService: LimitService,
+    private readonly ledgerService: LedgerService,
+    private readonly realtimeService: RealtimeService,
+    private readonly outboxService: OutboxService,
     private readonly i18n: I18nService,
   ) {}
 
-  private calculateFees(amount: number, fees: FeeStructure): number {
-    let totalFees = 0;
-    if (!fees?.enabled) {
-      return totalFees;
-    }
-    if (fees.type === FeeType.PERCENTAGE || fees.type === FeeType.HYBRID) {
-      totalFees += (amount * (fees.percentage || 0)) / 100;
-    }
-    if (fees.type === FeeType.FIXED || fees.type === FeeType.HYBRID) {
-      totalFees += fees.fixedAmount || 0;
-    }
-    return totalFees;
+  private calculateFees(
+    amount: number,
+    fees: FeeStructure,
+    precision: MoneyPrecision,
+  ): number {
+    return calculateFee(amount, fees, precision);
   }
 
   async createWithdrawalRequest(
@@ -155,20 +164,27 @@ export class WithdrawalService {
     }
 
     // User's input amount is the total reserved amount they want to withdraw
-    const reservedAmount = dto.amount;
+    const precision = precisionOf(currency);
+    const reservedAmount = roundMoney(dto.amount, precision);
 
     // Calculate fees and taxes from the reserved amount
     const taxAmount = this.calculateFees(
       reservedAmount,
       currencyConfig.withdrawTax,
+      precision,
     );
     const feeAmount = this.calculateFees(
       reservedAmount,
       currencyConfig.withdrawFee,
+      precision,
     );
 
     // Calculate the net amount user will actually receive
-    const netAmount = reservedAmount - taxAmount - feeAmount;
+    const netAmount = subtractMoney(
+      reservedAmount,
+      [taxAmount, feeAmount],
+      precision,
+    );
 
     if (netAmount <= 0) {
       throw new BadRequestException(
@@ -190,50 +206,60 @@ export class WithdrawalService {
       );
     }
 
-    // Check if user has sufficient balance
-    const userBalance = await this.balanceModel.findOne({
-      accountId: userWallet._id,
-      assetType: 'CURRENCY',
-      assetId: new Types.ObjectId(dto.currencyId),
-      assetSymbol: currency.symbol,
+    // Count the full amount against the user's withdrawal limits
+    const withdrawalId = new Types.ObjectId();
+    const withdrawalRef = withdrawalId.toHexString();
+    await this.limitService.consume({
+      userId: new Types.ObjectId(userId),
+      currencySymbol: currency.symbol,
+      direction: LimitDirection.WITHDRAWAL,
+      amount: reservedAmount,
+      ownerModule: WITHDRAWAL_OWNER,
+      ownerRef: withdrawalRef,
     });
 
-    if (!userBalance || userBalance.available < reservedAmount) {
-      throw new BadRequestException(
-        this.i18n.t('common.errors.insufficient_balance'),
-      );
+    // Hold the full amount until the withdrawal is completed or refused;
+    // the hold refuses frozen wallets and insufficient balances
+    let hold: BalanceHoldDocument;
+    try {
+      hold = await this.holdService.place({
+        accountId: userWallet._id as Types.ObjectId,
+        assetType: assetType.CURRENCY,
+        assetId: new Types.ObjectId(dto.currencyId),
+        assetSymbol: currency.symbol,
+        amount: reservedAmount,
+        ownerModule: WITHDRAWAL_OWNER,
+        ownerRef: withdrawalRef,
+        idempotencyKey: `bank-withdrawal-hold-${withdrawalRef}`,
+      });
+    } catch (err) {
+      await this.limitService.release(WITHDRAWAL_OWNER, withdrawalRef);
+      throw err;
     }
 
-    // Get the balance record ID before reserving
-    const balanceRecord = await this.balanceModel.findOne({
-      accountId: userWallet._id,
-      assetType: 'CURRENCY',
-      assetId: new Types.ObjectId(dto.currencyId),
-      assetSymbol: currency.symbol,
-    });
-
-    // Reserve the balance (decrease available, increase reserved)
-    await this.reserveBalance(
-      (userWallet._id as Types.ObjectId).toString(),
-      dto.currencyId,
-      currency.symbol,
-      reservedAmount,
-    );
-
     // Create withdrawal request
     const withdrawal = new this.bankWithdrawalModel({
+      _id: withdrawalId,
       userId: new Types.ObjectId(userId),
       bankId: new Types.ObjectId(dto.bankId),
       currencyId: new Types.ObjectId(dto.currencyId),
-      balanceId: balanceRecord?._id || null,
+      balanceId: hold.balanceId,
       amount: netAmount, // Net amount user will receive
       taxAmount,
       feeAmount,
       reservedAmount, // Total amount reserved from wallet
+      holdId: hold._id,
       status: BankWithdrawalStatus.PENDING,
     });
 
-    const savedWithdrawal = await withdrawal.save();
+    let savedWithdrawal: BankWithdrawalDocument;
+    try {
+      savedWithdrawal = await withdrawal.save();
+    } catch (err) {
+      await this.holdService.release(hold._id as Types.ObjectId);
+      await this.limitService.release(WITHDRAWAL_OWNER, withdrawalRef);
+      throw err;
+    }
 
     // Create WalletWithdrawalOrder
     const orderId = `BANK-WITHDRAWAL-${(savedWithdrawal._id as Types.ObjectId).toString()}-${Date.now()}`;
@@ -251,94 +277,10 @@ export class WithdrawalService {
       journalEntryIds: [],
     }).save();
 
+    await this.notifyStatus(savedWithdrawal);
     return savedWithdrawal;
   }
 
-  private async reserveBalance(
-    accountId: string,
-    assetId: string,
-    assetSymbol: string,
-    amount: number,
-  ): Promise<void> {
-    const lockKey = `wallet:${accountId}:${assetSymbol}`;
-    const ttlMs = 10000;
-    const token = await this.lockService.acquire(lockKey, ttlMs);
-
-    if (!token) {
-      throw new ConflictException(
-        this.i18n.t('common.errors.unable_to_lock_balance'),
-      );
-    }
-
-    try {
-      const balance = await this.balanceModel.findOne({
-        accountId: new Types.ObjectId(accountId),
-        assetType: 'CURRENCY',
-        assetId: new Types.ObjectId(assetId),
-        assetSymbol,
-      });
-
-      if (!balance || balance.available < amount) {
-        throw new BadRequestException(
-          this.i18n.t('common.errors.insufficient_balance'),
-        );
-      }
-
-      await this.balanceModel.updateOne(
-        {
-          accountId: new Types.ObjectId(accountId),
-          assetType: 'CURRENCY',
-          assetId: new Types.ObjectId(assetId),
-          assetSymbol,
-        },
-        {
-          $inc: {
-            available: -amount,
-            reserved: amount,
-          },
-        },
-      );
-    } finally {
-      await this.lockService.release(lockKey, token);
-    }
-  }
-
-  private async unreserveBalance(
-    accountId: string,
-    assetId: string,
-    assetSymbol: string,
-    amount: number,
-  ): Promise<void> {
-    const lockKey = `wallet:${accountId}:${assetSymbol}`;
-    const ttlMs = 10000;
-    const token = await this.lockService.acquire(lockKey, ttlMs);
-
-    if (!token) {
-      throw new ConflictException(
-        this.i18n.t('common.errors.unable_to_lock_balance'),
-      );
-    }
-
-    try {
-      await this.balanceModel.updateOne(
-        {
-          accountId: new Types.ObjectId(accountId),
-          assetType: 'CURRENCY',
-          assetId: new Types.ObjectId(assetId),
-          assetSymbol,
-        },
-        {
-          $inc: {
-            available: amount,
-            reserved: -amount,
-          },
-        },
-      );
-    } finally {
-      await this.lockService.release(lockKey, token);
-    }
-  }
-
   async approveWithdrawal(
     withdrawalId: string,
     dto: ApproveWithdrawalDto,
@@ -367,7 +309,7 @@ export class WithdrawalService {
       withdrawal.adminNotes = dto.adminNotes;
     }
 
-    return await withdrawal.save();
+    return await this.saveWithStatus(withdrawal);
   }
 
   async rejectWithdrawal(
@@ -391,34 +333,18 @@ export class WithdrawalService {
       );
     }
 
-    // Get withdrawal order to get wallet info
-    const order = await this.walletWithdrawalOrderModel.findOne({
-      bankWithdrawalId: withdrawal._id,
-    });
-
-    if (!order) {
-      throw new NotFoundException(
-        this.i18n.t('common.errors.withdrawal_order_not_found'),
-      );
-    }
-
-    // Unreserve the balance
-    await this.unreserveBalance(
-      order.walletAccountId.toString(),
-      withdrawal.currencyId.toString(),
-      order.assetSymbol,
-      withdrawal.reservedAmount,
+    return await this.releaseWithStatus(
+      withdrawal,
+      [BankWithdrawalStatus.PENDING],
+      {
+        status: BankWithdrawalStatus.REJECTED,
+        rejectionReason: dto.rejectionReason,
+        processedBy: adminId,
+        processedAt: new Date(),
+        ...(dto.adminNotes ? { adminNotes: dto.adminNotes } : {}),
+      },
+      'common.errors.withdrawal_already_processed',
     );
-
-    withdrawal.status = BankWithdrawalStatus.REJECTED;
-    withdrawal.rejectionReason = dto.rejectionReason;
-    withdrawal.processedBy = adminId;
-    withdrawal.processedAt = new Date();
-    if (dto.adminNotes) {
-      withdrawal.adminNotes = dto.adminNotes;
-    }
-
-    return await withdrawal.save();
   }
 
   async completeWithdrawal(
@@ -445,22 +371,24 @@ export class WithdrawalService {
       );
     }
 
-    // Process the actual wallet debit and credit platform accounts
-    await this.debitWallet(withdrawal);
-
-    withdrawal.status = BankWithdrawalStatus.COMPLETED;
-    withdrawal.transactionReference = dto.transactionReference;
-    if (dto.transferReceiptUrl) {
-      withdrawal.transferReceiptUrl = dto.transferReceiptUrl;
-    }
-    if (dto.adminNotes) {
-      withdrawal.adminNotes = dto.adminNotes;
-    }
-    withdrawal.completedBy = adminId;
-    withdrawal.completedAt = new Date();
-    withdrawal.walletDebited = true;
+    const changes: Partial<BankWithdrawal> = {
+      status: BankWithdrawalStatus.COMPLETED,
+      transactionReference: dto.transactionReference,
+      ...(dto.transferReceiptUrl
+        ? { transferReceiptUrl: dto.transferReceiptUrl }
+        : {}),
+      ...(dto.adminNotes ? { adminNotes: dto.adminNotes } : {}),
+      completedBy: adminId,
+      completedAt: new Date(),
+      walletDebited: true,
+    };
+    // Debit the wallet, credit platform accounts and record the completion
+    // in one transaction
+    await this.debitWallet(withdrawal, changes);
 
-    return await withdrawal.save();
+    withdrawal.set(changes);
+    await this.notifyStatus(withdrawal);
+    return withdrawal;
   }
 
   async cancelWithdrawal(
@@ -487,37 +415,89 @@ export class WithdrawalService {
       );
     }
 
-    // Get withdrawal order to get wallet info
-    const order = await this.walletWithdrawalOrderModel.findOne({
-      bankWithdrawalId: withdrawal._id,
+    return await this.releaseWithStatus(
+      withdrawal,
+      [BankWithdrawalStatus.PROCESSING, BankWithdrawalStatus.APPROVED],
+      {
+        status: BankWithdrawalStatus.CANCELLED,
+        cancellationReason: dto.cancellationReason,
+        ...(dto.adminNotes ? { adminNotes: dto.adminNotes } : {}),
+        completedBy: adminId,
+        completedAt: new Date(),
+      },
+      'common.errors.cannot_cancel_withdrawal_in_this_state',
+    );
+  }
+
+  // Return the held amount to the wallet, stop counting it and store
+  // `changes` in one transaction. The update only matches while the
+  // withdrawal is still in one of `from`, so two admin actions racing on the
+  // same withdrawal can't both settle it.
+  private async releaseWithStatus(
+    withdrawal: BankWithdrawalDocument,
+    from: BankWithdrawalStatus[],
+    changes: Partial<BankWithdrawal>,
+    conflictMessage: string,
+  ): Promise<BankWithdrawalDocument> {
+    const withdrawalRef = (withdrawal._id as Types.ObjectId).toHexString();
+    await this.holdService.release(this.holdIdOf(withdrawal), {
+      afterRelease: async (_hold, session) => {
+        const updated = await this.bankWithdrawalModel.findOneAndUpdate(
+          { _id: withdrawal._id, status: { $in: from } },
+          { $set: changes },
+          { new: true, session },
+        );
+        if (!updated) {
+          throw new BadRequestException(this.i18n.t(conflictMessage));
+        }
+        await this.limitService.release(
+          WITHDRAWAL_OWNER,
+          withdrawalRef,
+          session,
+        );
+      },
     });
 
-    if (!order) {
-      throw new NotFoundException(
-        this.i18n.t('common.errors.withdrawal_order_not_found'),
-      );
-    }
+    withdrawal.set(changes);
+    await this.notifyStatus(withdrawal);
+    return withdrawal;
+  }
 
-    // Unreserve the balance
-    await this.unreserveBalance(
-      order.walletAccountId.toString(),
-      withdrawal.currencyId.toString(),
-      order.assetSymbol,
-      withdrawal.reservedAmount,
+  private async saveWithStatus(
+    withdrawal: BankWithdrawalDocument,
+  ): Promise<BankWithdrawalDocument> {
+    const saved = await withdrawal.save();
+    await this.notifyStatus(saved);
+    return saved;
+  }
+
+  private async notifyStatus(
+    withdrawal: BankWithdrawalDocument,
+  ): Promise<void> {
+    await this.realtimeService.publish(
+      withdrawal.userId,
+      RealtimeEventType.WITHDRAWAL_STATUS_CHANGED,
+      {
+        withdrawalId: (withdrawal._id as Types.ObjectId).toHexString(),
+        status: withdrawal.status,
+        amount: withdrawal.amount,
+        reservedAmount: withdrawal.reservedAmount,
+      },
     );
+  }
 
-    withdrawal.status = BankWithdrawalStatus.CANCELLED;
-    withdrawal.cancellationReason = dto.cancellationReason;
-    if (dto.adminNotes) {
-      withdrawal.adminNotes = dto.adminNotes;
+  // Withdrawals requested before holds existed get one from the migration
+  private holdIdOf(withdrawal: BankWithdrawal): Types.ObjectId {
+    if (!withdrawal.holdId) {
+      throw new NotFoundException(this.i18n.t('common.errors.hold_not_found'));
     }
-    withdrawal.completedBy = adminId;
-    withdrawal.completedAt = new Date();
-
-    return await withdrawal.save();
+    return withdrawal.holdId;
   }
 
-  private async debitWallet(withdrawal: BankWithdrawalDocument): Promise<void> {
+  private async debitWallet(
+    withdrawal: BankWithdrawalDocument,
+    changes: Partial<BankWithdrawal>,
+  ): Promise<void> {
     const userId = withdrawal.userId.toString();
     const currencySymbol = await this.getCurrencySymbol(
       withdrawal.currencyId.toString(),
@@ -547,267 +527,153 @@ export class WithdrawalService {
         this.i18n.t('common.errors.wallet_not_found'),
       );
     }
+    const holdId = this.holdIdOf(withdrawal);
 
     // Get system accounts for fees and tax
     const systemFees = await this.ensureSystemTreasury('FEES');
     const systemTax = await this.ensureSystemTreasury('TAX');
+    // Clearing account standing in for funds paid out through the bank
+    const externalBank = await this.ensureSystemTreasury('EXTERNAL_BANK');
 
-    // Prepare lock keys
-    const walletIdStr = (userWallet._id as Types.ObjectId).toHexString();
-    const feesIdStr = (systemFees._id as Types.ObjectId).toHexString();
-    const taxIdStr = (systemTax._id as Types.ObjectId).toHexString();
-
-    const lockKeys = [
-      `wallet:${walletIdStr}:${currencySymbol}`,
-      `wallet:${feesIdStr}:${currencySymbol}`,
-      `wallet:${taxIdStr}:${currencySymbol}`,
-    ].sort();
-
-    const ttlMs = 10000;
-    const tokens: Array<{ key: string; token: string }> = [];
+    // Amount actually leaving the platform; fees and tax stay in system accounts
+    const netAmount = subtractMoney(
+      withdrawal.reservedAmount,
+      [withdrawal.feeAmount, withdrawal.taxAmount],
+      EXACT_PRECISION,
+    );
 
-    try {
-      // Acquire all locks sequentially
-      for (const key of lockKeys) {
-        const token = await this.lockService.acquire(key, ttlMs);
-        if (!token) {
-          for (const { key: k, token: t } of tokens) {
-            await this.lockService.release(k, t);
-          }
-          throw new ConflictException(
-            this.i18n.t('common.errors.withdrawal_processing_failed'),
-          );
-        }
-        tokens.push({ key, token });
-      }
+    const asset = {
+      assetType: assetType.CURRENCY,
+      assetId: withdrawal.currencyId,
+      assetSymbol: currencySymbol,
+    };
+    // Every user-side leg is captured from the hold on the reserved amount
+    const legs: LedgerLeg[] = [];
+    // 1. Pay out the net amount through the bank clearing account
+    if (netAmount > 0) {
+      legs.push(
+        {
+          account: userWallet,
+          asset,
+          amount: -netAmount,
+          title: { en: 'Bank withdrawal', ar: 'سحب بنكي' },
+          suffix: '',
+          holdId,
+        },
+        { account: externalBank, asset, amount: netAmount, suffix: '' },
+      );
+    }
+    // 2. Credit platform fees account if feeAmount > 0
+    if (withdrawal.feeAmount > 0) {
+      legs.push(
+        {
+          account: userWallet,
+          asset,
+          amount: -withdrawal.feeAmount,
+          title: { en: 'Bank withdrawal fee', ar: 'رسوم السحب البنكي' },
+          type: TransactionType.FEE,
+          suffix: '-fees',
+          holdId,
+        },
+        {
+          account: systemFees,
+          asset,
+          amount: withdrawal.feeAmount,
+          title: {
+            en: 'Platform fees from bank withdrawal',
+            ar: 'عمولة المنصة من السحب البنكي',
+          },
+          type: TransactionType.FEE,
+          suffix: '-fees',
+        },
+      );
+    }
+    // 3. Credit tax account if taxAmount > 0
+    if (withdrawal.taxAmount > 0) {
+      legs.push(
+        {
+          account: userWallet,
+          asset,
+          amount: -withdrawal.taxAmount,
+          title: { en: 'Bank withdrawal tax', ar: 'ضريبة السحب البنكي' },
+          type: TransactionType.TAX,
+          suffix: '-tax',
+          holdId,
+        },
+        {
+          account: systemTax,
+          asset,
+          amount: withdrawal.taxAmount,
+          title: {
+            en: 'Tax from bank withdrawal',
+            ar: 'ضريبة من السحب البنكي',
+          },
+          type: TransactionType.TAX,
+          suffix: '-tax',
+        },
+      );
+    }
 
-      const session = await this.mongo.startSession();
-      try {
-        await session.withTransaction(async () => {
-          if (!Array.isArray(withdrawal.journalEntryIds)) {
-            withdrawal.journalEntryIds = [];
-          }
+    await this.ledgerService.post({
+      idempotencyKey,
+      legs,
+      busyMessage: 'common.errors.withdrawal_processing_failed',
+      afterPost: async (entries, session) => {
+        withdrawal.journalEntryIds = entries.map(
+          (entry) => entry._id as Types.ObjectId,
+        );
 
-          // 1. Debit user wallet - decrease reserved balance
-          const userBalBefore = await this.balanceModel.findOne(
-            {
-              accountId: userWallet._id,
-              assetType: 'CURRENCY',
-              assetId: withdrawal.currencyId,
-              assetSymbol: currencySymbol,
+        // Store the completion with the debit; the status filter keeps an
+        // admin action racing on the same withdrawal from also settling it
+        const completed = await this.bankWithdrawalModel.updateOne(
+          {
+            _id: withdrawal._id,
+            status: {
+              $in: [
+                BankWithdrawalStatus.PROCESSING,
+                BankWithdrawalStatus.APPROVED,
+              ],
             },
-            null,
-            { session },
+          },
+          {
+            $set: { ...changes, journalEntryIds: withdrawal.journalEntryIds },
+          },
+          { session },
+        );
+        if (completed.matchedCount === 0) {
+          throw new BadRequestException(
+            this.i18n.t('common.errors.withdrawal_not_in_processing_state'),
           );
+        }
 
-          if (
-            !userBalBefore ||
-            userBalBefore.reserved < withdrawal.reservedAmount
-          ) {
-            throw new BadRequestException(
-              this.i18n.t('common.errors.insufficient_reserved_balance'),
-            );
-          }
-
-          const balanceBefore = userBalBefore.available;
+        // Mark withdrawal order as processed and attach journal entries
+        await this.walletWithdrawalOrderModel.updateOne(
+          { bankWithdrawalId: withdrawal._id },
+          { processed: true, journalEntryIds: withdrawal.journalEntryIds },
+          { session },
+        );
 
-          const userBal = await this.balanceModel.findOneAndUpdate(
+        await this.outboxService.add(
+          [
             {
-              accountId: userWallet._id,
-              assetType: 'CURRENCY',
-              assetId: withdrawal.currencyId,
-              assetSymbol: currencySymbol,
-            },
-            { $inc: { reserved: -withdrawal.reservedAmount } },
-            { new: true, session },
-          );
-
-          if (!userBal) {
-            throw new BadRequestException(
-              this.i18n.t('common.errors.withdrawal_processing_failed'),
-            );
-          }
-
-          const userTx = await new this.transactionModel({
-            accountId: userWallet._id,
-            assetType: 'CURRENCY',
-            assetId: withdrawal.currencyId,
-            balanceId: userBal._id,
-            assetSymbol: currencySymbol,
-            type: TransactionType.WITHDRAWAL,
-            amount: withdrawal.reservedAmount, // Full reserved amount (not just net amount)
-            balanceBefore,
-            balanceAfter: userBal.available,
-            title: {
-              en: 'Bank withdrawal',
-              ar: 'سحب بنكي',
-            },
-            journalEntryId: null,
-          }).save({ session });
-
-          const journal1 = await new this.journalModel({
-            debitAccountId: userWallet._id,
-            assetSymbol: currencySymbol,
-            assetType: 'CURRENCY',
-            assetId: withdrawal.currencyId,
-            amount: withdrawal.reservedAmount, // Full reserved amount
-            transactionIds: [(userTx._id as Types.ObjectId).toHexString()],
-            idempotencyKey,
-          }).save({ session });
-
-          await this.transactionModel.updateOne(
-            { _id: userTx._id },
-            { journalEntryId: journal1._id },
-            { session },
-          );
-
-          withdrawal.journalEntryIds.push(journal1._id as Types.ObjectId);
-
-          // 2. Credit platform fees account if feeAmount > 0
-          if (withdrawal.feeAmount > 0) {
-            const feesBalBefore = await this.balanceModel.findOne(
-              {
-                accountId: systemFees._id,
-                assetType: 'CURRENCY',
-                assetId: withdrawal.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              null,
-              { session },
-            );
-            const feesBefore = feesBalBefore?.available || 0;
-
-            const feesBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: systemFees._id,
-                assetType: 'CURRENCY',
-                assetId: withdrawal.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              { $inc: { available: withdrawal.feeAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const feesTx = await new this.transactionModel({
-              accountId: systemFees._id,
-              assetType: 'CURRENCY',
-              assetId: withdrawal.currencyId,
-              balanceId: feesBal._id,
-              assetSymbol: currencySymbol,
-              type: TransactionType.DEPOSIT,
-              amount: withdrawal.feeAmount,
-              balanceBefore: feesBefore,
-              balanceAfter: feesBal.available,
-              title: {
-                en: 'Platform fees from bank withdrawal',
-                ar: 'عمولة المنصة من السحب البنكي',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            const journal2 = await new this.journalModel({
-              creditAccountId: systemFees._id,
-              assetSymbol: currencySymbol,
-              assetType: 'CURRENCY',
-              assetId: withdrawal.currencyId,
-              amount: withdrawal.feeAmount,
-              transactionIds: [(feesTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey: `${idempotencyKey}-fees`,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: feesTx._id },
-              { journalEntryId: journal2._id },
-              { session },
-            );
-
-            withdrawal.journalEntryIds.push(journal2._id as Types.ObjectId);
-          }
-
-          // 3. Credit tax account if taxAmount > 0
-          if (withdrawal.taxAmount > 0) {
-            const taxBalBefore = await this.balanceModel.findOne(
-              {
-                accountId: systemTax._id,
-                assetType: 'CURRENCY',
-                assetId: withdrawal.currencyId,
-                assetSymbol: currencySymbol,
-              },
-              null,
-              { session },
-            );
-            const taxBefore = taxBalBefore?.available || 0;
-
-            const taxBal = await this.balanceModel.findOneAndUpdate(
-              {
-                accountId: systemTax._id,
-                assetType: 'CURRENCY',
-                assetId: withdrawal.currencyId,
-                assetSymbol: currencySymbol,
+              type: OutboxEventType.WITHDRAWAL_COMPLETED,
+              payload: {
+                withdrawalId: (withdrawal._id as Types.ObjectId).toHexString(),
+                userId,
+                currencySymbol,
+                amount: netAmount,
+                feeAmount: withdrawal.feeAmount,
+                taxAmount: withdrawal.taxAmount,
+                journalEntryIds: withdrawal.journalEntryIds.map((id) =>
+                  id.toHexString(),
+                ),
               },
-              { $inc: { available: withdrawal.taxAmount } },
-              { new: true, upsert: true, session },
-            );
-
-            const taxTx = await new this.transactionModel({
-              accountId: systemTax._id,
-              assetType: 'CURRENCY',
-              assetId: withdrawal.currencyId,
-              balanceId: taxBal._id,
-              assetSymbol: currencySymbol,
-              type: TransactionType.DEPOSIT,
-              amount: withdrawal.taxAmount,
-              balanceBefore: taxBefore,
-              balanceAfter: taxBal.available,
-              title: {
-                en: 'Tax from bank withdrawal',
-                ar: 'ضريبة من السحب البنكي',
-              },
-              journalEntryId: null,
-            }).save({ session });
-
-            const journal3 = await new this.journalModel({
-              creditAccountId: systemTax._id,
-              assetSymbol: currencySymbol,
-              assetType: 'CURRENCY',
-              assetId: withdrawal.currencyId,
-              amount: withdrawal.taxAmount,
-              transactionIds: [(taxTx._id as Types.ObjectId).toHexString()],
-              idempotencyKey: `${idempotencyKey}-tax`,
-            }).save({ session });
-
-            await this.transactionModel.updateOne(
-              { _id: taxTx._id },
-              { journalEntryId: journal3._id },
-              { session },
-            );
-
-            withdrawal.journalEntryIds.push(journal3._id as Types.ObjectId);
-          }
-
-          // Persist journalEntryIds on the BankWithdrawal document
-          await this.bankWithdrawalModel.updateOne(
-            { _id: withdrawal._id },
-            { journalEntryIds: withdrawal.journalEntryIds },
-            { session },
-          );
-
-          // Mark withdrawal order as processed and attach journal entries
-          await this.walletWithdrawalOrderModel.updateOne(
-            { bankWithdrawalId: withdrawal._id },
-            { processed: true, journalEntryIds: withdrawal.journalEntryIds },
-            { session },
-          );
-        });
-      } finally {
-        await session.endSession();
-      }
-    } finally {
-      // Release all locks
-      for (const { key, token } of tokens) {
-        await this.lockService.release(key, token);
-      }
-    }
+            },
+          ],
+          session,
+        );
+      },
+    });
   }
 
   private async ensureSystemTreasury(
@@ -1037,19 +903,23 @@ export class WithdrawalService {
       );
     }
 
+    const precision = precisionOf(currency);
+    const amount = roundMoney(dto.amount, precision);
     const taxAmount = this.calculateFees(
-      dto.amount,
+      amount,
       currencyConfig.withdrawTax,
+      precision,
     );
     const feeAmount = this.calculateFees(
-      dto.amount,
+      amount,
       currencyConfig.withdrawFee,
+      precision,
     );
-    const totalDeductions = taxAmount + feeAmount;
-    const netAmount = dto.amount - totalDeductions;
+    const totalDeductions = addMoney([taxAmount, feeAmount], precision);
+    const netAmount = subtractMoney(amount, [totalDeductions], precision);
 
     return {
-      amount: dto.amount,
+      amount,
       taxAmount,
       feeAmount,
       netAmount,
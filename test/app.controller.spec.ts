@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { I18nService } from 'nestjs-i18n';
 import { AppController } from '../src/app.controller';
 import { AppService } from '../src/app.service';
+import { MongoService } from '../src/common/services/internal/mongo.service';
+import { keyI18n, sessionlessMongo } from './support/test-services';
 
 describe('AppController', () => {
   let appController: AppController;
@@ -8,15 +11,30 @@ describe('AppController', () => {
   beforeEach(async () => {
     const app: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        AppService,
+        { provide: I18nService, useValue: keyI18n() },
+        { provide: MongoService, useValue: sessionlessMongo() },
+      ],
     }).compile();
 
     appController = app.get<AppController>(AppController);
   });
 
   describe('root', () => {
-    it('should return "Hello World!"', () => {
-      expect(appController.getHello()).toBe('Hello World!');
+    it('should return the localized greeting', () => {
+      expect(appController.getHello()).toBe('common.messages.greeting');
+    });
+  });
+
+  describe('health', () => {
+    it('should report the transaction counters', () => {
+      expect(appController.getHealth().transactions).toEqual({
+        committed: 0,
+        aborted: 0,
+        retried: 0,
+        commitRetried: 0,
+      });
     });
   });
 });
@@ -0,0 +1,75 @@
+import { Types } from 'mongoose';
+import { HoldStatus } from '../src/modules/hold/schemas/balance-hold.schema';
+import {
+  AccountDocument,
+  AccountType,
+} from '../src/modules/wallet/schemas/account.schema';
+import { USD, createLedgerHarness } from './support/ledger-harness';
+
+describe('HoldService', () => {
+  let harness: ReturnType<typeof createLedgerHarness>;
+  let wallet: AccountDocument;
+
+  const placeHold = (amount: number, idempotencyKey = 'hold-1') =>
+    harness.holds.place({
+      accountId: wallet._id as Types.ObjectId,
+      ...USD,
+      amount,
+      ownerModule: 'test',
+      idempotencyKey,
+    });
+
+  beforeEach(async () => {
+    harness = createLedgerHarness();
+    wallet = await harness.createAccount(
+      AccountType.WALLET,
+      'MAIN',
+      new Types.ObjectId(),
+    );
+    await harness.fund(wallet, 100);
+  });
+
+  describe('place', () => {
+    it('moves the amount from available to reserved', async () => {
+      const hold = await placeHold(40);
+
+      expect(hold).toMatchObject({ amount: 40, status: HoldStatus.ACTIVE });
+      expect(await harness.balanceOf(wallet)).toMatchObject({
+        available: 60,
+        reserved: 40,
+      });
+    });
+
+    it('places one hold for concurrent calls with the same key', async () => {
+      const holds = await Promise.all([placeHold(40), placeHold(40)]);
+
+      expect(holds[0]._id).toEqual(holds[1]._id);
+      expect(harness.models.hold.store).toHaveLength(1);
+      expect(await harness.balanceOf(wallet)).toMatchObject({
+        available: 60,
+        reserved: 40,
+      });
+    });
+  });
+
+  describe('release', () => {
+    it('returns the remainder to available and runs afterRelease', async () => {
+      const hold = await placeHold(40);
+      const afterRelease = jest.fn(() => Promise.resolve());
+
+      const released = await harness.holds.release(hold._id as Types.ObjectId, {
+        afterRelease,
+      });
+
+      expect(released).toMatchObject({
+        status: HoldStatus.RELEASED,
+        releasedAmount: 40,
+      });
+      expect(afterRelease).toHaveBeenCalledTimes(1);
+      expect(await harness.balanceOf(wallet)).toMatchObject({
+        available: 100,
+        reserved: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+} from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from '../src/common/interceptors/idempotency.interceptor';
+import { keyI18n, memoryStore } from './support/test-services';
+
+describe('IdempotencyInterceptor', () => {
+  let store: ReturnType<typeof memoryStore>;
+  let interceptor: IdempotencyInterceptor;
+
+  const contextOf = (
+    body: unknown,
+    user: Record<string, string> = { id: 'user-1' },
+  ) => {
+    const setHeader = jest.fn();
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          url: '/wallet/transfer',
+          body,
+          headers: { 'idempotency-key': 'key-1' },
+          user,
+        }),
+        getResponse: () => ({ setHeader }),
+      }),
+    } as unknown as ExecutionContext;
+    return { context, setHeader };
+  };
+
+  const handlerOf = (result: () => unknown) => {
+    const handle = jest.fn(() => of(result()));
+    return { handle } as CallHandler & { handle: jest.Mock };
+  };
+
+  const run = (context: ExecutionContext, handler: CallHandler) =>
+    lastValueFrom(interceptor.intercept(context, handler));
+
+  beforeEach(() => {
+    store = memoryStore();
+    interceptor = new IdempotencyInterceptor(store.redis, keyI18n());
+  });
+
+  it('runs the handler for the first request and keeps its result', async () => {
+    const handler = handlerOf(() => ({ ok: 1 }));
+
+    await expect(
+      run(contextOf({ amount: 10 }).context, handler),
+    ).resolves.toEqual({ ok: 1 });
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays the stored result for a retry with the same body', async () => {
+    const handler = handlerOf(() => ({ ok: 1 }));
+    await run(contextOf({ amount: 10, to: 'a' }).context, handler);
+
+    const retry = contextOf({ to: 'a', amount: 10 });
+    await expect(run(retry.context, handler)).resolves.toEqual({ ok: 1 });
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+    expect(retry.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('rejects the same key with a different body', async () => {
+    const handler = handlerOf(() => ({ ok: 1 }));
+    await run(contextOf({ amount: 10 }).context, handler);
+
+    await expect(
+      run(contextOf({ amount: 20 }).context, handler),
+    ).rejects.toThrow(
+      new ConflictException('common.errors.idempotency_key_reused'),
+    );
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    // Claimed but never completed
+    const first = interceptor.intercept(contextOf({ amount: 10 }).context, {
+      handle: () => of(),
+    });
+    const pending = first.subscribe({ error: () => {} });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await expect(
+      run(
+        contextOf({ amount: 10 }).context,
+        handlerOf(() => ({ ok: 1 })),
+      ),
+    ).rejects.toThrow(
+      new ConflictException('common.errors.idempotency_request_in_progress'),
+    );
+    pending.unsubscribe();
+  });
+
+  it('releases the key when the handler throws', async () => {
+    const failing = {
+      handle: () => throwError(() => new Error('boom')),
+    } as CallHandler;
+    await expect(
+      run(contextOf({ amount: 10 }).context, failing),
+    ).rejects.toThrow('boom');
+
+    const handler = handlerOf(() => ({ ok: 2 }));
+    await expect(
+      run(contextOf({ amount: 10 }).context, handler),
+    ).resolves.toEqual({ ok: 2 });
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('scopes keys per admin', async () => {
+    const handler = handlerOf(() => ({ ok: 1 }));
+    await run(
+      contextOf({ amount: 10 }, { adminId: 'admin-1' }).context,
+      handler,
+    );
+
+    await run(
+      contextOf({ amount: 20 }, { adminId: 'admin-2' }).context,
+      handler,
+    );
+
+    expect(handler.handle).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,543 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { HoldStatus } from '../src/modules/hold/schemas/balance-hold.schema';
+import { LedgerLeg } from '../src/modules/ledger/ledger.service';
+import { OutboxEventType } from '../src/modules/outbox/outbox.service';
+import {
+  AccountDocument,
+  AccountStatus,
+  AccountType,
+} from '../src/modules/wallet/schemas/account.schema';
+import { assetType } from '../src/modules/wallet/schemas/balance.schema';
+import { TransactionDirection } from '../src/modules/wallet/schemas/transaction.schema';
+import { USD, createLedgerHarness } from './support/ledger-harness';
+
+describe('LedgerService.post', () => {
+  let harness: ReturnType<typeof createLedgerHarness>;
+  let treasury: AccountDocument;
+  let wallet: AccountDocument;
+
+  const idOf = (account: AccountDocument) =>
+    (account._id as Types.ObjectId).toHexString();
+
+  const post = (legs: LedgerLeg[], idempotencyKey = 'posting-1') =>
+    harness.ledger.post({
+      idempotencyKey,
+      legs,
+      busyMessage: 'common.errors.unable_to_lock_balance',
+    });
+
+  beforeEach(async () => {
+    harness = createLedgerHarness();
+    treasury = await harness.createAccount(AccountType.SYSTEM, 'TREASURY');
+    wallet = await harness.createAccount(
+      AccountType.WALLET,
+      'MAIN',
+      new Types.ObjectId(),
+    );
+  });
+
+  describe('leg pairing', () => {
+    it('writes one journal entry per debit / credit pair', async () => {
+      const fees = await harness.createAccount(AccountType.SYSTEM, 'FEES');
+
+      const { entries, balances } = await post([
+        { account: treasury, asset: USD, amount: -100, suffix: '' },
+        { account: wallet, asset: USD, amount: 100, suffix: '' },
+        { account: treasury, asset: USD, amount: -5, suffix: '-fees' },
+        { account: fees, asset: USD, amount: 5, suffix: '-fees' },
+      ]);
+
+      expect(entries.map((entry) => entry.idempotencyKey)).toEqual([
+        'posting-1',
+        'posting-1-fees',
+      ]);
+      expect(String(entries[0].debitAccountId)).toBe(idOf(treasury));
+      expect(String(entries[0].creditAccountId)).toBe(idOf(wallet));
+      expect(entries[0].amount).toBe(100);
+      expect(String(entries[1].creditAccountId)).toBe(idOf(fees));
+      expect(balances.map((balance) => balance.available)).toEqual([
+        -100, 100, -105, 5,
+      ]);
+    });
+
+    it('links each leg’s transaction to its journal entry', async () => {
+      const { entries } = await post([
+        { account: treasury, asset: USD, amount: -40, suffix: '' },
+        { account: wallet, asset: USD, amount: 40, suffix: '' },
+      ]);
+
+      const txs = harness.models.transaction.store;
+      expect(txs).toHaveLength(2);
+      for (const tx of txs) {
+        expect(String(tx.journalEntryId)).toBe(String(entries[0]._id));
+      }
+      expect(entries[0].transactionIds).toEqual(
+        txs.map((tx) => tx._id.toHexString()),
+      );
+      const credit = txs.find((tx) => String(tx.accountId) === idOf(wallet));
+      expect(credit).toMatchObject({
+        direction: TransactionDirection.CREDIT,
+        balanceBefore: 0,
+        balanceAfter: 40,
+      });
+    });
+
+    it('records a wallet event for user wallet legs only', async () => {
+      await post([
+        { account: treasury, asset: USD, amount: -40, suffix: '' },
+        { account: wallet, asset: USD, amount: 40, suffix: '' },
+      ]);
+
+      const events = harness.models.outbox.store;
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe(OutboxEventType.WALLET_CREDITED);
+      expect(events[0].payload).toMatchObject({
+        accountId: idOf(wallet),
+        amount: 40,
+      });
+    });
+  });
+
+  describe('idempotency', () => {
+    it('replays concurrent postings with the same key', async () => {
+      const afterPost = jest.fn(() => Promise.resolve());
+      const postOnce = () =>
+        harness.ledger.post({
+          idempotencyKey: 'posting-1',
+          legs: [
+            { account: treasury, asset: USD, amount: -10, suffix: '' },
+            { account: wallet, asset: USD, amount: 10, suffix: '' },
+            { account: treasury, asset: USD, amount: -1, suffix: '-fees' },
+            { account: wallet, asset: USD, amount: 1, suffix: '-fees' },
+          ],
+          busyMessage: 'common.errors.unable_to_lock_balance',
+          afterPost,
+        });
+
+      const [first, second] = await Promise.all([postOnce(), postOnce()]);
+
+      expect(second.entries.map((entry) => entry._id)).toEqual(
+        first.entries.map((entry) => entry._id),
+      );
+      expect(harness.models.journal.store).toHaveLength(2);
+      expect(afterPost).toHaveBeenCalledTimes(1);
+      expect((await harness.balanceOf(wallet))?.available).toBe(11);
+      expect(second.balances[1]).toMatchObject({ available: 11 });
+    });
+  });
+
+  describe('unbalanced postings', () => {
+    const unbalanced = new InternalServerErrorException(
+      'common.errors.ledger_posting_unbalanced',
+    );
+
+    it('rejects a pair whose amounts differ', async () => {
+      await expect(
+        post([
+          { account: treasury, asset: USD, amount: -100, suffix: '' },
+          { account: wallet, asset: USD, amount: 90, suffix: '' },
+        ]),
+      ).rejects.toThrow(unbalanced);
+    });
+
+    it('rejects a suffix without exactly one debit and one credit', async () => {
+      await expect(
+        post([{ account: wallet, asset: USD, amount: 100, suffix: '' }]),
+      ).rejects.toThrow(unbalanced);
+      await expect(
+        post([
+          { account: treasury, asset: USD, amount: -50, suffix: '' },
+          { account: treasury, asset: USD, amount: -50, suffix: '' },
+          { account: wallet, asset: USD, amount: 100, suffix: '' },
+        ]),
+      ).rejects.toThrow(unbalanced);
+    });
+
+    it('rejects a pair that moves two different assets', async () => {
+      const gold = {
+        assetType: assetType.METAL,
+        assetId: new Types.ObjectId(),
+        assetSymbol: 'XAU',
+      };
+      await expect(
+        post([
+          { account: treasury, asset: USD, amount: -1, suffix: '' },
+          { account: wallet, asset: gold, amount: 1, suffix: '' },
+        ]),
+      ).rejects.toThrow(unbalanced);
+    });
+
+    it('writes nothing', async () => {
+      await post([
+        { account: treasury, asset: USD, amount: -100, suffix: '' },
+        { account: wallet, asset: USD, amount: 90, suffix: '' },
+      ]).catch(() => undefined);
+
+      expect(harness.models.balance.store).toHaveLength(0);
+      expect(harness.models.journal.store).toHaveLength(0);
+      expect(harness.models.transaction.store).toHaveLength(0);
+    });
+  });
+
+  describe('balance checks on debits', () => {
+    const insufficient = new BadRequestException(
+      'common.errors.insufficient_balance',
+    );
+
+    it('refuses to take a wallet below zero', async () => {
+      await harness.fund(wallet, 30);
+
+      await expect(
+        post([
+          { account: wallet, asset: USD, amount: -50, suffix: '' },
+          { account: treasury, asset: USD, amount: 50, suffix: '' },
+        ]),
+      ).rejects.toThrow(insufficient);
+      expect((await harness.balanceOf(wallet))?.available).toBe(30);
+    });
+
+    it('lets a system account go below zero by default', async () => {
+      await post([
+        { account: treasury, asset: USD, amount: -50, suffix: '' },
+        { account: wallet, asset: USD, amount: 50, suffix: '' },
+      ]);
+
+      expect((await harness.balanceOf(treasury))?.available).toBe(-50);
+    });
+
+    it('holds a system account to its funds with requireFunds', async () => {
+      await harness.fund(treasury, 30);
+
+      await expect(
+        post([
+          {
+            account: treasury,
+            asset: USD,
+            amount: -50,
+            suffix: '',
+            requireFunds: true,
+          },
+          { account: wallet, asset: USD, amount: 50, suffix: '' },
+        ]),
+      ).rejects.toThrow(insufficient);
+      expect((await harness.balanceOf(treasury))?.available).toBe(30);
+
+      await post([
+        {
+          account: treasury,
+          asset: USD,
+          amount: -30,
+          suffix: '',
+          requireFunds: true,
+        },
+        { account: wallet, asset: USD, amount: 30, suffix: '' },
+      ]);
+      expect((await harness.balanceOf(treasury))?.available).toBe(0);
+    });
+  });
+
+  describe('freezes', () => {
+    // The caller loaded `wallet` before the freeze landed
+    const freeze = (allowCredits: boolean) =>
+      harness.models.account.updateOne(
+        { _id: wallet._id },
+        {
+          $set: {
+            status: AccountStatus.FROZEN,
+            freeze: {
+              reason: 'review',
+              frozenBy: 'admin',
+              frozenAt: new Date(),
+              expiresAt: null,
+              allowCredits,
+            },
+          },
+        },
+      );
+
+    it('refuses a debit from a wallet frozen after it was loaded', async () => {
+      await harness.fund(wallet, 30);
+      await freeze(true);
+
+      await expect(
+        post([
+          { account: wallet, asset: USD, amount: -10, suffix: '' },
+          { account: treasury, asset: USD, amount: 10, suffix: '' },
+        ]),
+      ).rejects.toThrow(new ForbiddenException('common.errors.wallet_frozen'));
+      expect((await harness.balanceOf(wallet))?.available).toBe(30);
+    });
+
+    it('refuses a credit unless the freeze allows credits', async () => {
+      const credit = (idempotencyKey: string) =>
+        post(
+          [
+            { account: treasury, asset: USD, amount: -10, suffix: '' },
+            { account: wallet, asset: USD, amount: 10, suffix: '' },
+          ],
+          idempotencyKey,
+        );
+
+      await freeze(false);
+      await expect(credit('credit-1')).rejects.toThrow(
+        new ForbiddenException('common.errors.wallet_frozen_for_credits'),
+      );
+
+      await freeze(true);
+      await credit('credit-2');
+      expect((await harness.balanceOf(wallet))?.available).toBe(10);
+    });
+  });
+
+  describe('hold captures', () => {
+    const placeHold = (amount: number) =>
+      harness.holds.place({
+        accountId: wallet._id as Types.ObjectId,
+        ...USD,
+        amount,
+        ownerModule: 'test',
+        idempotencyKey: 'hold-1',
+      });
+
+    it('draws the debit from the hold instead of available', async () => {
+      await harness.fund(wallet, 100);
+      const hold = await placeHold(40);
+
+      const { balances } = await post([
+        {
+          account: wallet,
+          asset: USD,
+          amount: -30,
+          suffix: '',
+          holdId: hold._id as Types.ObjectId,
+        },
+        { account: treasury, asset: USD, amount: 30, suffix: '' },
+      ]);
+
+      expect(balances[0]).toMatchObject({ available: 60, reserved: 10 });
+      const stored = await harness.models.hold.findById(hold._id);
+      expect(stored).toMatchObject({
+        capturedAmount: 30,
+        status: HoldStatus.ACTIVE,
+      });
+      const debit = harness.models.transaction.store.find(
+        (tx) =>
+          String(tx.accountId) === idOf(wallet) &&
+          tx.direction === TransactionDirection.DEBIT,
+      );
+      expect(debit).toMatchObject({ balanceBefore: 60, balanceAfter: 60 });
+    });
+
+    it('refuses to capture more than the hold has left', async () => {
+      await harness.fund(wallet, 100);
+      const hold = await placeHold(40);
+
+      await expect(
+        post([
+          {
+            account: wallet,
+            asset: USD,
+            amount: -50,
+            suffix: '',
+            holdId: hold._id as Types.ObjectId,
+          },
+          { account: treasury, asset: USD, amount: 50, suffix: '' },
+        ]),
+      ).rejects.toThrow(
+        new BadRequestException('common.errors.hold_capture_exceeds_remaining'),
+      );
+    });
+
+    it('rejects a hold on the credit leg', async () => {
+      await expect(
+        post([
+          { account: treasury, asset: USD, amount: -10, suffix: '' },
+          {
+            account: wallet,
+            asset: USD,
+            amount: 10,
+            suffix: '',
+            holdId: new Types.ObjectId(),
+          },
+        ]),
+      ).rejects.toThrow(InternalServerErrorException);
+    });
+  });
+
+  describe('clearing accounts', () => {
+    it('neither locks EXTERNAL_* accounts nor gives them transactions', async () => {
+      const external = await harness.createAccount(
+        AccountType.SYSTEM,
+        'EXTERNAL_PAYTABS',
+      );
+      const withLocks = jest.spyOn(harness.store.locks, 'withLocks');
+
+      await post([
+        { account: external, asset: USD, amount: -25, suffix: '' },
+        { account: wallet, asset: USD, amount: 25, suffix: '' },
+      ]);
+
+      expect(withLocks.mock.calls[0][0]).toEqual([
+        `wallet:${idOf(wallet)}:USD`,
+      ]);
+      const txAccounts = harness.models.transaction.store.map((tx) =>
+        String(tx.accountId),
+      );
+      expect(txAccounts).toEqual([idOf(wallet)]);
+      // The clearing balance still moves
+      expect((await harness.balanceOf(external))?.available).toBe(-25);
+      const [entry] = harness.models.journal.store;
+      expect(entry.transactionIds).toHaveLength(1);
+    });
+  });
+
+  describe('fencing tokens', () => {
+    const staleLock = new ConflictException('common.errors.stale_lock');
+    let warn: jest.SpyInstance;
+
+    // Stands in for the next posting's lease running out before its
+    // transaction starts, and a newer lock holder writing the wallet balance
+    // with token `fence` meanwhile. Funding took token 1, so the posting gets
+    // 2. (2 is as new as the token on the balance, so it may still write.)
+    const fenceWalletAt = async (fence: number) => {
+      await harness.fund(wallet, 100);
+      const { mongo } = harness;
+      const withTransaction = mongo.withTransaction.bind(mongo);
+      jest
+        .spyOn(mongo, 'withTransaction')
+        .mockImplementationOnce(async (fn, options) => {
+          await harness.models.balance.updateOne(
+            { accountId: wallet._id },
+            { $set: { fence } },
+          );
+          return withTransaction(fn, options);
+        });
+    };
+
+    beforeEach(() => {
+      warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('raises the balance fence to the writer’s token', async () => {
+      await post([
+        { account: treasury, asset: USD, amount: -10, suffix: '' },
+        { account: wallet, asset: USD, amount: 10, suffix: '' },
+      ]);
+      await post(
+        [
+          { account: treasury, asset: USD, amount: -10, suffix: '' },
+          { account: wallet, asset: USD, amount: 10, suffix: '' },
+        ],
+        'posting-2',
+      );
+
+      expect((await harness.balanceOf(wallet))?.fence).toBe(2);
+    });
+
+    it('rejects and logs a debit carrying an older token', async () => {
+      await fenceWalletAt(5);
+
+      await expect(
+        post([
+          { account: wallet, asset: USD, amount: -10, suffix: '' },
+          { account: treasury, asset: USD, amount: 10, suffix: '' },
+        ]),
+      ).rejects.toThrow(staleLock);
+
+      expect(await harness.balanceOf(wallet)).toMatchObject({
+        available: 100,
+        fence: 5,
+      });
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `wallet:${idOf(wallet)}:USD from a stale lock holder (fence 2, applied 5)`,
+        ),
+      );
+    });
+
+    it('raises the lock counter past the stored fence on a rejection', async () => {
+      await fenceWalletAt(5);
+
+      await expect(
+        post([
+          { account: wallet, asset: USD, amount: -10, suffix: '' },
+          { account: treasury, asset: USD, amount: 10, suffix: '' },
+        ]),
+      ).rejects.toThrow(staleLock);
+
+      // Even a locker that passes no floor now gets a token that writes
+      const next = await harness.store.locks.withLocks(
+        [`wallet:${idOf(wallet)}:USD`],
+        (fences) => Promise.resolve(fences.get(`wallet:${idOf(wallet)}:USD`)),
+      );
+      expect(next).toBe(6);
+    });
+
+    it('rejects a credit whose upsert collides with the newer balance', async () => {
+      await fenceWalletAt(5);
+
+      await expect(
+        post([
+          { account: treasury, asset: USD, amount: -10, suffix: '' },
+          { account: wallet, asset: USD, amount: 10, suffix: '' },
+        ]),
+      ).rejects.toThrow(staleLock);
+
+      expect(await harness.balanceOf(wallet)).toMatchObject({
+        available: 100,
+        fence: 5,
+      });
+      // Wallet, treasury and the funding clearing account; no second wallet row
+      expect(harness.models.balance.store).toHaveLength(3);
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets a write through once its token is the newest', async () => {
+      await fenceWalletAt(2);
+
+      await post([
+        { account: wallet, asset: USD, amount: -10, suffix: '' },
+        { account: treasury, asset: USD, amount: 10, suffix: '' },
+      ]);
+
+      expect(await harness.balanceOf(wallet)).toMatchObject({
+        available: 90,
+        fence: 2,
+      });
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('carries on from the stored fence after the lock store restarts', async () => {
+      for (let i = 0; i < 3; i++) await harness.fund(wallet, 10);
+      expect((await harness.balanceOf(wallet))?.fence).toBe(3);
+
+      // Same database, new process: its memory driver counts from zero
+      const restarted = createLedgerHarness({ models: harness.models });
+      await restarted.ledger.post({
+        idempotencyKey: 'after-restart',
+        legs: [
+          { account: wallet, asset: USD, amount: -10, suffix: '' },
+          { account: treasury, asset: USD, amount: 10, suffix: '' },
+        ],
+        busyMessage: 'common.errors.unable_to_lock_balance',
+      });
+
+      expect(await harness.balanceOf(wallet)).toMatchObject({
+        available: 20,
+        fence: 4,
+      });
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { FeeType, RoundingMode } from '../src/common/enums/index';
+import {
+  EXACT_PRECISION,
+  MoneyPrecision,
+  addMoney,
+  calculateFee,
+  percentOf,
+  roundMoney,
+  subtractMoney,
+  toDecimal128,
+} from '../src/common/utils/money';
+
+const cents = (roundingMode: RoundingMode): MoneyPrecision => ({
+  decimalPlaces: 2,
+  roundingMode,
+});
+
+describe('money', () => {
+  describe('roundMoney', () => {
+    it.each([
+      [RoundingMode.HALF_UP, 2.345, 2.35],
+      [RoundingMode.HALF_UP, 2.344, 2.34],
+      [RoundingMode.HALF_EVEN, 2.345, 2.34],
+      [RoundingMode.HALF_EVEN, 2.355, 2.36],
+      [RoundingMode.HALF_EVEN, 2.3451, 2.35],
+      [RoundingMode.UP, 2.341, 2.35],
+      [RoundingMode.DOWN, 2.349, 2.34],
+    ])('rounds %s: %d -> %d', (mode, value, expected) => {
+      expect(roundMoney(value, cents(mode))).toBe(expected);
+    });
+
+    it.each([
+      [RoundingMode.HALF_UP, -2.345, -2.35],
+      [RoundingMode.HALF_EVEN, -2.345, -2.34],
+      [RoundingMode.UP, -2.341, -2.35],
+      [RoundingMode.DOWN, -2.349, -2.34],
+    ])(
+      'rounds negative amounts by magnitude, %s: %d -> %d',
+      (mode, value, expected) => {
+        expect(roundMoney(value, cents(mode))).toBe(expected);
+      },
+    );
+
+    it('breaks ties to the even neighbour under HALF_EVEN only', () => {
+      const whole = (roundingMode: RoundingMode) => ({
+        decimalPlaces: 0,
+        roundingMode,
+      });
+
+      expect(
+        [0.5, 1.5, 2.5].map((v) => roundMoney(v, whole(RoundingMode.HALF_UP))),
+      ).toEqual([1, 2, 3]);
+      expect(
+        [0.5, 1.5, 2.5].map((v) =>
+          roundMoney(v, whole(RoundingMode.HALF_EVEN)),
+        ),
+      ).toEqual([0, 2, 2]);
+    });
+
+    it('drops float noise before rounding', () => {
+      expect(roundMoney(10.000000000000002)).toBe(10);
+      // Noise must not push UP to the next cent
+      expect(roundMoney(10.000000000000002, cents(RoundingMode.UP))).toBe(10);
+      expect(roundMoney(1.005)).toBe(1.01);
+    });
+
+    it('reads numbers that print in exponent notation', () => {
+      const sevenths = { decimalPlaces: 7, roundingMode: RoundingMode.HALF_UP };
+
+      expect(roundMoney(1.5e-7, sevenths)).toBe(2e-7);
+      expect(roundMoney(1e21, EXACT_PRECISION)).toBe(1e21);
+    });
+
+    it('accepts decimal strings and rejects anything else', () => {
+      expect(roundMoney(' 2.345 ')).toBe(2.35);
+      expect(() => roundMoney('abc')).toThrow(TypeError);
+    });
+  });
+
+  describe('toDecimal128', () => {
+    it('stores the shortest exact form of the toPrecision output', () => {
+      expect(String(toDecimal128(10.000000000000002))).toBe('10');
+      expect(String(toDecimal128(0.1 + 0.2))).toBe('0.3');
+      expect(String(toDecimal128(-123456789.125))).toBe('-123456789.125');
+    });
+  });
+
+  describe('addMoney and subtractMoney', () => {
+    it('sums exactly and rounds once', () => {
+      expect(addMoney([0.1, 0.2])).toBe(0.3);
+      expect(addMoney([0.004, 0.004])).toBe(0.01);
+      expect(subtractMoney(0.3, [0.1])).toBe(0.2);
+      expect(subtractMoney(1, [2.5])).toBe(-1.5);
+    });
+  });
+
+  describe('percentOf', () => {
+    it('computes the percentage exactly before rounding', () => {
+      expect(percentOf(200, 2.5)).toBe(5);
+      expect(percentOf(10.5, 1)).toBe(0.11);
+      expect(percentOf(10.5, 1, cents(RoundingMode.HALF_EVEN))).toBe(0.1);
+      expect(percentOf(-10.5, 1)).toBe(-0.11);
+    });
+  });
+
+  describe('calculateFee', () => {
+    it('charges nothing when fees are disabled or missing', () => {
+      expect(calculateFee(100, null)).toBe(0);
+      expect(
+        calculateFee(100, {
+          enabled: false,
+          type: FeeType.FIXED,
+          fixedAmount: 1,
+        }),
+      ).toBe(0);
+    });
+
+    it('applies percentage, fixed and hybrid structures', () => {
+      expect(
+        calculateFee(100.1, {
+          enabled: true,
+          type: FeeType.PERCENTAGE,
+          percentage: 2.5,
+        }),
+      ).toBe(2.5);
+      expect(
+        calculateFee(100, {
+          enabled: true,
+          type: FeeType.FIXED,
+          fixedAmount: 1.5,
+        }),
+      ).toBe(1.5);
+      expect(
+        calculateFee(10.5, {
+          enabled: true,
+          type: FeeType.HYBRID,
+          percentage: 1,
+          fixedAmount: 0.2,
+        }),
+      ).toBe(0.31);
+    });
+
+    it('rounds the percentage part before adding the fixed part', () => {
+      // 0.1045 + 0.004 would round to 0.11 in one go
+      expect(
+        calculateFee(10.45, {
+          enabled: true,
+          type: FeeType.HYBRID,
+          percentage: 1,
+          fixedAmount: 0.004,
+        }),
+      ).toBe(0.1);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { Logger } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  OutboxEventType,
+  OutboxService,
+  WalletMovedPayload,
+} from '../src/modules/outbox/outbox.service';
+import { OutboxEventStatus } from '../src/modules/outbox/schemas/outbox-event.schema';
+import { TransactionType } from '../src/modules/wallet/schemas/transaction.schema';
+import { createLedgerHarness } from './support/ledger-harness';
+
+describe('OutboxService.dispatchPending', () => {
+  let harness: ReturnType<typeof createLedgerHarness>;
+  let outbox: OutboxService;
+
+  const payload: WalletMovedPayload = {
+    accountId: new Types.ObjectId().toHexString(),
+    userId: new Types.ObjectId().toHexString(),
+    assetSymbol: 'USD',
+    amount: 10,
+    transactionType: TransactionType.DEPOSIT,
+    journalEntryId: new Types.ObjectId().toHexString(),
+    idempotencyKey: 'deposit-1',
+  };
+
+  const addEvents = (count: number) =>
+    harness.models.outbox.insertMany(
+      Array.from({ length: count }, (_, i) => ({
+        type: OutboxEventType.WALLET_CREDITED,
+        payload,
+        nextAttemptAt: new Date(Date.now() - (count - i) * 1000),
+      })),
+    );
+
+  const statuses = () =>
+    harness.models.outbox.store.map((event) => event.status);
+
+  beforeEach(() => {
+    harness = createLedgerHarness();
+    outbox = harness.outbox;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renews the dispatch lease after every event', async () => {
+    await addEvents(3);
+    const renew = jest.spyOn(harness.store.locks, 'renew');
+    outbox.subscribe(OutboxEventType.WALLET_CREDITED, () => Promise.resolve());
+
+    await outbox.dispatchPending();
+
+    expect(statuses()).toEqual(Array(3).fill(OutboxEventStatus.PUBLISHED));
+    expect(renew).toHaveBeenCalledTimes(3);
+    expect(renew.mock.calls[0][0]).toBe('outbox:dispatch');
+  });
+
+  it('leaves the rest of the batch once the lease is lost', async () => {
+    await addEvents(3);
+    const warn = jest
+      .spyOn(Logger.prototype, 'warn')
+      .mockImplementation(() => {});
+    // Another instance takes over while the first event is handled
+    outbox.subscribe(OutboxEventType.WALLET_CREDITED, async () => {
+      await harness.store.locks.forceRelease('outbox:dispatch');
+    });
+
+    await outbox.dispatchPending();
+
+    expect(statuses()).toEqual([
+      OutboxEventStatus.PUBLISHED,
+      OutboxEventStatus.PENDING,
+      OutboxEventStatus.PENDING,
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      'Outbox dispatch lock lost, leaving the rest of the batch',
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { ConflictException } from '@nestjs/common';
+import { MemoryStoreDriver } from '../src/common/services/internal/drivers/memory-store.driver';
+import { RedisLockService } from '../src/common/services/internal/redis-lock.service';
+import { memoryStore } from './support/test-services';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('RedisLockService.withLocks', () => {
+  let driver: MemoryStoreDriver;
+  let locks: RedisLockService;
+
+  beforeEach(() => {
+    ({ driver, locks } = memoryStore());
+    // Busy and lease warnings are expected here
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('takes every key at once, sorted and without duplicates', async () => {
+    const acquire = jest.spyOn(driver, 'acquireLocks');
+
+    const fences = await locks.withLocks(
+      ['wallet:b:USD', 'wallet:a:USD', 'wallet:b:USD'],
+      (fences) => Promise.resolve(fences),
+    );
+
+    expect(acquire).toHaveBeenCalledTimes(1);
+    expect(acquire.mock.calls[0][0]).toEqual(['wallet:a:USD', 'wallet:b:USD']);
+    expect([...fences.keys()]).toEqual(['wallet:a:USD', 'wallet:b:USD']);
+  });
+
+  it('issues growing fencing tokens per key', async () => {
+    const first = await locks.withLocks(['k'], (fences) =>
+      Promise.resolve(fences.get('k')),
+    );
+    const second = await locks.withLocks(['k'], (fences) =>
+      Promise.resolve(fences.get('k')),
+    );
+
+    expect(first).toBe(1);
+    expect(second).toBe(2);
+  });
+
+  it('starts tokens above the given fence floors', async () => {
+    const fenceOf = (floor: number) =>
+      locks.withLocks(['k'], (fences) => Promise.resolve(fences.get('k')), {
+        fenceFloors: new Map([['k', floor]]),
+      });
+
+    // A fresh driver still counts from the token already applied
+    expect(await fenceOf(7)).toBe(8);
+    // A floor behind the counter leaves it alone
+    expect(await fenceOf(3)).toBe(9);
+  });
+
+  it('retries a busy key with backoff until it is released', async () => {
+    const token = await locks.acquire('k', 10000);
+    setTimeout(() => void locks.release('k', token!), 100);
+    const acquire = jest.spyOn(driver, 'acquireLocks');
+
+    const startedAt = Date.now();
+    await locks.withLocks(['k'], () => Promise.resolve(), {
+      waitMs: 2000,
+      retryDelayMs: 10,
+      maxRetryDelayMs: 40,
+    });
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+    expect(acquire.mock.calls.length).toBeGreaterThan(2);
+    const [stats] = await locks.getStats();
+    expect(stats).toMatchObject({ prefix: 'k', acquired: 2, contended: 1 });
+  });
+
+  it('gives up with a ConflictException once waitMs runs out', async () => {
+    await locks.acquire('k', 10000);
+    const fn = jest.fn(() => Promise.resolve());
+
+    const startedAt = Date.now();
+    await expect(
+      locks.withLocks(['k'], fn, {
+        waitMs: 150,
+        retryDelayMs: 10,
+        busyMessage: 'common.errors.unable_to_lock_balance',
+      }),
+    ).rejects.toThrow(
+      new ConflictException('common.errors.unable_to_lock_balance'),
+    );
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    const [stats] = await locks.getStats();
+    expect(stats).toMatchObject({ failed: 1 });
+  });
+
+  it('does not take any key while one of them is busy', async () => {
+    await locks.acquire('b', 10000);
+
+    await expect(
+      locks.withLocks(['a', 'b'], () => Promise.resolve(), { waitMs: 0 }),
+    ).rejects.toThrow(ConflictException);
+
+    expect(await locks.acquire('a', 1000)).not.toBeNull();
+  });
+
+  it('renews the lease every third of the ttl while fn runs', async () => {
+    const renew = jest.spyOn(driver, 'renewLocks');
+
+    await locks.withLocks(
+      ['k'],
+      async () => {
+        await sleep(400);
+        // Well past the 150ms ttl, the lease is still held
+        expect(await locks.acquire('k', 1000)).toBeNull();
+      },
+      { ttlMs: 150 },
+    );
+
+    // About one renewal per 50ms; timers can drift on a busy machine
+    expect(renew.mock.calls.length).toBeGreaterThanOrEqual(3);
+    expect(renew.mock.calls[0][2]).toBe(150);
+  });
+
+  it('releases the keys and stops renewing when fn throws', async () => {
+    const renew = jest.spyOn(driver, 'renewLocks');
+
+    await expect(
+      locks.withLocks(
+        ['a', 'b'],
+        () => Promise.reject(new Error('posting failed')),
+        { ttlMs: 60 },
+      ),
+    ).rejects.toThrow('posting failed');
+
+    expect(await locks.acquire('a', 1000)).not.toBeNull();
+    expect(await locks.acquire('b', 1000)).not.toBeNull();
+    await sleep(100);
+    expect(renew).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,377 @@
+import { Types } from 'mongoose';
+
+type Fields = Record<string, unknown>;
+
+export interface InMemoryModelOptions {
+  // Fields a new document starts with, like the schema defaults
+  defaults?: Fields;
+  // Field sets that must be unique, like the schema's unique indexes
+  unique?: string[][];
+}
+
+// Error the driver raises when a write breaks a unique index
+export class DuplicateKeyError extends Error {
+  readonly code = 11000;
+}
+
+/**
+ * Stand-in for a Mongoose model that keeps its documents in memory.
+ *
+ * Supports the subset of queries and updates the services use: equality
+ * (ObjectIds by value), `$gt`/`$gte`/`$lt`/`$lte`/`$ne`/`$in`/`$not`/
+ * `$exists` filters, `$set`/`$inc`/`$max`/`$setOnInsert` updates, upserts
+ * and unique indexes. Reads return copies, so a document only changes in the
+ * store once it is saved or updated. Sessions are accepted and ignored.
+ */
+export function inMemoryModel(options: InMemoryModelOptions = {}) {
+  const store: InMemoryDocument[] = [];
+
+  class InMemoryDocument {
+    _id: Types.ObjectId;
+    [field: string]: unknown;
+
+    static readonly store = store;
+
+    constructor(fields: Fields = {}) {
+      Object.assign(this, copyFields(options.defaults ?? {}));
+      Object.assign(this, fields);
+      this._id = (fields._id as Types.ObjectId) ?? new Types.ObjectId();
+    }
+
+    save(): Promise<this> {
+      const index = store.findIndex((doc) => equals(doc._id, this._id));
+      assertUnique(this, index);
+      const copy = copyOf(this);
+      if (index >= 0) store[index] = copy;
+      else store.push(copy);
+      return Promise.resolve(this);
+    }
+
+    set(fields: Fields): this {
+      Object.assign(this, fields);
+      return this;
+    }
+
+    toObject(): Fields {
+      return { ...this };
+    }
+
+    static findOne(filter: Fields = {}) {
+      return new Query(() => {
+        const doc = store.find((candidate) => matches(candidate, filter));
+        return doc ? copyOf(doc) : null;
+      });
+    }
+
+    static findById(id: unknown) {
+      return this.findOne({ _id: id });
+    }
+
+    static find(filter: Fields = {}) {
+      return new Query(() =>
+        store.filter((doc) => matches(doc, filter)).map((doc) => copyOf(doc)),
+      );
+    }
+
+    static countDocuments(filter: Fields = {}) {
+      return new Query(
+        () => store.filter((doc) => matches(doc, filter)).length,
+      );
+    }
+
+    static findOneAndUpdate(
+      filter: Fields,
+      update: Fields,
+      opts: { upsert?: boolean; new?: boolean } = {},
+    ) {
+      return new Query(() => {
+        const index = store.findIndex((doc) => matches(doc, filter));
+        if (index < 0) {
+          if (!opts.upsert) return null;
+          const created = new InMemoryDocument(equalityFieldsOf(filter));
+          applyUpdate(created, update, true);
+          assertUnique(created, -1);
+          store.push(copyOf(created));
+          return opts.new ? copyOf(created) : null;
+        }
+
+        const before = copyOf(store[index]);
+        const after = copyOf(store[index]);
+        applyUpdate(after, update, false);
+        assertUnique(after, index);
+        store[index] = after;
+        return opts.new ? copyOf(after) : before;
+      });
+    }
+
+    static updateOne(filter: Fields, update: Fields) {
+      return new Query(() => {
+        const doc = store.find((candidate) => matches(candidate, filter));
+        if (doc) applyUpdate(doc, update, false);
+        return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+      });
+    }
+
+    static updateMany(filter: Fields, update: Fields) {
+      return new Query(() => {
+        const docs = store.filter((doc) => matches(doc, filter));
+        for (const doc of docs) applyUpdate(doc, update, false);
+        return { matchedCount: docs.length, modifiedCount: docs.length };
+      });
+    }
+
+    static async insertMany(docs: Fields[]) {
+      const created: InMemoryDocument[] = [];
+      for (const fields of docs) {
+        created.push(await new InMemoryDocument(fields).save());
+      }
+      return created;
+    }
+  }
+
+  function assertUnique(doc: InMemoryDocument, ownIndex: number): void {
+    for (const fields of options.unique ?? []) {
+      const clash = store.some(
+        (other, index) =>
+          index !== ownIndex &&
+          !equals(other._id, doc._id) &&
+          fields.every((field) => equals(other[field], doc[field])),
+      );
+      if (clash) {
+        throw new DuplicateKeyError(
+          `E11000 duplicate key error on ${fields.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  function copyOf(doc: InMemoryDocument): InMemoryDocument {
+    return new InMemoryDocument({ ...doc });
+  }
+
+  return InMemoryDocument;
+}
+
+export type InMemoryModel = ReturnType<typeof inMemoryModel>;
+
+// Thenable like a Mongoose query; the chained modifiers the services use are
+// applied to the result when it is awaited
+export class Query<T> implements PromiseLike<T> {
+  private sortBy: Fields | null = null;
+  private limitTo: number | null = null;
+
+  constructor(private readonly run: () => T) {}
+
+  sort(sortBy: Fields): this {
+    this.sortBy = sortBy;
+    return this;
+  }
+
+  limit(limitTo: number): this {
+    this.limitTo = limitTo;
+    return this;
+  }
+
+  select(): this {
+    return this;
+  }
+
+  populate(): this {
+    return this;
+  }
+
+  session(): this {
+    return this;
+  }
+
+  lean<R = T>(): Query<R> {
+    return this as unknown as Query<R>;
+  }
+
+  exec(): Promise<T> {
+    return Promise.resolve().then(() => this.result());
+  }
+
+  then<R1 = T, R2 = never>(
+    onfulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this.exec().then(onfulfilled, onrejected);
+  }
+
+  private result(): T {
+    const result = this.run();
+    if (!Array.isArray(result)) return result;
+
+    let docs = result as Fields[];
+    const sortBy = this.sortBy;
+    if (sortBy) {
+      docs = [...docs].sort((a, b) => {
+        for (const [field, direction] of Object.entries(sortBy)) {
+          const order = compare(a[field], b[field]);
+          if (order !== 0) return order * Number(direction);
+        }
+        return 0;
+      });
+    }
+    if (this.limitTo !== null) docs = docs.slice(0, this.limitTo);
+    return docs as T;
+  }
+}
+
+function matches(doc: Fields, filter: Fields): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') {
+      return (condition as Fields[]).some((part) => matches(doc, part));
+    }
+    if (key === '$and') {
+      return (condition as Fields[]).every((part) => matches(doc, part));
+    }
+    return matchesValue(valueAt(doc, key), condition);
+  });
+}
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (!isOperatorObject(condition)) {
+    if (Array.isArray(value) && !Array.isArray(condition)) {
+      return value.some((item) => equals(item, condition));
+    }
+    return equals(value, condition);
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$gt':
+        return value != null && compare(value, operand) > 0;
+      case '$gte':
+        return value != null && compare(value, operand) >= 0;
+      case '$lt':
+        return value != null && compare(value, operand) < 0;
+      case '$lte':
+        return value != null && compare(value, operand) <= 0;
+      case '$ne':
+        return !equals(value, operand);
+      case '$in':
+        return (operand as unknown[]).some((item) => equals(value, item));
+      case '$nin':
+        return !(operand as unknown[]).some((item) => equals(value, item));
+      case '$not':
+        return !matchesValue(value, operand);
+      case '$exists':
+        return (value !== undefined) === operand;
+      default:
+        throw new Error(`Unsupported filter operator ${operator}`);
+    }
+  });
+}
+
+function applyUpdate(doc: Fields, update: Fields, inserting: boolean): void {
+  const operators = Object.keys(update).some((key) => key.startsWith('$'))
+    ? update
+    : { $set: update };
+  for (const [operator, fields] of Object.entries(operators)) {
+    for (const [path, operand] of Object.entries(fields as Fields)) {
+      const current = valueAt(doc, path);
+      switch (operator) {
+        case '$set':
+          setValueAt(doc, path, operand);
+          break;
+        case '$setOnInsert':
+          if (inserting) setValueAt(doc, path, operand);
+          break;
+        case '$unset':
+          setValueAt(doc, path, undefined);
+          break;
+        case '$inc':
+          setValueAt(doc, path, Number(current ?? 0) + Number(operand));
+          break;
+        case '$max':
+          if (current == null || compare(operand, current) > 0) {
+            setValueAt(doc, path, operand);
+          }
+          break;
+        case '$min':
+          if (current == null || compare(operand, current) < 0) {
+            setValueAt(doc, path, operand);
+          }
+          break;
+        case '$push':
+          setValueAt(doc, path, [...((current as unknown[]) ?? []), operand]);
+          break;
+        default:
+          throw new Error(`Unsupported update operator ${operator}`);
+      }
+    }
+  }
+}
+
+// Plain values of a filter, which an upsert copies into the new document
+function equalityFieldsOf(filter: Fields): Fields {
+  return Object.fromEntries(
+    Object.entries(filter).filter(
+      ([key, value]) =>
+        !key.startsWith('$') && !key.includes('.') && !isOperatorObject(value),
+    ),
+  );
+}
+
+function isOperatorObject(value: unknown): value is Fields {
+  if (value === null || typeof value !== 'object') return false;
+  if (value instanceof Types.ObjectId || value instanceof Date) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith('$'));
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a == null || b == null) return a == null && b == null;
+  if (a instanceof Types.ObjectId || b instanceof Types.ObjectId) {
+    return idOf(a) === idOf(b);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : (a as number | string);
+  const right = b instanceof Date ? b.getTime() : (b as number | string);
+  if (left === right) return 0;
+  return left > right ? 1 : -1;
+}
+
+// Services pass ids as ObjectIds or as hex strings
+function idOf(value: unknown): string | null {
+  if (value instanceof Types.ObjectId) return value.toHexString();
+  return typeof value === 'string' ? value : null;
+}
+
+function valueAt(doc: Fields, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value === null || value === undefined
+          ? undefined
+          : (value as Fields)[key],
+      doc,
+    );
+}
+
+function setValueAt(doc: Fields, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let target = doc;
+  for (const key of keys.slice(0, -1)) {
+    target[key] ??= {};
+    target = target[key] as Fields;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function copyFields(fields: Fields): Fields {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? [...(value as unknown[])] : value,
+    ]),
+  );
+}
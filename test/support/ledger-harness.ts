@@ -0,0 +1,160 @@
+import type { Model } from 'mongoose';
+import { Types } from 'mongoose';
+import { HoldService } from '../../src/modules/hold/hold.service';
+import { HoldStatus } from '../../src/modules/hold/schemas/balance-hold.schema';
+import {
+  LedgerAsset,
+  LedgerService,
+} from '../../src/modules/ledger/ledger.service';
+import { OutboxService } from '../../src/modules/outbox/outbox.service';
+import { OutboxEventStatus } from '../../src/modules/outbox/schemas/outbox-event.schema';
+import { RealtimeService } from '../../src/modules/realtime/realtime.service';
+import {
+  AccountDocument,
+  AccountStatus,
+  AccountType,
+} from '../../src/modules/wallet/schemas/account.schema';
+import {
+  BalanceDocument,
+  assetType,
+} from '../../src/modules/wallet/schemas/balance.schema';
+import { inMemoryModel } from './in-memory-model';
+import { keyI18n, memoryStore, sessionlessMongo } from './test-services';
+
+export const USD: LedgerAsset = {
+  assetType: assetType.CURRENCY,
+  assetId: new Types.ObjectId(),
+  assetSymbol: 'USD',
+};
+
+export function asModel<T>(model: unknown): Model<T> {
+  return model as Model<T>;
+}
+
+function createModels() {
+  return {
+    account: inMemoryModel({
+      defaults: {
+        userId: null,
+        status: AccountStatus.ACTIVE,
+        name: null,
+        freeze: null,
+        deletedAt: null,
+      },
+    }),
+    balance: inMemoryModel({
+      defaults: { available: 0, locked: 0, reserved: 0, fence: 0 },
+      unique: [['accountId', 'assetSymbol']],
+    }),
+    journal: inMemoryModel({ unique: [['idempotencyKey']] }),
+    transaction: inMemoryModel(),
+    hold: inMemoryModel({
+      defaults: {
+        ownerRef: null,
+        capturedAmount: 0,
+        releasedAmount: 0,
+        status: HoldStatus.ACTIVE,
+        expiresAt: null,
+        closedAt: null,
+      },
+      unique: [['idempotencyKey']],
+    }),
+    outbox: inMemoryModel({
+      defaults: {
+        status: OutboxEventStatus.PENDING,
+        attempts: 0,
+        lastError: null,
+        publishedAt: null,
+      },
+    }),
+  };
+}
+
+export type LedgerModels = ReturnType<typeof createModels>;
+
+/**
+ * The ledger and the services it posts through, wired to in-memory models
+ * and a memory store driver: real locks and fencing tokens, no Mongo or
+ * Redis server. Passing the `models` of another harness stands for the same
+ * database seen by a restarted process.
+ */
+export function createLedgerHarness(options: { models?: LedgerModels } = {}) {
+  const models = options.models ?? createModels();
+  const store = memoryStore();
+  const mongo = sessionlessMongo();
+  const i18n = keyI18n();
+  const realtime = new RealtimeService(store.redis);
+  const holds = new HoldService(
+    asModel(models.hold),
+    asModel(models.account),
+    asModel(models.balance),
+    mongo,
+    store.locks,
+    realtime,
+    i18n,
+  );
+  const outbox = new OutboxService(asModel(models.outbox), store.locks);
+  const ledger = new LedgerService(
+    asModel(models.account),
+    asModel(models.balance),
+    asModel(models.journal),
+    asModel(models.transaction),
+    holds,
+    realtime,
+    outbox,
+    store.locks,
+    mongo,
+    i18n,
+  );
+
+  async function createAccount(
+    type: AccountType,
+    subtype: string,
+    userId: Types.ObjectId | null = null,
+  ): Promise<AccountDocument> {
+    const account = new models.account({ type, subtype, userId });
+    return (await account.save()) as unknown as AccountDocument;
+  }
+
+  async function balanceOf(
+    account: AccountDocument,
+    asset: LedgerAsset = USD,
+  ): Promise<BalanceDocument | null> {
+    const balance = await models.balance.findOne({
+      accountId: account._id,
+      assetSymbol: asset.assetSymbol,
+    });
+    return balance as unknown as BalanceDocument | null;
+  }
+
+  // Credits `amount` to the account from an external clearing account
+  async function fund(
+    account: AccountDocument,
+    amount: number,
+    asset: LedgerAsset = USD,
+  ): Promise<void> {
+    const external = await createAccount(AccountType.SYSTEM, 'EXTERNAL_TEST');
+    await ledger.post({
+      idempotencyKey: `fund-${new Types.ObjectId().toHexString()}`,
+      legs: [
+        { account: external, asset, amount: -amount, suffix: '' },
+        { account, asset, amount, suffix: '' },
+      ],
+      busyMessage: 'common.errors.deposit_failed',
+    });
+  }
+
+  return {
+    models,
+    store,
+    mongo,
+    i18n,
+    realtime,
+    holds,
+    outbox,
+    ledger,
+    createAccount,
+    balanceOf,
+    fund,
+  };
+}
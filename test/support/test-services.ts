@@ -0,0 +1,60 @@
+import type { LoggerService } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { ClientSession, Connection } from 'mongoose';
+import { I18nService } from 'nestjs-i18n';
+import { MemoryStoreDriver } from '../../src/common/services/internal/drivers/memory-store.driver';
+import { MongoService } from '../../src/common/services/internal/mongo.service';
+import { RedisLockService } from '../../src/common/services/internal/redis-lock.service';
+import { RedisService } from '../../src/common/services/internal/redis.service';
+
+// Translates to the key itself, so tests can assert on message keys
+export function keyI18n(): I18nService {
+  return { t: (key: string) => key } as unknown as I18nService;
+}
+
+export function silentLogger(): LoggerService {
+  return { log() {}, warn() {}, error() {} };
+}
+
+export function emptyConfig(values: Record<string, unknown> = {}) {
+  return {
+    get: (path: string) => values[path],
+  } as unknown as ConfigService;
+}
+
+// Cache, pub/sub and locks over one in-process store, as with
+// REDIS_DRIVER=memory
+export function memoryStore(driver = new MemoryStoreDriver()) {
+  return {
+    driver,
+    redis: new RedisService(driver),
+    locks: new RedisLockService(driver, silentLogger(), keyI18n()),
+  };
+}
+
+// Transactions over fake sessions: `fn` runs and "commits" without a server.
+// In-memory models ignore the session, so aborted writes are not rolled back.
+export function sessionlessMongo(): MongoService {
+  const connection = {
+    startSession: () => {
+      let inTransaction = false;
+      const session = {
+        startTransaction: () => {
+          inTransaction = true;
+        },
+        commitTransaction: () => {
+          inTransaction = false;
+          return Promise.resolve();
+        },
+        abortTransaction: () => {
+          inTransaction = false;
+          return Promise.resolve();
+        },
+        inTransaction: () => inTransaction,
+        endSession: () => Promise.resolve(),
+      };
+      return Promise.resolve(session as unknown as ClientSession);
+    },
+  } as unknown as Connection;
+  return new MongoService(connection, emptyConfig(), silentLogger());
+}
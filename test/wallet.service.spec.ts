@@ -1,124 +1,49 @@
 import { Types } from 'mongoose';
 import { WalletService } from '../src/modules/wallet/wallet.service';
-import { I18nService } from 'nestjs-i18n';
+import { LimitService } from '../src/modules/limit/limit.service';
+import { UsersService } from '../src/modules/users/users.service';
+import { AccountType } from '../src/modules/wallet/schemas/account.schema';
+import { inMemoryModel } from './support/in-memory-model';
+import { asModel, createLedgerHarness } from './support/ledger-harness';
+import { emptyConfig } from './support/test-services';
 
-class FakeAccountModel {
-  static store: any[] = [];
-  static async findOne(query: any) {
-    if (query._id) {
-      return (
-        this.store.find(
-          (a) => String(a._id) === String(query._id) && a.deletedAt === null,
-        ) || null
-      );
-    }
-    if (
-      query.type === 'SYSTEM' &&
-      query.subtype === 'TREASURY' &&
-      query.deletedAt === null
-    ) {
-      return (
-        this.store.find(
-          (a) =>
-            a.type === 'SYSTEM' &&
-            a.subtype === 'TREASURY' &&
-            a.deletedAt === null,
-        ) || null
-      );
-    }
-    return null;
-  }
-  _doc: any;
-  constructor(doc: any) {
-    this._doc = { ...doc, _id: new Types.ObjectId(), deletedAt: null };
-  }
-  async save() {
-    FakeAccountModel.store.push(this._doc);
-    return this._doc;
-  }
-}
+describe('WalletService deposit', () => {
+  let harness: ReturnType<typeof createLedgerHarness>;
+  let service: WalletService;
 
-class FakeBalanceModel {
-  static store: any[] = [];
-  static async findOne(query: any) {
-    return (
-      this.store.find(
-        (b) =>
-          String(b.accountId) === String(query.accountId) &&
-          b.assetSymbol === query.assetSymbol,
-      ) || null
-    );
-  }
-  static async findOneAndUpdate(query: any, update: any, opts: any) {
-    let existing = await this.findOne(query);
-    if (!existing && opts.upsert) {
-      existing = {
-        accountId: query.accountId,
-        assetSymbol: query.assetSymbol,
-        available: 0,
-        locked: 0,
-      };
-      this.store.push(existing);
-    }
-    existing.available += update.$inc.available || 0;
-    if (update.$inc.locked) existing.locked += update.$inc.locked;
-    return existing;
-  }
-}
+  beforeEach(async () => {
+    harness = createLedgerHarness();
+    const currencies = inMemoryModel({ defaults: { deletedAt: null } });
+    await new currencies({ symbol: 'USD', decimalPlaces: 2 }).save();
 
-class FakeJournalModel {
-  static store: any[] = [];
-  static async findOne(query: any) {
-    return (
-      this.store.find((j) => j.idempotencyKey === query.idempotencyKey) || null
+    service = new WalletService(
+      asModel(harness.models.account),
+      asModel(harness.models.balance),
+      asModel(harness.models.journal),
+      asModel(harness.models.transaction),
+      asModel(inMemoryModel()),
+      asModel(currencies),
+      asModel(inMemoryModel()),
+      asModel(inMemoryModel()),
+      harness.i18n,
+      emptyConfig(),
+      {} as UsersService,
+      {} as LimitService,
+      harness.ledger,
+      harness.realtime,
     );
-  }
-  _doc: any;
-  constructor(doc: any) {
-    this._doc = { ...doc, _id: new Types.ObjectId() };
-  }
-  async save() {
-    FakeJournalModel.store.push(this._doc);
-    return this._doc;
-  }
-}
+  });
 
-describe('WalletService deposit idempotency', () => {
   it('returns same journal on repeated idempotent deposit', async () => {
-    const walletId = new Types.ObjectId();
-    FakeAccountModel.store.push({
-      _id: walletId,
-      type: 'WALLET',
-      userId: new Types.ObjectId(),
-      subtype: 'MAIN',
-      deletedAt: null,
-    });
-
-    const mongo: any = {
-      startSession: async () => ({
-        withTransaction: async (fn: any) => {
-          await fn();
-        },
-        endSession: () => {},
-      }),
-    };
-    const i18n: Partial<I18nService> = { t: (k: string) => k };
-
-    const fakeLock = {
-      acquire: async (_key: string, _ttl: number) => 'tok',
-      release: async (_key: string, _token: string) => true,
-    };
-    const service = new WalletService(
-      FakeAccountModel as any,
-      FakeBalanceModel as any,
-      FakeJournalModel as any,
-      mongo,
-      i18n as I18nService,
-      fakeLock as any,
+    const wallet = await harness.createAccount(
+      AccountType.WALLET,
+      'MAIN',
+      new Types.ObjectId(),
     );
+    const walletId = (wallet._id as Types.ObjectId).toHexString();
 
     const dto = {
-      walletAccountId: String(walletId),
+      walletAccountId: walletId,
       assetSymbol: 'USD',
       amount: 100,
       idempotencyKey: 'abc-123',
@@ -128,8 +53,56 @@ describe('WalletService deposit idempotency', () => {
 
     expect(first.journal.idempotencyKey).toBe('abc-123');
     expect(second.journal.idempotencyKey).toBe('abc-123');
-    expect(FakeJournalModel.store.length).toBe(1);
-    const bal = await service.getBalance(String(walletId), 'USD');
+    expect(harness.models.journal.store).toHaveLength(1);
+    const bal = await service.getBalance(walletId, 'USD');
     expect(bal.available).toBe(100);
   });
+
+  it('credits once for concurrent deposits with the same key', async () => {
+    const wallet = await harness.createAccount(
+      AccountType.WALLET,
+      'MAIN',
+      new Types.ObjectId(),
+    );
+    const dto = {
+      walletAccountId: (wallet._id as Types.ObjectId).toHexString(),
+      assetSymbol: 'USD',
+      amount: 100,
+      idempotencyKey: 'dep-same',
+    };
+
+    const [first, second] = await Promise.all([
+      service.deposit(dto),
+      service.deposit(dto),
+    ]);
+
+    expect(second.journal).toEqual(first.journal);
+    expect(harness.models.journal.store).toHaveLength(1);
+    expect((await harness.balanceOf(wallet))?.available).toBe(100);
+  });
+
+  it('applies concurrent deposits to one wallet one after the other', async () => {
+    const wallet = await harness.createAccount(
+      AccountType.WALLET,
+      'MAIN',
+      new Types.ObjectId(),
+    );
+    const walletId = (wallet._id as Types.ObjectId).toHexString();
+
+    await Promise.all(
+      ['dep-1', 'dep-2', 'dep-3'].map((idempotencyKey) =>
+        service.deposit({
+          walletAccountId: walletId,
+          assetSymbol: 'USD',
+          amount: 10,
+          idempotencyKey,
+        }),
+      ),
+    );
+
+    const bal = await service.getBalance(walletId, 'USD');
+    expect(bal.available).toBe(30);
+    // Each deposit took the wallet lock and got its own fencing token
+    expect((await harness.balanceOf(wallet))?.fence).toBe(3);
+  });
 });
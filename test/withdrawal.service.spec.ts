@@ -0,0 +1,225 @@
+import { Types } from 'mongoose';
+import { FeeType } from '../src/common/enums/index';
+import { HoldStatus } from '../src/modules/hold/schemas/balance-hold.schema';
+import { LimitService } from '../src/modules/limit/limit.service';
+import {
+  BankWithdrawalDocument,
+  BankWithdrawalStatus,
+} from '../src/modules/withdrawal/schemas/bank-withdrawal.schema';
+import { WithdrawalService } from '../src/modules/withdrawal/withdrawal.service';
+import {
+  AccountDocument,
+  AccountType,
+} from '../src/modules/wallet/schemas/account.schema';
+import { inMemoryModel } from './support/in-memory-model';
+import { USD, asModel, createLedgerHarness } from './support/ledger-harness';
+
+describe('WithdrawalService', () => {
+  let harness: ReturnType<typeof createLedgerHarness>;
+  let service: WithdrawalService;
+  let withdrawals: ReturnType<typeof inMemoryModel>;
+  let orders: ReturnType<typeof inMemoryModel>;
+  let usages: ReturnType<typeof inMemoryModel>;
+  let wallet: AccountDocument;
+  const userId = new Types.ObjectId();
+  const bankId = new Types.ObjectId();
+
+  const request = async (amount: number) =>
+    (await service.createWithdrawalRequest(
+      {
+        bankId: bankId.toHexString(),
+        currencyId: USD.assetId.toHexString(),
+        amount,
+      } as Parameters<WithdrawalService['createWithdrawalRequest']>[0],
+      userId.toHexString(),
+    )) as BankWithdrawalDocument;
+
+  const idOf = (withdrawal: BankWithdrawalDocument) =>
+    (withdrawal._id as Types.ObjectId).toHexString();
+
+  const systemAccount = async (subtype: string) =>
+    (await harness.models.account.findOne({
+      type: AccountType.SYSTEM,
+      subtype,
+    })) as unknown as AccountDocument;
+
+  const holdOf = (withdrawal: BankWithdrawalDocument) =>
+    harness.models.hold.findOne({ _id: withdrawal.holdId });
+
+  beforeEach(async () => {
+    harness = createLedgerHarness();
+    withdrawals = inMemoryModel();
+    orders = inMemoryModel();
+    usages = inMemoryModel({ defaults: { releasedAt: null } });
+
+    const currencies = inMemoryModel({ defaults: { deletedAt: null } });
+    await new currencies({
+      _id: USD.assetId,
+      symbol: 'USD',
+      isActive: true,
+      decimalPlaces: 2,
+    }).save();
+    const banks = inMemoryModel({ defaults: { deletedAt: null } });
+    await new banks({
+      _id: bankId,
+      isActive: true,
+      withdrawAvailable: true,
+      currencies: [
+        {
+          currencyId: USD.assetId,
+          withdrawEnabled: true,
+          withdrawFee: { enabled: true, type: FeeType.FIXED, fixedAmount: 2 },
+          withdrawTax: { enabled: false },
+        },
+      ],
+    }).save();
+
+    // No limit profile, so only the usage bookkeeping is exercised
+    const limits = new LimitService(
+      asModel(inMemoryModel()),
+      asModel(usages),
+      asModel(inMemoryModel()),
+      harness.store.locks,
+      harness.i18n,
+    );
+    service = new WithdrawalService(
+      asModel(withdrawals),
+      asModel(orders),
+      asModel(banks),
+      asModel(currencies),
+      asModel(harness.models.account),
+      asModel(harness.models.journal),
+      harness.holds,
+      limits,
+      harness.ledger,
+      harness.realtime,
+      harness.outbox,
+      harness.i18n,
+    );
+
+    wallet = await harness.createAccount(AccountType.WALLET, 'MAIN', userId);
+    await harness.fund(wallet, 100);
+  });
+
+  it('holds the full amount and counts it against the limits on request', async () => {
+    const withdrawal = await request(50);
+
+    expect(withdrawal).toMatchObject({
+      status: BankWithdrawalStatus.PENDING,
+      reservedAmount: 50,
+      feeAmount: 2,
+      amount: 48,
+    });
+    expect(await holdOf(withdrawal)).toMatchObject({
+      amount: 50,
+      status: HoldStatus.ACTIVE,
+    });
+    expect(await harness.balanceOf(wallet)).toMatchObject({
+      available: 50,
+      reserved: 50,
+    });
+    expect(usages.store).toHaveLength(1);
+    expect(usages.store[0]).toMatchObject({
+      amount: 50,
+      ownerRef: idOf(withdrawal),
+      releasedAt: null,
+    });
+    expect(orders.store).toHaveLength(1);
+  });
+
+  it('pays out from the hold on completion', async () => {
+    const withdrawal = await request(50);
+    await service.approveWithdrawal(idOf(withdrawal), {}, 'admin');
+
+    const completed = await service.completeWithdrawal(
+      idOf(withdrawal),
+      { transactionReference: 'bank-ref-1' },
+      'admin',
+    );
+
+    expect(completed.status).toBe(BankWithdrawalStatus.COMPLETED);
+    expect(await withdrawals.findOne({ _id: withdrawal._id })).toMatchObject({
+      status: BankWithdrawalStatus.COMPLETED,
+      walletDebited: true,
+      transactionReference: 'bank-ref-1',
+    });
+    expect(await holdOf(withdrawal)).toMatchObject({
+      status: HoldStatus.CAPTURED,
+      capturedAmount: 50,
+    });
+    expect(await harness.balanceOf(wallet)).toMatchObject({
+      available: 50,
+      reserved: 0,
+    });
+    expect(
+      await harness.balanceOf(await systemAccount('EXTERNAL_BANK')),
+    ).toMatchObject({ available: 48 });
+    expect(await harness.balanceOf(await systemAccount('FEES'))).toMatchObject({
+      available: 2,
+    });
+    // Paid out, so it keeps counting against the limits
+    expect(usages.store[0].releasedAt).toBeNull();
+    expect(orders.store[0]).toMatchObject({ processed: true });
+  });
+
+  it('returns the hold and stops counting it on rejection', async () => {
+    const withdrawal = await request(50);
+
+    const rejected = await service.rejectWithdrawal(
+      idOf(withdrawal),
+      { rejectionReason: 'Wrong IBAN' },
+      'admin',
+    );
+
+    expect(rejected.status).toBe(BankWithdrawalStatus.REJECTED);
+    expect(await holdOf(withdrawal)).toMatchObject({
+      status: HoldStatus.RELEASED,
+      releasedAmount: 50,
+    });
+    expect(await harness.balanceOf(wallet)).toMatchObject({
+      available: 100,
+      reserved: 0,
+    });
+    expect(usages.store[0].releasedAt).toBeInstanceOf(Date);
+    expect(harness.models.journal.store).toHaveLength(1);
+  });
+
+  it('returns the hold and stops counting it on cancellation', async () => {
+    const withdrawal = await request(50);
+    await service.approveWithdrawal(idOf(withdrawal), {}, 'admin');
+
+    const cancelled = await service.cancelWithdrawal(
+      idOf(withdrawal),
+      { cancellationReason: 'Bank refused the transfer' },
+      'admin',
+    );
+
+    expect(cancelled.status).toBe(BankWithdrawalStatus.CANCELLED);
+    expect(await holdOf(withdrawal)).toMatchObject({
+      status: HoldStatus.RELEASED,
+    });
+    expect(await harness.balanceOf(wallet)).toMatchObject({
+      available: 100,
+      reserved: 0,
+    });
+    expect(usages.store[0].releasedAt).toBeInstanceOf(Date);
+  });
+
+  it('refuses to complete a withdrawal that was rejected', async () => {
+    const withdrawal = await request(50);
+    await service.rejectWithdrawal(
+      idOf(withdrawal),
+      { rejectionReason: 'Wrong IBAN' },
+      'admin',
+    );
+
+    await expect(
+      service.completeWithdrawal(
+        idOf(withdrawal),
+        { transactionReference: 'bank-ref-1' },
+        'admin',
+      ),
+    ).rejects.toThrow('common.errors.withdrawal_not_in_processing_state');
+    expect(await harness.balanceOf(wallet)).toMatchObject({ available: 100 });
+  });
+});